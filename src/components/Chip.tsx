@@ -1,5 +1,6 @@
 import React, { forwardRef, useCallback } from 'react';
 import { XIcon } from './icons/XIcon';
+import { HighlightedText } from './HighlightedText';
 
 export interface ChipProps {
   /** The text content displayed in the chip */
@@ -174,7 +175,7 @@ const ChipComponent = forwardRef<HTMLDivElement, ChipProps>(({
     >
       {/* Chip label */}
       <span className="truncate max-w-[150px]" title={label}>
-        {label}
+        <HighlightedText text={label} />
       </span>
 
       {/* Remove button */}
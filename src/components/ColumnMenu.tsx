@@ -0,0 +1,113 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { Column, ColumnPinSide } from '../types';
+import { DotsVerticalIcon } from './icons/DotsVerticalIcon';
+
+interface ColumnMenuProps<T> {
+  column: Column<T>;
+  pinned?: ColumnPinSide;
+  // Called with the new side, or null to unpin
+  onPinChange: (side: ColumnPinSide | null) => void;
+}
+
+const menuItemClassName = 'block w-full text-left px-3 py-1.5 text-sm normal-case tracking-normal font-normal text-gray-200 hover:bg-gray-700 focus:bg-gray-700 focus:outline-none';
+
+/**
+ * Header menu with column actions. Rendered as a fixed popover so it isn't
+ * clipped by the table's scroll container or truncated header cells.
+ */
+export const ColumnMenu = <T,>({ column, pinned, onPinChange }: ColumnMenuProps<T>) => {
+  const [coords, setCoords] = useState<{ top: number; right: number } | null>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const isOpen = coords !== null;
+
+  const close = (restoreFocus = false) => {
+    setCoords(null);
+    if (restoreFocus) buttonRef.current?.focus();
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    menuRef.current?.querySelector<HTMLElement>('[role="menuitem"]')?.focus();
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as Node;
+      if (!menuRef.current?.contains(target) && !buttonRef.current?.contains(target)) close();
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const toggle = (event: React.MouseEvent<HTMLButtonElement>) => {
+    event.stopPropagation();
+    if (isOpen) {
+      close();
+      return;
+    }
+    const rect = event.currentTarget.getBoundingClientRect();
+    setCoords({ top: rect.bottom + 4, right: window.innerWidth - rect.right });
+  };
+
+  const handleMenuKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    event.stopPropagation();
+    const items = Array.from(menuRef.current?.querySelectorAll<HTMLElement>('[role="menuitem"]') ?? []);
+    const index = items.indexOf(document.activeElement as HTMLElement);
+    if (event.key === 'Escape') {
+      close(true);
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      items[(index + step + items.length) % items.length]?.focus();
+    } else if (event.key === 'Tab') {
+      close();
+    }
+  };
+
+  const select = (side: ColumnPinSide | null) => {
+    onPinChange(side);
+    close(true);
+  };
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={toggle}
+        draggable={false}
+        className="p-0.5 rounded text-gray-400 hover:text-white hover:bg-gray-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
+        aria-label={`Column options for ${column.header}`}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <DotsVerticalIcon />
+      </button>
+      {coords && (
+        <div
+          ref={menuRef}
+          role="menu"
+          aria-label={`${column.header} column`}
+          onClick={event => event.stopPropagation()}
+          onKeyDown={handleMenuKeyDown}
+          className="fixed z-50 w-40 py-1 bg-gray-800 rounded-md shadow-2xl ring-1 ring-white/10"
+          style={{ top: `${coords.top}px`, right: `${coords.right}px` }}
+        >
+          {pinned !== 'left' && (
+            <button type="button" role="menuitem" tabIndex={-1} className={menuItemClassName} onClick={() => select('left')}>
+              Pin to left
+            </button>
+          )}
+          {pinned !== 'right' && (
+            <button type="button" role="menuitem" tabIndex={-1} className={menuItemClassName} onClick={() => select('right')}>
+              Pin to right
+            </button>
+          )}
+          {pinned && (
+            <button type="button" role="menuitem" tabIndex={-1} className={menuItemClassName} onClick={() => select(null)}>
+              Unpin
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import type { Column } from '../types';
+import { getFacetValues, BLANK_FACET_LABEL } from '../utils/facetUtils';
+
+interface FacetFilterProps<T> {
+  column: Column<T>;
+  // Rows whose values are listed, read while the list is open; the same array until they change
+  getRows: () => T[];
+  // Checked values, or null when no value is filtered out
+  selected: string[] | null;
+  onChange: (selected: string[] | null) => void;
+}
+
+const getValueLabel = <T,>(column: Column<T>, value: string) => {
+  if (value === '') return BLANK_FACET_LABEL;
+  const config = column.collectionConfig;
+  const options = config ? (typeof config.options === 'function' ? config.options() : config.options) : [];
+  return options.find(option => option.value === value)?.label ?? value;
+};
+
+/**
+ * Excel-style value list filter: the column's distinct values with row
+ * counts, searchable, each with a checkbox. Checking every value clears the
+ * filter.
+ */
+export const FacetFilter = <T,>({ column, getRows, selected, onChange }: FacetFilterProps<T>) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    searchRef.current?.focus();
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Counted once per opening (and when the rows change), not on every keystroke in the search box
+  const rows = isOpen ? getRows() : null;
+  const values = useMemo(() => rows ? getFacetValues(rows, column) : [], [rows, column]);
+  const visibleValues = useMemo(() => {
+    const text = search.trim().toLowerCase();
+    return text ? values.filter(({ label }) => label.toLowerCase().includes(text)) : values;
+  }, [values, search]);
+  const isChecked = (value: string) => selected === null || selected.includes(value);
+
+  const commit = (next: string[]) => {
+    onChange(values.every(({ value }) => next.includes(value)) ? null : next);
+  };
+
+  const toggleValue = (value: string) => {
+    const current = selected ?? values.map(facet => facet.value);
+    commit(current.includes(value) ? current.filter(v => v !== value) : [...current, value]);
+  };
+
+  // Select all and none apply to the values matching the search
+  const selectAll = () => {
+    const current = selected ?? values.map(facet => facet.value);
+    commit(Array.from(new Set([...current, ...visibleValues.map(facet => facet.value)])));
+  };
+
+  const selectNone = () => {
+    const hidden = new Set(visibleValues.map(facet => facet.value));
+    commit((selected ?? values.map(facet => facet.value)).filter(value => !hidden.has(value)));
+  };
+
+  const summary = selected === null
+    ? 'All'
+    : selected.length === 0
+      ? 'None'
+      : selected.length === 1
+        ? getValueLabel(column, selected[0])
+        : `${selected.length} selected`;
+
+  return (
+    <div
+      className="relative"
+      ref={containerRef}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape' && isOpen) {
+          e.stopPropagation();
+          setIsOpen(false);
+        }
+      }}
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full text-left truncate bg-[var(--table-color-surface,#1f2937)] border border-[var(--table-color-border,#4b5563)] rounded-[var(--table-border-radius,0.375rem)] py-1 px-2 text-sm text-[var(--table-color-text,#f3f4f6)] focus:ring-2 focus:ring-[var(--table-color-primary,#6366f1)] outline-none transition"
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        aria-label={`Filter values for ${column.header}: ${summary}`}
+      >
+        {summary}
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label={`Values of ${column.header}`}
+          className="absolute z-20 mt-1 w-56 rounded-md shadow-lg bg-gray-800 ring-1 ring-black ring-opacity-5 p-2 space-y-2"
+        >
+          <input
+            ref={searchRef}
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search values..."
+            className="w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-gray-200 placeholder-gray-400 focus:ring-2 focus:ring-indigo-500 outline-none"
+            aria-label={`Search values of ${column.header}`}
+          />
+          <div className="flex gap-2 text-xs">
+            <button type="button" onClick={selectAll} className="text-indigo-400 hover:text-indigo-300">
+              Select all
+            </button>
+            <button type="button" onClick={selectNone} className="text-indigo-400 hover:text-indigo-300">
+              Select none
+            </button>
+          </div>
+          <ul className="max-h-60 overflow-y-auto">
+            {visibleValues.map(({ value, label, count }) => (
+              <li key={value}>
+                <label className="flex items-center gap-2 px-1 py-1 text-sm text-gray-200 rounded hover:bg-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isChecked(value)}
+                    onChange={() => toggleValue(value)}
+                    className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span className="flex-1 truncate">{label}</span>
+                  <span className="text-xs text-gray-400">{count}</span>
+                </label>
+              </li>
+            ))}
+            {visibleValues.length === 0 && (
+              <li className="px-1 py-1 text-sm text-gray-400">No values</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
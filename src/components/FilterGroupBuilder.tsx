@@ -0,0 +1,198 @@
+import React from 'react';
+import type { Column, FilterConfig, FilterGroup, FilterNode, FilterOperator } from '../types';
+import { getOperatorOptions, isFilterGroup } from '../utils/filterUtils';
+import { getFilterOperator, operatorRequiresValue } from '../utils/filterOperatorRegistry';
+import { isRelativeDateOperator } from '../utils/relativeDateUtils';
+import { XIcon } from './icons/XIcon';
+
+interface FilterGroupBuilderProps<T> {
+  columns: Column<T>[];
+  value: FilterGroup<T>;
+  onChange: (group: FilterGroup<T>) => void;
+  onRemove?: () => void; // Provided for nested groups only
+  depth?: number;
+}
+
+const inputClassName = 'bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-gray-200';
+
+const createCondition = <T,>(columns: Column<T>[]): FilterConfig<T> => {
+  const column = columns[0];
+  return {
+    key: column.accessor,
+    operator: getOperatorOptions(column)[0][0],
+    value: '',
+  };
+};
+
+const ConditionRow = <T,>({
+  columns,
+  condition,
+  onChange,
+  onRemove,
+}: {
+  columns: Column<T>[];
+  condition: FilterConfig<T>;
+  onChange: (condition: FilterConfig<T>) => void;
+  onRemove: () => void;
+}) => {
+  const column = columns.find(c => c.accessor === condition.key) || columns[0];
+  const operators = getOperatorOptions(column);
+  const isNumeric = column.dataType === 'number' || column.dataType === 'currency';
+  const inputType = isNumeric || isRelativeDateOperator(condition.operator) ? 'number' : column.dataType === 'date' ? 'date' : column.dataType === 'datetime' ? 'datetime-local' : 'text';
+  const isRange = condition.operator === 'between' || condition.operator === 'dateRange';
+  const ValueEditor = getFilterOperator(condition.operator)?.valueEditor;
+
+  const handleColumnChange = (key: string) => {
+    const nextColumn = columns.find(c => String(c.accessor) === key);
+    if (!nextColumn) return;
+    const nextOperators = getOperatorOptions(nextColumn);
+    const keepOperator = nextOperators.some(([op]) => op === condition.operator);
+    onChange({
+      key: nextColumn.accessor,
+      operator: keepOperator ? condition.operator : nextOperators[0][0],
+      value: '',
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Filter condition">
+      <select
+        value={String(condition.key)}
+        onChange={e => handleColumnChange(e.target.value)}
+        className={inputClassName}
+        aria-label="Condition column"
+      >
+        {columns.map(col => <option key={String(col.accessor)} value={String(col.accessor)}>{col.header}</option>)}
+      </select>
+      <select
+        value={condition.operator}
+        onChange={e => onChange({ ...condition, operator: e.target.value as FilterOperator })}
+        className={inputClassName}
+        aria-label="Condition operator"
+      >
+        {operators.map(([op, label]) => <option key={op} value={op}>{label}</option>)}
+      </select>
+      {ValueEditor && operatorRequiresValue(condition.operator) && (
+        <ValueEditor
+          column={column}
+          value={condition.value}
+          secondValue={condition.secondValue}
+          onChange={(value, secondValue) => onChange({ ...condition, value, secondValue: secondValue ?? condition.secondValue })}
+        />
+      )}
+      {!ValueEditor && operatorRequiresValue(condition.operator) && (
+        <input
+          type={inputType}
+          value={condition.value}
+          onChange={e => onChange({ ...condition, value: e.target.value })}
+          className={`${inputClassName} w-32`}
+          aria-label="Condition value"
+          placeholder={isRange ? 'From...' : 'Value...'}
+        />
+      )}
+      {isRange && (
+        <input
+          type={inputType}
+          value={condition.secondValue || ''}
+          onChange={e => onChange({ ...condition, secondValue: e.target.value })}
+          className={`${inputClassName} w-32`}
+          aria-label="Condition second value"
+          placeholder="To..."
+        />
+      )}
+      <button type="button" onClick={onRemove} className="text-gray-400 hover:text-red-400" aria-label="Remove condition">
+        <XIcon />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Recursive editor for a FilterGroup: an AND/OR combinator over conditions and nested groups.
+ */
+export const FilterGroupBuilder = <T,>({
+  columns,
+  value,
+  onChange,
+  onRemove,
+  depth = 0,
+}: FilterGroupBuilderProps<T>) => {
+  if (columns.length === 0) {
+    return <p className="text-xs text-gray-500">No filterable columns.</p>;
+  }
+
+  const updateChild = (index: number, child: FilterNode<T>) => {
+    const children = [...value.children];
+    children[index] = child;
+    onChange({ ...value, children });
+  };
+
+  const removeChild = (index: number) => {
+    onChange({ ...value, children: value.children.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div
+      className={`space-y-2 ${depth > 0 ? 'p-2 border-l-2 border-indigo-500/40 bg-gray-900/40 rounded-r-md' : ''}`}
+      role="group"
+      aria-label={depth > 0 ? 'Nested filter group' : 'Filter group'}
+    >
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-gray-400">Match</span>
+        <select
+          value={value.combinator}
+          onChange={e => onChange({ ...value, combinator: e.target.value as FilterGroup<T>['combinator'] })}
+          className={inputClassName}
+          aria-label="Group combinator"
+        >
+          <option value="and">All (AND)</option>
+          <option value="or">Any (OR)</option>
+        </select>
+        <span className="text-gray-400">of the following:</span>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="ml-auto text-gray-400 hover:text-red-400" aria-label="Remove group">
+            <XIcon />
+          </button>
+        )}
+      </div>
+
+      {value.children.map((child, index) =>
+        isFilterGroup(child) ? (
+          <FilterGroupBuilder<T>
+            key={index}
+            columns={columns}
+            value={child}
+            onChange={group => updateChild(index, group)}
+            onRemove={() => removeChild(index)}
+            depth={depth + 1}
+          />
+        ) : (
+          <ConditionRow<T>
+            key={index}
+            columns={columns}
+            condition={child}
+            onChange={condition => updateChild(index, condition)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, children: [...value.children, createCondition(columns)] })}
+          className="px-2 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors"
+        >
+          + Condition
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, children: [...value.children, { combinator: 'or', children: [createCondition(columns)] }] })}
+          className="px-2 py-1 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors"
+        >
+          + Group
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { XIcon } from './icons/XIcon';
 import { useThemeClasses } from './ThemeProvider';
 import { useStableId } from '../utils/useStableId';
@@ -12,6 +12,16 @@ export interface GlobalSearchProps {
   showResultsCount?: boolean;
   resultsCount?: number;
   'aria-describedby'?: string;
+  // Completions for the word being typed, offered in a list below the input
+  suggestions?: GlobalSearchSuggestion[];
+  onSuggestionSelect?: (value: string) => void;
+  // Shown below the input, which is marked invalid
+  error?: string;
+}
+
+export interface GlobalSearchSuggestion {
+  value: string;
+  description?: string;
 }
 
 export const GlobalSearch: React.FC<GlobalSearchProps> = ({
@@ -23,8 +33,13 @@ export const GlobalSearch: React.FC<GlobalSearchProps> = ({
   showResultsCount = false,
   resultsCount = 0,
   'aria-describedby': ariaDescribedBy,
+  suggestions = [],
+  onSuggestionSelect,
+  error,
 }) => {
   const themeClasses = useThemeClasses();
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
   
   // Variant-specific sizing
   const sizeClasses = {
@@ -47,6 +62,35 @@ export const GlobalSearch: React.FC<GlobalSearchProps> = ({
   const variantClasses = sizeClasses[variant];
   const searchInputId = useStableId('global-search');
   const resultsId = showResultsCount ? `${searchInputId}-results` : undefined;
+  const errorId = error ? `${searchInputId}-error` : undefined;
+  const suggestionsId = `${searchInputId}-suggestions`;
+  const showSuggestions = !!onSuggestionSelect && suggestions.length > 0 && !suggestionsDismissed;
+
+  const handleChange = (value: string) => {
+    setActiveSuggestion(-1);
+    setSuggestionsDismissed(false);
+    onSearchChange(value);
+  };
+
+  const selectSuggestion = (value: string) => {
+    setActiveSuggestion(-1);
+    onSuggestionSelect?.(value);
+  };
+
+  // Arrow keys move through the suggestions; Enter or Tab takes the highlighted one (Tab the first)
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveSuggestion(current => (current + step + suggestions.length) % suggestions.length);
+    } else if ((e.key === 'Enter' && activeSuggestion >= 0) || e.key === 'Tab') {
+      e.preventDefault();
+      selectSuggestion(suggestions[Math.max(activeSuggestion, 0)].value);
+    } else if (e.key === 'Escape') {
+      setSuggestionsDismissed(true);
+    }
+  };
 
   return (
     <div className={`relative ${variantClasses.container} ${className}`}>
@@ -55,11 +99,17 @@ export const GlobalSearch: React.FC<GlobalSearchProps> = ({
           id={searchInputId}
           type="text"
           value={searchTerm}
-          onChange={(e) => onSearchChange(e.target.value)}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={handleKeyDown}
           placeholder={placeholder}
           className={`w-full bg-[var(--table-color-surface,#1f2937)] border border-[var(--table-color-border,#4b5563)] rounded-[var(--table-border-radius,0.375rem)] ${variantClasses.input} text-[var(--table-color-text,#f3f4f6)] placeholder-[var(--table-color-textMuted,#9ca3af)] focus:ring-2 focus:ring-[var(--table-color-primary,#6366f1)] focus:border-[var(--table-color-primary,#6366f1)] outline-none transition-colors`}
           aria-label="Global search"
-          aria-describedby={[ariaDescribedBy, resultsId].filter(Boolean).join(' ') || undefined}
+          aria-describedby={[ariaDescribedBy, resultsId, errorId].filter(Boolean).join(' ') || undefined}
+          aria-invalid={error ? true : undefined}
+          aria-autocomplete={onSuggestionSelect ? 'list' : undefined}
+          aria-controls={showSuggestions ? suggestionsId : undefined}
+          aria-expanded={onSuggestionSelect ? showSuggestions : undefined}
+          aria-activedescendant={showSuggestions && activeSuggestion >= 0 ? `${suggestionsId}-${activeSuggestion}` : undefined}
           role="searchbox"
         />
         
@@ -80,7 +130,7 @@ export const GlobalSearch: React.FC<GlobalSearchProps> = ({
         {/* Clear Button */}
         {searchTerm && (
           <button
-            onClick={() => onSearchChange('')}
+            onClick={() => handleChange('')}
             className={`absolute inset-y-0 right-0 ${variantClasses.clearPadding} flex items-center text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-text,#f3f4f6)] focus:text-[var(--table-color-text,#f3f4f6)] transition-colors focus:outline-none focus:ring-2 focus:ring-[var(--table-color-primary,#6366f1)] rounded-[var(--table-border-radius,0.375rem)]`}
             aria-label="Clear search"
             type="button"
@@ -90,6 +140,41 @@ export const GlobalSearch: React.FC<GlobalSearchProps> = ({
         )}
       </div>
       
+      {/* Suggestions for the word being typed */}
+      {showSuggestions && (
+        <ul
+          id={suggestionsId}
+          role="listbox"
+          aria-label="Search suggestions"
+          className="absolute z-30 mt-1 w-full max-h-60 overflow-auto rounded-[var(--table-border-radius,0.375rem)] border border-[var(--table-color-border,#4b5563)] bg-[var(--table-color-surface,#1f2937)] py-1 shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.value}
+              id={`${suggestionsId}-${index}`}
+              role="option"
+              aria-selected={index === activeSuggestion}
+              onMouseDown={(e) => {
+                // Keep focus in the input
+                e.preventDefault();
+                selectSuggestion(suggestion.value);
+              }}
+              className={`flex items-center justify-between gap-3 px-3 py-1.5 text-sm cursor-pointer text-[var(--table-color-text,#f3f4f6)] ${index === activeSuggestion ? 'bg-[var(--table-color-primary,#6366f1)]/20' : 'hover:bg-[var(--table-color-primary,#6366f1)]/10'}`}
+            >
+              <span className="font-mono">{suggestion.value}</span>
+              {suggestion.description && <span className="text-xs text-[var(--table-color-textMuted,#9ca3af)]">{suggestion.description}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Query syntax error */}
+      {error && (
+        <div id={errorId} className="mt-1 text-xs text-[var(--table-color-error,#ef4444)]" role="alert">
+          {error}
+        </div>
+      )}
+
       {/* Search Results Count */}
       {showResultsCount && searchTerm && (
         <div 
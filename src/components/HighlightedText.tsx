@@ -0,0 +1,42 @@
+import React, { createContext, useContext } from 'react';
+import type { GlobalSearchMode } from '../types';
+import { getMatchRanges } from '../utils/globalSearchUtils';
+
+export interface SearchHighlight {
+  query: string;
+  mode?: GlobalSearchMode;
+}
+
+/**
+ * The search whose matches HighlightedText marks. ReusableTable provides it
+ * around its rows while a global search is active.
+ */
+export const SearchHighlightContext = createContext<SearchHighlight | null>(null);
+
+export interface HighlightedTextProps {
+  text: string;
+}
+
+/**
+ * Renders text with the parts matching the current search wrapped in
+ * `<mark>`; plain text outside a SearchHighlightContext.
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text }) => {
+  const highlight = useContext(SearchHighlightContext);
+  const ranges = highlight ? getMatchRanges(text, highlight.query, highlight.mode) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-400/30 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+  return <>{parts}</>;
+};
@@ -0,0 +1,125 @@
+import React from 'react';
+import type { Column, PivotConfig, AggregationType } from '../types';
+import { AggregationLabels } from '../utils/aggregationUtils';
+import { XIcon } from './icons/XIcon';
+
+interface PivotConfigEditorProps<T> {
+  columns: Column<T>[];
+  value: PivotConfig<T> | null;
+  onChange: (pivot: PivotConfig<T> | null) => void;
+}
+
+const inputClassName = 'bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-gray-200';
+
+const createDefaultPivot = <T,>(columns: Column<T>[]): PivotConfig<T> => {
+  const rowColumn = columns.find(c => c.groupable) || columns[0];
+  const valueColumn = columns.find(c => c.dataType === 'number' || c.dataType === 'currency');
+  return {
+    rows: [rowColumn.accessor],
+    columns: [],
+    value: (valueColumn || rowColumn).accessor,
+    aggregate: valueColumn ? 'sum' : 'count',
+  };
+};
+
+// Ordered list of pivot keys with an "add" select for the remaining columns
+const PivotKeyList = <T,>({
+  label,
+  columns,
+  keys,
+  onChange,
+}: {
+  label: string;
+  columns: Column<T>[];
+  keys: (keyof T)[];
+  onChange: (keys: (keyof T)[]) => void;
+}) => {
+  const available = columns.filter(c => !keys.includes(c.accessor));
+  return (
+    <div className="space-y-1">
+      <h4 className="text-xs uppercase text-gray-400 font-bold">{label}</h4>
+      <div className="flex flex-wrap items-center gap-2">
+        {keys.map(key => (
+          <span key={String(key)} className="flex items-center gap-1 px-2 py-1 text-sm bg-gray-700 rounded-md">
+            {columns.find(c => c.accessor === key)?.header ?? String(key)}
+            <button onClick={() => onChange(keys.filter(k => k !== key))} className="text-gray-400 hover:text-red-400" aria-label={`Remove ${label.toLowerCase()} ${String(key)}`}>
+              <XIcon />
+            </button>
+          </span>
+        ))}
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={e => {
+              const column = available.find(c => String(c.accessor) === e.target.value);
+              if (column) onChange([...keys, column.accessor]);
+            }}
+            className={inputClassName}
+            aria-label={`Add ${label.toLowerCase()}`}
+          >
+            <option value="">Add...</option>
+            {available.map(col => <option key={String(col.accessor)} value={String(col.accessor)}>{col.header}</option>)}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Editor for a view's pivot layout: row keys, column keys, value column and aggregation.
+ * A null value means pivot mode is off.
+ */
+export const PivotConfigEditor = <T,>({ columns, value, onChange }: PivotConfigEditorProps<T>) => {
+  if (columns.length === 0) return null;
+
+  // Custom reducers can't be edited here; they show up as "Custom" and are kept unless changed
+  const aggregateValue = typeof value?.aggregate === 'function' ? 'custom' : value?.aggregate;
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={e => onChange(e.target.checked ? createDefaultPivot(columns) : null)}
+          className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-indigo-600 focus:ring-indigo-500"
+        />
+        Show as pivot table
+      </label>
+
+      {value && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <PivotKeyList<T> label="Row keys" columns={columns} keys={value.rows} onChange={rows => onChange({ ...value, rows })} />
+          <PivotKeyList<T> label="Column keys" columns={columns} keys={value.columns} onChange={keys => onChange({ ...value, columns: keys })} />
+          <div className="space-y-1">
+            <h4 className="text-xs uppercase text-gray-400 font-bold">Value</h4>
+            <select
+              value={String(value.value)}
+              onChange={e => {
+                const column = columns.find(c => String(c.accessor) === e.target.value);
+                if (column) onChange({ ...value, value: column.accessor });
+              }}
+              className={`${inputClassName} w-full`}
+              aria-label="Pivot value column"
+            >
+              {columns.map(col => <option key={String(col.accessor)} value={String(col.accessor)}>{col.header}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <h4 className="text-xs uppercase text-gray-400 font-bold">Aggregation</h4>
+            <select
+              value={aggregateValue}
+              onChange={e => onChange({ ...value, aggregate: e.target.value as AggregationType })}
+              className={`${inputClassName} w-full`}
+              aria-label="Pivot aggregation"
+            >
+              {Object.entries(AggregationLabels).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+              {aggregateValue === 'custom' && <option value="custom" disabled>Custom</option>}
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React from 'react';
+import type { Column, PivotResult } from '../types';
+import { formatAggregateValue, getAggregationLabel } from '../utils/aggregationUtils';
+import { getPivotValueColumn } from '../utils/pivotUtils';
+
+interface PivotTableProps<T> {
+  pivot: PivotResult<T>;
+  allColumns: Column<T>[];
+}
+
+/**
+ * Renders a PivotResult as a cross-tab: one header row per column key (adjacent
+ * equal values are merged with colSpan), row key cells on the left, and row and
+ * column totals.
+ */
+export const PivotTable = <T,>({ pivot, allColumns }: PivotTableProps<T>) => {
+  const { config, columnKeys, rows, columnTotals, grandTotal } = pivot;
+  const valueColumn = getPivotValueColumn(config, allColumns);
+  const headerFor = (key: keyof T) => allColumns.find(c => c.accessor === key)?.header ?? String(key);
+
+  const depth = config.columns.length;
+  // Without column keys there is a single value column, which already is the row total
+  const showTotalColumn = depth > 0;
+  const rowHeaderWidth = Math.max(1, config.rows.length);
+  const aggregationLabel = getAggregationLabel(valueColumn);
+  const valueLabel = aggregationLabel ? `${valueColumn.header} (${aggregationLabel.toLowerCase()})` : valueColumn.header;
+
+  // Merges adjacent column keys that share the same values up to and including a level
+  const getHeaderSpans = (level: number) => {
+    const spans: { label: string; span: number; key: string }[] = [];
+    columnKeys.forEach(values => {
+      const prefix = JSON.stringify(values.slice(0, level + 1));
+      const last = spans[spans.length - 1];
+      if (last && last.key === prefix) {
+        last.span++;
+      } else {
+        spans.push({ label: values[level], span: 1, key: prefix });
+      }
+    });
+    return spans;
+  };
+
+  const format = (value: unknown) => formatAggregateValue(value, valueColumn);
+
+  return (
+    <table className="min-w-full divide-y divide-gray-700" aria-label="Pivot table">
+      <thead className="bg-gray-800">
+        {config.columns.map((columnKey, level) => (
+          <tr key={String(columnKey)}>
+            <th scope="col" colSpan={rowHeaderWidth} className="px-6 py-2 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">
+              {headerFor(columnKey)}
+            </th>
+            {getHeaderSpans(level).map(span => (
+              <th key={span.key} scope="colgroup" colSpan={span.span} className="px-6 py-2 text-center text-xs font-medium text-gray-300 uppercase tracking-wider border-l border-gray-700">
+                {span.label}
+              </th>
+            ))}
+            {level === 0 && showTotalColumn && (
+              <th scope="col" rowSpan={depth + 1} className="px-6 py-2 text-right text-xs font-medium text-gray-300 uppercase tracking-wider border-l border-gray-700">
+                Total
+              </th>
+            )}
+          </tr>
+        ))}
+        <tr>
+          {config.rows.length > 0 ? (
+            config.rows.map(rowKey => (
+              <th key={String(rowKey)} scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
+                {headerFor(rowKey)}
+              </th>
+            ))
+          ) : (
+            <th scope="col" className="px-6 py-3"></th>
+          )}
+          <th scope="colgroup" colSpan={Math.max(1, columnKeys.length)} className="px-6 py-3 text-center text-xs font-medium text-gray-400 tracking-wider border-l border-gray-700">
+            {valueLabel}
+          </th>
+        </tr>
+      </thead>
+      <tbody className="bg-gray-900 divide-y divide-gray-800">
+        {rows.length === 0 ? (
+          <tr>
+            <td colSpan={rowHeaderWidth + columnKeys.length + (showTotalColumn ? 1 : 0)} className="text-center px-6 py-10 text-gray-500">
+              No data matches your criteria.
+            </td>
+          </tr>
+        ) : (
+          rows.map(row => (
+            <tr key={row.key} className="hover:bg-gray-800/60 transition-colors">
+              {config.rows.length > 0 ? (
+                row.values.map((value, index) => (
+                  <th key={index} scope="row" className="px-6 py-3 whitespace-nowrap text-left text-sm font-medium text-gray-200">{value}</th>
+                ))
+              ) : (
+                <th scope="row" className="px-6 py-3 whitespace-nowrap text-left text-sm font-medium text-gray-200">All</th>
+              )}
+              {row.cells.map((cell, index) => (
+                <td key={index} className="px-6 py-3 whitespace-nowrap text-right text-sm text-gray-300">{format(cell)}</td>
+              ))}
+              {showTotalColumn && (
+                <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-semibold text-gray-200 border-l border-gray-700">{format(row.total)}</td>
+              )}
+            </tr>
+          ))
+        )}
+      </tbody>
+      {rows.length > 0 && (
+        <tfoot className="bg-gray-800 border-t border-gray-600">
+          <tr>
+            <th scope="row" colSpan={rowHeaderWidth} className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-gray-400">
+              Total
+            </th>
+            {columnTotals.map((total, index) => (
+              <td key={index} className="px-6 py-3 whitespace-nowrap text-right text-sm font-semibold text-gray-200">{format(total)}</td>
+            ))}
+            {showTotalColumn && (
+              <td className="px-6 py-3 whitespace-nowrap text-right text-sm font-semibold text-gray-200 border-l border-gray-700">{format(grandTotal)}</td>
+            )}
+          </tr>
+        </tfoot>
+      )}
+    </table>
+  );
+};
@@ -1,17 +1,39 @@
-import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
-import type { Column, SortConfig, FilterConfig, FilterOperator, StringFilterOperator, NumberFilterOperator, DisplayRow, GroupHeaderRow, ViewConfiguration, DateFilterOperator, CollectionFilterOperator, RowSelectionState, RowSelectionConfig, CellRenderContext, CellRenderDecision } from '../types';
+import React, { useState, useMemo, useRef, useEffect, useLayoutEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import type { Column, SortConfig, FilterConfig, FilterOperator, StringFilterOperator, NumberFilterOperator, DisplayRow, GroupHeaderRow, GroupByLevel, GroupByEntry, ColumnWidths, ColumnPinSide, PinnedColumns, ColumnGroup, RowId, RowDetailRenderer, TreeDataConfig, PinnedRows, GlobalSearchConfig, ReusableTableHandle, ViewConfiguration, DateFilterOperator, ValueListFilterOperator, RowSelectionState, RowSelectionConfig, CellRenderContext, CellRenderDecision, FetchDataFn, InfiniteScrollConfig, VirtualizationConfig } from '../types';
 import { useTable } from '../hooks/useTable';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { useControllableState } from '../hooks/useControllableState';
+import { useColumnResize } from '../hooks/useColumnResize';
+import { useDndList } from '../hooks/useDndList';
+import { usePinnedColumns } from '../hooks/usePinnedColumns';
+import { useRowExpansion } from '../hooks/useRowExpansion';
+import { useRowPinning } from '../hooks/useRowPinning';
+import { ChevronRightIcon } from './icons/ChevronRightIcon';
+import { PinIcon } from './icons/PinIcon';
+import { CalendarIcon } from './icons/CalendarIcon';
 import { SortIcon } from './icons/SortIcon';
 import { SortUpIcon } from './icons/SortUpIcon';
 import { SortDownIcon } from './icons/SortDownIcon';
-import { StringOperatorLabels, NumberOperatorLabels, DateOperatorLabels, CollectionOperatorLabels } from '../types';
 import { Pagination } from './Pagination';
+import { PivotTable } from './PivotTable';
+import { ColumnMenu } from './ColumnMenu';
+import { GlobalSearch } from './GlobalSearch';
+import { FacetFilter } from './FacetFilter';
+import { HighlightedText, SearchHighlightContext } from './HighlightedText';
 import { ToggleSwitch } from './ToggleSwitch';
 import { FilterIcon } from './icons/FilterIcon';
 import { DatePicker } from './DatePicker';
 import { CollectionCell } from './CollectionCell';
 import { resolveCellRenderer } from '../utils/cellRenderUtils';
 import { useStableId } from '../utils/useStableId';
+import { countFilterConditions, isFilterGroup, getOperatorOptions, parseOperatorFromInput } from '../utils/filterUtils';
+import { getFilterOperator, operatorRequiresValue } from '../utils/filterOperatorRegistry';
+import { isRelativeDateOperator, describeRelativeDateFilter } from '../utils/relativeDateUtils';
+import { computeAggregates, formatAggregateValue, getAggregationLabel, AggregationLabels } from '../utils/aggregationUtils';
+import { groupRows, normalizeGroupBy } from '../utils/groupingUtils';
+import { parseValueList, serializeValueList, BLANK_FACET_LABEL } from '../utils/facetUtils';
+import { parseSearchQuery, getSearchFieldSuggestions, applySearchFieldSuggestion } from '../utils/searchQueryUtils';
+import { getColumnGroupPaths, buildHeaderRows, moveColumnWithGroup } from '../utils/columnGroupUtils';
 
 // Enhanced row selection type that supports both old and new formats
 type RowSelectionProp<T> = 
@@ -24,12 +46,71 @@ type RowSelectionProp<T> =
 
 interface ReusableTableProps<T extends object> {
   allColumns: Column<T>[];
-  data: T[];
+  // Required unless fetchData is provided
+  data?: T[];
   viewConfig?: ViewConfiguration<T>;
   onUpdateData?: (rowIndex: number, columnId: keyof T, value: any) => void;
   rowSelection?: RowSelectionProp<T>;
+  // Server-side mode: called with the current sort, filters, page and grouping
+  fetchData?: FetchDataFn<T>;
+  // Infinite scroll mode: loads the next chunk when the user scrolls near the bottom
+  infiniteScroll?: InfiniteScrollConfig<T>;
+  // Windowed rendering: only rows inside the scroll viewport are mounted, pagination is replaced by scrolling
+  virtualization?: VirtualizationConfig;
+  // Controlled state: pass a value to own it (the viewConfig value is then ignored),
+  // or only the callback to observe changes made in the table
+  sortConfig?: SortConfig<T>[];
+  onSortChange?: (sortConfig: SortConfig<T>[]) => void;
+  filters?: FilterConfig<T>[];
+  onFiltersChange?: (filters: FilterConfig<T>[]) => void;
+  page?: number;
+  pageSize?: number;
+  onPageChange?: (page: number, pageSize: number) => void;
+  groupBy?: GroupByEntry<T>[];
+  onGroupingChange?: (groupBy: GroupByEntry<T>[]) => void;
+  collapsedGroups?: string[];
+  onCollapsedGroupsChange?: (collapsedGroups: string[]) => void;
+  // Column widths in pixels; defaults to viewConfig.columnWidths. Save the result of
+  // onColumnWidthsChange into the view to restore the layout later.
+  columnWidths?: ColumnWidths<T>;
+  onColumnWidthsChange?: (columnWidths: ColumnWidths<T>) => void;
+  // Lets users reorder columns by dragging header cells (or Alt+Left/Right on a focused header)
+  reorderableColumns?: boolean;
+  // Called with the new visibleColumns after a reorder; save it into the view to keep the order
+  onColumnOrderChange?: (visibleColumns: (keyof T)[]) => void;
+  // Pinned columns; defaults to viewConfig.pinnedColumns, then to Column.pinned
+  pinnedColumns?: PinnedColumns<T>;
+  onPinnedColumnsChange?: (pinnedColumns: PinnedColumns<T>) => void;
+  // Lets the table scroll vertically inside this height, keeping the header in view
+  maxHeight?: number | string;
+  // Header cells spanning several columns, rendered as extra header rows above the column headers
+  columnGroups?: ColumnGroup<T>[];
+  // Stable row identity for expanded rows; defaults to the row's index in data
+  getRowId?: (row: T, index: number) => RowId;
+  // Adds an expand button per row that shows this content in a panel below the row
+  renderRowDetail?: RowDetailRenderer<T>;
+  // Rows without a detail panel; every row has one by default
+  isRowExpandable?: (row: T) => boolean;
+  // Expanded row ids; uncontrolled (all collapsed initially) when undefined
+  expandedRows?: RowId[];
+  onExpandedRowsChange?: (expandedRows: RowId[]) => void;
+  // Shows hierarchical rows (e.g. a bill of materials) as an expandable tree instead of grouping
+  treeData?: TreeDataConfig<T>;
+  // Ids of expanded tree rows; uncontrolled (all collapsed initially) when undefined
+  expandedTreeRows?: RowId[];
+  onExpandedTreeRowsChange?: (expandedTreeRows: RowId[]) => void;
+  // Row ids kept above or below the other rows whatever the sort, filters and page; uncontrolled when undefined
+  pinnedRows?: PinnedRows;
+  onPinnedRowsChange?: (pinnedRows: PinnedRows) => void;
+  // Adds a button per row that pins it to the top
+  pinnableRows?: boolean;
+  // Search box in the toolbar that narrows the rows before sorting and grouping
+  globalSearch?: GlobalSearchConfig;
 }
 
+// Shared fallback, so a view without widths doesn't report a change on every render
+const NO_COLUMN_WIDTHS: ColumnWidths<any> = {};
+
 /**
  * Helper function to create a default ViewConfiguration from column definitions.
  * Extracts all column accessor keys and creates a sensible default view.
@@ -58,53 +139,20 @@ const SortIndicator = ({ direction, sortOrder }: { direction?: 'ascending' | 'de
     );
 };
 
-// Parser function to detect operators from keyboard input
-const parseOperatorFromInput = (input: string, isNumeric: boolean) => {
-    if (!input.trim()) return null;
-    
-    if (isNumeric) {
-        // Range operators (20><50, 20<>50, or 20..50)  
-        // Only parse if it looks like a complete range (ends with space or multiple digits)
-        const rangeMatch = input.match(/^(\d+\.?\d*)\s*(><|<>|\.\.)\s*(\d+\.?\d*)\s*$/);
-        if (rangeMatch) {
-            console.log('Range matched:', rangeMatch);
-            return {
-                operator: 'between' as NumberFilterOperator,
-                value: rangeMatch[1],
-                secondValue: rangeMatch[3]
-            };
-        }
-        
-        // Comparison operators - only parse if there's a value after the operator
-        if (input.startsWith('>=') && input.length > 2 && input.slice(2).trim()) {
-            return { operator: 'gte' as NumberFilterOperator, value: input.slice(2).trim(), secondValue: '' };
-        }
-        if (input.startsWith('<=') && input.length > 2 && input.slice(2).trim()) {
-            return { operator: 'lte' as NumberFilterOperator, value: input.slice(2).trim(), secondValue: '' };
-        }
-        if (input.startsWith('!=') && input.length > 2 && input.slice(2).trim()) {
-            return { operator: 'neq' as NumberFilterOperator, value: input.slice(2).trim(), secondValue: '' };
-        }
-        if (input.startsWith('>') && !input.startsWith('>=') && input.length > 1 && input.slice(1).trim()) {
-            return { operator: 'gt' as NumberFilterOperator, value: input.slice(1).trim(), secondValue: '' };
-        }
-        if (input.startsWith('<') && !input.startsWith('<=') && input.length > 1 && input.slice(1).trim()) {
-            return { operator: 'lt' as NumberFilterOperator, value: input.slice(1).trim(), secondValue: '' };
-        }
-        if (input.startsWith('=') && input.length > 1 && input.slice(1).trim()) {
-            return { operator: 'eq' as NumberFilterOperator, value: input.slice(1).trim(), secondValue: '' };
-        }
-    }
-    
-    // For strings, just return the input as-is for now
-    return null;
-};
-
 // Function to get display text for current filter
 const getFilterDisplayText = (operator: FilterOperator, value: string, secondValue?: string, columnHeader?: string) => {
     if (operator === 'isEmpty') return `${columnHeader} is empty`;
+    if (isRelativeDateOperator(operator)) return describeRelativeDateFilter(operator, value);
+    const customOperator = getFilterOperator(operator);
+    if (customOperator) {
+        return customOperator.requiresValue === false ? customOperator.label : `${customOperator.label} ${value}`;
+    }
     if (operator === 'between' && secondValue) return `${value} to ${secondValue}`;
     if (operator === 'dateRange' && secondValue) return `${value} to ${secondValue}`;
+    if (operator === 'isAnyOf') {
+        const values = parseValueList(value).map(item => item === '' ? BLANK_FACET_LABEL : item);
+        return values.length > 0 ? `is any of ${values.join(', ')}` : 'matches no values';
+    }
     
     const operatorText = {
         // String operators
@@ -130,17 +178,24 @@ const getFilterDisplayText = (operator: FilterOperator, value: string, secondVal
     return `${operatorText} ${value}`;
 };
 
-const FilterControl = <T,>({ column, filter, onFilterChange }: {
+const FilterControl = <T,>({ column, filter, onFilterChange, getFacetRows = () => [] }: {
     column: Column<T>;
     filter?: FilterConfig<T>;
     onFilterChange: (key: keyof T, operator: FilterOperator, value: string, secondValue?: string, forceRemove?: boolean) => void;
+    // Rows to list in the value list, filtered by everything but this column
+    getFacetRows?: () => T[];
 }) => {
     const defaultStringOp: StringFilterOperator = 'contains';
     const defaultNumberOp: NumberFilterOperator = 'eq';
     const defaultDateOp: DateFilterOperator = 'is';
-    const defaultCollectionOp: CollectionFilterOperator = 'contains';
+    const defaultValueListOp: ValueListFilterOperator = 'isAnyOf';
 
     const [isPopoverOpen, setIsPopoverOpen] = useState(false);
+    // Operator picked while no filter is active yet, so the choice survives until a value is entered
+    const [draftOperator, setDraftOperator] = useState<FilterOperator | null>(null);
+    // Operator last set by shorthand typed into the input, shown as a hint while it's still in use
+    const [shorthandOperator, setShorthandOperator] = useState<FilterOperator | null>(null);
+    const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
     const filterRef = useRef<HTMLDivElement>(null);
     const parseTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -165,18 +220,25 @@ const FilterControl = <T,>({ column, filter, onFilterChange }: {
     const isDate = effectiveFilterType === 'date' || column.dataType === 'date';
     const isDateTime = column.dataType === 'datetime';
     const isCollection = effectiveFilterType === 'collection' || column.dataType === 'collection';
-    const isSelect = effectiveFilterType === 'select';
     const isBoolean = effectiveFilterType === 'boolean';
-    const currentOperator = filter?.operator || (
+    // Select and collection columns filter by a list of values by default
+    const isFacetColumn = effectiveFilterType === 'select' || isCollection;
+    const shorthandType = isNumeric ? 'number' : (isDate || isDateTime) ? 'date' : effectiveFilterType;
+    const currentOperator = filter?.operator || draftOperator || (
         isNumeric ? defaultNumberOp : 
         (isDate || isDateTime) ? defaultDateOp : 
-        isCollection ? defaultCollectionOp : 
+        isFacetColumn ? defaultValueListOp : 
         defaultStringOp
     );
     const currentValue = filter?.value || '';
     const currentSecondValue = filter?.secondValue || '';
     const isRangeFilter = currentOperator === 'between' || currentOperator === 'dateRange';
-    const isEmptyFilter = currentOperator === 'isEmpty';
+    const customOperator = getFilterOperator(currentOperator);
+    const ValueEditor = customOperator?.valueEditor;
+    // isEmpty and value-less custom operators filter without an input
+    const isEmptyFilter = !operatorRequiresValue(currentOperator);
+    // Relative date operators with a count take a plain number instead of a date
+    const isRelativeDateFilter = isRelativeDateOperator(currentOperator);
     const isFilterActive = !!currentValue || !!currentSecondValue || isEmptyFilter;
 
     useEffect(() => {
@@ -196,7 +258,9 @@ const FilterControl = <T,>({ column, filter, onFilterChange }: {
     }, []);
 
     const handleOperatorSelect = (selectedOperator: FilterOperator) => {
-        if (selectedOperator === 'isEmpty') {
+        setDraftOperator(selectedOperator);
+        setShorthandOperator(null);
+        if (!operatorRequiresValue(selectedOperator)) {
             // For isEmpty, we don't need any values
             onFilterChange(column.accessor, selectedOperator, '', '');
         } else if (selectedOperator === 'between' || selectedOperator === 'dateRange') {
@@ -210,40 +274,30 @@ const FilterControl = <T,>({ column, filter, onFilterChange }: {
 
     const handleValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const input = e.target.value;
-        console.log('Raw input from event:', input);
-        console.log('Input length:', input.length);
-        
-        // Clear any existing timeout
         if (parseTimeoutRef.current) {
             clearTimeout(parseTimeoutRef.current);
         }
-        
-        // First, always update with the raw input (no parsing yet)
-        console.log('Setting raw input without parsing:', currentOperator, input);
+
+        // Keep the raw input until it's recognised as shorthand
         onFilterChange(column.accessor, currentOperator, input, currentSecondValue);
-        
-        // Check if this looks like it could be a range operation
-        const couldBeRange = isNumeric && (input.includes('<>') || input.includes('><') || input.includes('..'));
-        
-        if (couldBeRange) {
-            // Debounce the parsing for potential ranges to let user finish typing
-            parseTimeoutRef.current = setTimeout(() => {
-                console.log('Timeout triggered, checking for parsing:', input);
-                const parsed = parseOperatorFromInput(input, isNumeric);
-                console.log('Delayed parsing result:', parsed);
-                
-                if (parsed) {
-                    console.log('Applying delayed parsing:', parsed.operator, parsed.value, parsed.secondValue);
-                    onFilterChange(column.accessor, parsed.operator, parsed.value, parsed.secondValue);
-                }
-            }, 1000); // Wait 1 second after user stops typing
-        } else {
-            // For non-range operations, parse immediately
-            const parsed = parseOperatorFromInput(input, isNumeric);
+
+        // Custom operators take their input as typed, e.g. a regular expression
+        if (customOperator) return;
+
+        const applyShorthand = () => {
+            const parsed = parseOperatorFromInput(input, shorthandType);
             if (parsed) {
-                console.log('Immediate parsing for non-range:', parsed.operator, parsed.value, parsed.secondValue);
+                setShorthandOperator(parsed.operator);
                 onFilterChange(column.accessor, parsed.operator, parsed.value, parsed.secondValue);
             }
+        };
+
+        // Ranges wait until typing pauses, so "20.." isn't read before the second value is complete
+        const couldBeRange = (isNumeric && (input.includes('<>') || input.includes('><'))) || input.includes('..');
+        if (couldBeRange && shorthandType !== 'text') {
+            parseTimeoutRef.current = setTimeout(applyShorthand, 1000);
+        } else {
+            applyShorthand();
         }
     };
 
@@ -254,32 +308,36 @@ const FilterControl = <T,>({ column, filter, onFilterChange }: {
     // DatePicker compatible handlers
     const handleDatePickerValueChange = (value: string) => {
         onFilterChange(column.accessor, currentOperator, value, currentSecondValue);
+        setIsDatePickerOpen(false);
     };
 
     const handleDatePickerSecondValueChange = (value: string) => {
         onFilterChange(column.accessor, currentOperator, currentValue, value);
     };
 
+    // null when every value is checked again
+    const handleFacetChange = (selected: string[] | null) => {
+        if (selected === null) {
+            handleClearFilter();
+        } else {
+            onFilterChange(column.accessor, 'isAnyOf', serializeValueList(selected), '');
+        }
+    };
+
     const handleClearFilter = () => {
+        setShorthandOperator(null);
         onFilterChange(column.accessor, currentOperator, '', '', true);
     };
 
-    const operators = isNumeric 
-        ? Object.entries(NumberOperatorLabels)
-        : (isDate || isDateTime)
-        ? Object.entries(DateOperatorLabels)
-        : isCollection
-        ? Object.entries(CollectionOperatorLabels)
-        : isBoolean
-        ? [['equals', 'Equals'], ['isEmpty', 'Is Empty']]
-        : isSelect
-        ? [['equals', 'Equals'], ['doesNotContain', 'Does Not Equal'], ['isEmpty', 'Is Empty']]
-        : Object.entries(StringOperatorLabels);
+    const operators = getOperatorOptions(column);
     
     // Get current filter display text
     const filterDisplayText = isFilterActive 
         ? getFilterDisplayText(currentOperator, currentValue, currentSecondValue, column.header)
         : null;
+    const shorthandLabel = isFilterActive && shorthandOperator === currentOperator
+        ? operators.find(([op]) => op === currentOperator)?.[1]
+        : null;
     
     return (
         <div className="relative" ref={filterRef}>
@@ -294,7 +352,7 @@ const FilterControl = <T,>({ column, filter, onFilterChange }: {
                 // For isEmpty filter, just show the operator with a clear button
                 <div className="relative">
                     <div className="w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-gray-200 flex items-center justify-between">
-                        <span className="text-indigo-300">Is Empty</span>
+                        <span className="text-indigo-300">{operators.find(([op]) => op === currentOperator)?.[1] ?? 'Is Empty'}</span>
                         <div className="flex items-center gap-1">
                             <button 
                                 onClick={handleClearFilter}
@@ -313,6 +371,62 @@ const FilterControl = <T,>({ column, filter, onFilterChange }: {
                         </div>
                     </div>
                 </div>
+            ) : currentOperator === 'isAnyOf' ? (
+                // Value lists are picked from the column's distinct values
+                <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex-1 min-w-0">
+                        <FacetFilter
+                            column={column}
+                            getRows={getFacetRows}
+                            selected={filter?.operator === 'isAnyOf' ? parseValueList(currentValue) : null}
+                            onChange={handleFacetChange}
+                        />
+                    </div>
+                    {isFilterActive && (
+                        <button 
+                            onClick={handleClearFilter}
+                            className="text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-error,#ef4444)] transition-colors"
+                            title="Clear filter"
+                        >
+                            ✕
+                        </button>
+                    )}
+                    <button 
+                        onClick={() => setIsPopoverOpen(prev => !prev)}
+                        className={`transition-colors ${isFilterActive ? 'text-[var(--table-color-primary,#6366f1)]' : 'text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-primary,#6366f1)]'}`}
+                        aria-label="Select filter operator"
+                    >
+                        <FilterIcon />
+                    </button>
+                </div>
+            ) : ValueEditor ? (
+                // Custom operators can bring their own value editor
+                <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex-1 min-w-0">
+                        <ValueEditor
+                            column={column}
+                            value={currentValue}
+                            secondValue={currentSecondValue}
+                            onChange={(value, secondValue) => onFilterChange(column.accessor, currentOperator, value, secondValue ?? currentSecondValue)}
+                        />
+                    </div>
+                    {isFilterActive && (
+                        <button 
+                            onClick={handleClearFilter}
+                            className="text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-error,#ef4444)] transition-colors"
+                            title="Clear filter"
+                        >
+                            ✕
+                        </button>
+                    )}
+                    <button 
+                        onClick={() => setIsPopoverOpen(prev => !prev)}
+                        className={`transition-colors ${isFilterActive ? 'text-[var(--table-color-primary,#6366f1)]' : 'text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-primary,#6366f1)]'}`}
+                        aria-label="Select filter operator"
+                    >
+                        <FilterIcon />
+                    </button>
+                </div>
             ) : isRangeFilter ? (
                 // For range filters (between, dateRange), show two inputs
                 <div className="space-y-1">
@@ -428,73 +542,78 @@ const FilterControl = <T,>({ column, filter, onFilterChange }: {
                     </div>
                 </div>
             ) : (
-                // For regular filters, show single input with clear button
-                <div className="relative">
-                    {(isDate || isDateTime) ? (
-                        <>
-                            <DatePicker
-                                value={currentValue}
-                                onChange={handleDatePickerValueChange}
-                                type={isDate ? 'date' : 'datetime-local'}
-                                placeholder={`Filter...`}
-                                className="pr-16"
-                                aria-label={`Filter value for ${column.header}`}
-                            />
-                            <div className="absolute inset-y-0 right-0 flex items-center pr-2 gap-1">
-                                {isFilterActive && (
-                                    <button 
-                                        onClick={handleClearFilter}
-                                        className="text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-error,#ef4444)] transition-colors"
-                                        title="Clear filter"
-                                    >
-                                        ✕
-                                    </button>
-                                )}
+                // For regular filters, show single input with clear button; dates can also be picked from a calendar
+                <>
+                    <div className="relative">
+                        <input
+                            type="text"
+                            value={currentValue}
+                            onChange={handleValueChange}
+                            placeholder={
+                                isNumeric ? `Filter... (try >50, <=100, 20<>50, 20><50)` :
+                                isRelativeDateFilter ? `N (e.g. 7)` :
+                                (isDate || isDateTime) ? `Filter... (try >2024-01-01, -7d)` :
+                                shorthandType === 'text' ? `Filter... (try ^abc, abc$, !abc)` :
+                                `Filter...`
+                            }
+                            className={`w-full bg-[var(--table-color-surface,#1f2937)] border border-[var(--table-color-border,#4b5563)] rounded-[var(--table-border-radius,0.375rem)] py-1 pl-2 ${(isDate || isDateTime) && !isRelativeDateFilter ? 'pr-20' : 'pr-16'} text-sm text-[var(--table-color-text,#f3f4f6)] placeholder-[var(--table-color-textMuted,#9ca3af)] focus:ring-2 focus:ring-[var(--table-color-primary,#6366f1)] focus:border-[var(--table-color-primary,#6366f1)] outline-none transition`}
+                            onClick={(e) => e.stopPropagation()}
+                            aria-label={`Filter value for ${column.header}`}
+                        />
+                        <div className="absolute inset-y-0 right-0 flex items-center pr-2 gap-1">
+                            {isFilterActive && (
                                 <button 
-                                    onClick={() => setIsPopoverOpen(prev => !prev)}
-                                    className={`transition-colors ${isFilterActive ? 'text-[var(--table-color-primary,#6366f1)]' : 'text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-primary,#6366f1)]'}`}
-                                    aria-label="Select filter operator"
+                                    onClick={handleClearFilter}
+                                    className="text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-error,#ef4444)] transition-colors"
+                                    title="Clear filter"
                                 >
-                                    <FilterIcon />
+                                    ✕
                                 </button>
-                            </div>
-                        </>
-                    ) : (
-                        <>
-                            <input
-                                type="text"
-                                value={currentValue}
-                                onChange={handleValueChange}
-                                placeholder={isNumeric ? `Filter... (try >50, <=100, 20<>50, 20><50)` : `Filter...`}
-                                className="w-full bg-[var(--table-color-surface,#1f2937)] border border-[var(--table-color-border,#4b5563)] rounded-[var(--table-border-radius,0.375rem)] py-1 pl-2 pr-16 text-sm text-[var(--table-color-text,#f3f4f6)] placeholder-[var(--table-color-textMuted,#9ca3af)] focus:ring-2 focus:ring-[var(--table-color-primary,#6366f1)] focus:border-[var(--table-color-primary,#6366f1)] outline-none transition"
-                                onClick={(e) => e.stopPropagation()}
-                                aria-label={`Filter value for ${column.header}`}
-                            />
-                            <div className="absolute inset-y-0 right-0 flex items-center pr-2 gap-1">
-                                {isFilterActive && (
-                                    <button 
-                                        onClick={handleClearFilter}
-                                        className="text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-error,#ef4444)] transition-colors"
-                                        title="Clear filter"
-                                    >
-                                        ✕
-                                    </button>
-                                )}
+                            )}
+                            {(isDate || isDateTime) && !isRelativeDateFilter && (
                                 <button 
-                                    onClick={() => setIsPopoverOpen(prev => !prev)}
-                                    className={`transition-colors ${isFilterActive ? 'text-[var(--table-color-primary,#6366f1)]' : 'text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-primary,#6366f1)]'}`}
-                                    aria-label="Select filter operator"
+                                    onClick={() => setIsDatePickerOpen(prev => !prev)}
+                                    className="text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-primary,#6366f1)] transition-colors"
+                                    aria-label="Pick a date"
+                                    aria-expanded={isDatePickerOpen}
                                 >
-                                    <FilterIcon />
+                                    <CalendarIcon />
                                 </button>
-                            </div>
-                        </>
+                            )}
+                            <button 
+                                onClick={() => setIsPopoverOpen(prev => !prev)}
+                                className={`transition-colors ${isFilterActive ? 'text-[var(--table-color-primary,#6366f1)]' : 'text-[var(--table-color-textMuted,#9ca3af)] hover:text-[var(--table-color-primary,#6366f1)]'}`}
+                                aria-label="Select filter operator"
+                            >
+                                <FilterIcon />
+                            </button>
+                        </div>
+                    </div>
+                    {isDatePickerOpen && (isDate || isDateTime) && !isRelativeDateFilter && (
+                        <div className="mt-1">
+                            <DatePicker
+                                value={currentValue}
+                                onChange={handleDatePickerValueChange}
+                                type={isDate ? 'date' : 'datetime-local'}
+                                placeholder={`Select date...`}
+                                aria-label={`Pick filter date for ${column.header}`}
+                            />
+                        </div>
                     )}
+                </>
+            )}
+
+            {/* How shorthand typed into the input was read */}
+            {shorthandLabel && (
+                <div className="mt-1" aria-live="polite">
+                    <span className="inline-block px-2 py-0.5 text-xs text-gray-300 bg-gray-700 rounded-full" data-filter-hint>
+                        Shorthand: {shorthandLabel}
+                    </span>
                 </div>
             )}
             
             {isPopoverOpen && (
-                <div className="absolute z-20 mt-1 w-48 rounded-md shadow-lg bg-gray-800 ring-1 ring-black ring-opacity-5 focus:outline-none py-1">
+                <div className="absolute z-20 mt-1 w-48 max-h-72 overflow-y-auto rounded-md shadow-lg bg-gray-800 ring-1 ring-black ring-opacity-5 focus:outline-none py-1">
                     {operators.map(([value, label]) => (
                         <button
                             key={value}
@@ -510,11 +629,21 @@ const FilterControl = <T,>({ column, filter, onFilterChange }: {
     );
 };
 
+interface CsvExportOptions {
+  // Grouping levels, outermost first; used for subtotal rows
+  groupBy?: GroupByLevel<any>[];
+  // All table columns, for group headers and ordering groups by an aggregate
+  allColumns?: Column<any>[];
+  // Adds a subtotal row after every group and a grand total row when columns define an aggregate
+  includeSubtotals?: boolean;
+}
+
 const downloadCSV = (
     data: any[],
     visibleColumns: Column<any>[],
     locale: string,
-    filename: string = 'data.csv'
+    filename: string = 'data.csv',
+    { groupBy = [], allColumns = visibleColumns, includeSubtotals = false }: CsvExportOptions = {}
 ) => {
   if (!data.length || !visibleColumns.length) return;
 
@@ -554,15 +683,55 @@ const downloadCSV = (
     return value;
   };
   
+  const toCsvRow = (row: any) =>
+    visibleColumns.map(col => {
+      const rawValue = row[col.accessor];
+      const formattedValue = col.cellType ? (rawValue ? 'true' : 'false') : formatValue(rawValue, col);
+      return sanitize(formattedValue);
+    }).join(',');
+
+  const aggregateColumns = visibleColumns.filter(col => col.aggregate);
+  const withSubtotals = includeSubtotals && aggregateColumns.length > 0;
+  // Subtotal labels go in the first column that doesn't hold an aggregate
+  const labelIndex = visibleColumns.findIndex(col => !col.aggregate);
+
+  const toSubtotalRow = (label: string, aggregates: Record<string | number | symbol, unknown>) =>
+    visibleColumns.map((col, index) => {
+      if (col.aggregate) return sanitize(formatValue(aggregates[col.accessor], col));
+      return index === labelIndex ? sanitize(label) : '';
+    }).join(',');
+
+  const bodyRows: string[] = [];
+  if (withSubtotals && groupBy.length > 0) {
+    // Emit each group's subtotal once all of its rows (and subgroups) have been written
+    const openGroups: GroupHeaderRow<any>[] = [];
+    const closeGroups = (level: number) => {
+      while (openGroups.length > 0 && openGroups[openGroups.length - 1].level >= level) {
+        const group = openGroups.pop()!;
+        const groupColumn = allColumns.find(col => col.accessor === group.groupKey);
+        const label = `Subtotal ${groupColumn?.header ?? String(group.groupKey)}: ${group.groupValue} (${group.count})`;
+        bodyRows.push(toSubtotalRow(label, group.aggregates || {}));
+      }
+    };
+    for (const row of groupRows(data, groupBy, { aggregateColumns, columns: allColumns })) {
+      if ('isGroupHeader' in row) {
+        closeGroups(row.level);
+        openGroups.push(row as GroupHeaderRow<any>);
+      } else {
+        bodyRows.push(toCsvRow(row));
+      }
+    }
+    closeGroups(0);
+  } else {
+    bodyRows.push(...data.map(toCsvRow));
+  }
+  if (withSubtotals) {
+    bodyRows.push(toSubtotalRow(`Total (${data.length})`, computeAggregates(aggregateColumns, data)));
+  }
+
   const csvRows = [
     headers.join(','),
-    ...data.map(row => 
-      visibleColumns.map(col => {
-        const rawValue = row[col.accessor];
-        const formattedValue = col.cellType ? (rawValue ? 'true' : 'false') : formatValue(rawValue, col);
-        return sanitize(formattedValue);
-      }).join(',')
-    )
+    ...bodyRows
   ];
 
   const csvString = csvRows.join('\n');
@@ -677,21 +846,21 @@ const DynamicCell = <T extends object>({
           key={`collection-cell-${originalRowIndex}-${String(column.accessor)}`}
         />
       ) : (
-        <span>{Array.isArray(cellValue) ? cellValue.join(', ') : String(cellValue || '')}</span>
+        <span><HighlightedText text={Array.isArray(cellValue) ? cellValue.join(', ') : String(cellValue || '')} /></span>
       );
       
     case 'currency':
       if (typeof cellValue === 'number' && decision.props?.currencyOptions) {
         return (
           <span>
-            {new Intl.NumberFormat(decision.props.currencyOptions.locale, {
+            <HighlightedText text={new Intl.NumberFormat(decision.props.currencyOptions.locale, {
               style: 'currency',
               currency: decision.props.currencyOptions.currency,
-            }).format(cellValue)}
+            }).format(cellValue)} />
           </span>
         );
       }
-      return <span>{String(cellValue || '')}</span>;
+      return <span><HighlightedText text={String(cellValue || '')} /></span>;
       
     case 'date':
     case 'datetime':
@@ -699,26 +868,28 @@ const DynamicCell = <T extends object>({
         try {
           return (
             <span>
-              {new Intl.DateTimeFormat(decision.props.dateOptions.locale, {
+              <HighlightedText text={new Intl.DateTimeFormat(decision.props.dateOptions.locale, {
                 dateStyle: decision.props.dateOptions.dateStyle,
                 timeStyle: decision.props.dateOptions.timeStyle,
                 timeZone: 'UTC',
-              }).format(new Date(cellValue))}
+              }).format(new Date(cellValue))} />
             </span>
           );
         } catch {
           return <span>{cellValue}</span>;
         }
       }
-      return <span>{String(cellValue || '')}</span>;
+      return <span><HighlightedText text={String(cellValue || '')} /></span>;
       
     case 'custom':
       return <>{decision.content}</>;
       
     case 'text':
     case 'number':
-    default:
-      return <>{decision.content ?? (cellValue as React.ReactNode)}</>;
+    default: {
+      const content = decision.content ?? (cellValue as React.ReactNode);
+      return typeof content === 'string' || typeof content === 'number' ? <HighlightedText text={String(content)} /> : <>{content}</>;
+    }
   }
 };
 
@@ -728,13 +899,47 @@ const isNewRowSelectionFormat = (rowSelection: any): rowSelection is RowSelectio
   return rowSelection && typeof rowSelection.enabled === 'boolean' && typeof rowSelection.mode === 'string';
 };
 
-export const ReusableTable = <T extends object>({
+const ReusableTableInner = <T extends object>({
   allColumns,
-  data,
+  data: dataProp,
   viewConfig: userViewConfig,
   onUpdateData,
   rowSelection,
-}: ReusableTableProps<T>) => {
+  fetchData,
+  infiniteScroll,
+  virtualization,
+  sortConfig: sortConfigProp,
+  onSortChange,
+  filters: filtersProp,
+  onFiltersChange,
+  page,
+  pageSize,
+  onPageChange,
+  groupBy: groupByProp,
+  onGroupingChange,
+  collapsedGroups: collapsedGroupsProp,
+  onCollapsedGroupsChange,
+  columnWidths: columnWidthsProp,
+  onColumnWidthsChange,
+  reorderableColumns = false,
+  onColumnOrderChange,
+  pinnedColumns: pinnedColumnsProp,
+  onPinnedColumnsChange,
+  maxHeight,
+  columnGroups,
+  getRowId,
+  renderRowDetail,
+  isRowExpandable,
+  expandedRows: expandedRowsProp,
+  onExpandedRowsChange,
+  treeData,
+  expandedTreeRows: expandedTreeRowsProp,
+  onExpandedTreeRowsChange,
+  pinnedRows: pinnedRowsProp,
+  onPinnedRowsChange,
+  pinnableRows = false,
+  globalSearch,
+}: ReusableTableProps<T>, ref: React.ForwardedRef<ReusableTableHandle<T>>) => {
 
   // ==========================================
   // PROP VALIDATION - Fail fast with clear error messages
@@ -777,17 +982,44 @@ export const ReusableTable = <T extends object>({
         `Column header: "${col.header}". The accessor must match a key in your data object.`
       );
     }
+    if (col.minWidth !== undefined && col.maxWidth !== undefined && col.minWidth > col.maxWidth) {
+      throw new Error(
+        `[ReusableTable] Column "${col.header}" has a minWidth (${col.minWidth}) larger than its maxWidth (${col.maxWidth}). ` +
+        'Example: { header: "Name", accessor: "name", width: 200, minWidth: 120, maxWidth: 400, resizable: true }'
+      );
+    }
   });
 
-  // Validate data
-  if (!Array.isArray(data)) {
+  // Validate data (server-side and infinite tables receive their rows from a provider)
+  if (!fetchData && !infiniteScroll && !Array.isArray(dataProp)) {
     throw new Error(
       '[ReusableTable] "data" prop must be an array. ' +
-      'Received: ' + (typeof data) + '. ' +
+      'Received: ' + (typeof dataProp) + '. ' +
       'Pass an empty array [] if you have no data to display.'
     );
   }
 
+  if (fetchData && typeof fetchData !== 'function') {
+    throw new Error(
+      '[ReusableTable] "fetchData" prop must be a function returning a Promise of { rows, totalCount }. ' +
+      'Received: ' + (typeof fetchData)
+    );
+  }
+
+  if (infiniteScroll && typeof infiniteScroll.loadMore !== 'function') {
+    throw new Error(
+      '[ReusableTable] "infiniteScroll.loadMore" must be a function returning a Promise of { rows, nextCursor, hasMore }. ' +
+      'Received: ' + (typeof infiniteScroll.loadMore)
+    );
+  }
+
+  if (fetchData && infiniteScroll) {
+    throw new Error(
+      '[ReusableTable] "fetchData" and "infiniteScroll" cannot be used together. ' +
+      'Use fetchData for page-number pagination or infiniteScroll for cursor-based loading.'
+    );
+  }
+
   // Create default viewConfig if not provided
   const viewConfig = useMemo(() => {
     if (!userViewConfig) {
@@ -804,6 +1036,10 @@ export const ReusableTable = <T extends object>({
       groupBy: userViewConfig.groupBy || [],
       sortConfig: userViewConfig.sortConfig || [],
       filterConfig: userViewConfig.filterConfig || [],
+      filterExpression: userViewConfig.filterExpression,
+      pivot: userViewConfig.pivot,
+      columnWidths: userViewConfig.columnWidths,
+      pinnedColumns: userViewConfig.pinnedColumns,
     };
   }, [userViewConfig, allColumns]);
 
@@ -855,6 +1091,21 @@ export const ReusableTable = <T extends object>({
       );
     }
 
+    (userViewConfig.groupBy || []).forEach((entry, index) => {
+      if (typeof entry === 'object' && (entry === null || entry.key === undefined)) {
+        throw new Error(
+          `[ReusableTable] "viewConfig.groupBy[${index}]" must be a column accessor or an object with a "key". ` +
+          'Example: groupBy: ["category", { key: "status", sort: { by: "custom", order: ["Open", "Done"] } }]'
+        );
+      }
+      if (typeof entry === 'object' && entry.sort?.by === 'custom' && !Array.isArray(entry.sort.order)) {
+        throw new Error(
+          `[ReusableTable] "viewConfig.groupBy[${index}].sort.order" must be an array of group values. ` +
+          'Example: { by: "custom", order: ["Open", "In progress", "Done"] }'
+        );
+      }
+    });
+
     if (userViewConfig.sortConfig && !Array.isArray(userViewConfig.sortConfig)) {
       throw new Error(
         '[ReusableTable] "viewConfig.sortConfig" must be an array. ' +
@@ -870,6 +1121,31 @@ export const ReusableTable = <T extends object>({
         'Pass an empty array [] for no initial filters.'
       );
     }
+
+    if (userViewConfig.filterExpression && !isFilterGroup(userViewConfig.filterExpression)) {
+      throw new Error(
+        '[ReusableTable] "viewConfig.filterExpression" must be a filter group. ' +
+        'Example: { combinator: "or", children: [{ key: "price", operator: "lt", value: "10" }, { key: "price", operator: "gt", value: "100" }] }'
+      );
+    }
+
+    const pivot = userViewConfig.pivot;
+    if (pivot) {
+      const pivotAccessors = new Set(allColumns.map(c => c.accessor));
+      const unknownKeys = [...(pivot.rows || []), ...(pivot.columns || []), pivot.value].filter(key => !pivotAccessors.has(key));
+      if (!Array.isArray(pivot.rows) || !Array.isArray(pivot.columns) || unknownKeys.length > 0) {
+        throw new Error(
+          '[ReusableTable] "viewConfig.pivot" needs "rows" and "columns" arrays and a "value" that all refer to columns in "allColumns". ' +
+          (unknownKeys.length > 0 ? 'Unknown columns: ' + unknownKeys.map(k => `"${String(k)}"`).join(', ') + '. ' : '') +
+          'Example: { rows: ["region"], columns: ["quarter"], value: "amount", aggregate: "sum" }'
+        );
+      }
+      if (typeof pivot.aggregate !== 'function' && !(pivot.aggregate in AggregationLabels)) {
+        throw new Error(
+          `[ReusableTable] "viewConfig.pivot.aggregate" must be a function or one of ${Object.keys(AggregationLabels).map(k => `"${k}"`).join(', ')}.`
+        );
+      }
+    }
   }
 
   // Validate that all visibleColumns exist in allColumns
@@ -885,14 +1161,282 @@ export const ReusableTable = <T extends object>({
     );
   }
 
-  const displayedColumns = useMemo(() => {
+  if (treeData && !treeData.getSubRows === !treeData.parentIdAccessor) {
+    throw new Error(
+      '[ReusableTable] "treeData" needs either "getSubRows" or "parentIdAccessor", not both. ' +
+      'Example: treeData={{ getSubRows: row => row.children }} or treeData={{ parentIdAccessor: "managerId" }}.'
+    );
+  }
+
+  const unknownSearchColumns = globalSearch?.searchableColumns?.filter(key => !columnAccessors.has(key as keyof T)) ?? [];
+  if (unknownSearchColumns.length > 0) {
+    throw new Error(
+      '[ReusableTable] The following columns in "globalSearch.searchableColumns" do not exist in "allColumns": ' +
+      unknownSearchColumns.map(k => `"${k}"`).join(', ') + '. ' +
+      'Available columns: ' + Array.from(columnAccessors).map(k => `"${String(k)}"`).join(', ') + '.'
+    );
+  }
+
+  // Every column in a group must exist; getColumnGroupPaths rejects columns in several groups
+  if (columnGroups) {
+    const unknownGroupColumns = Array.from(getColumnGroupPaths(columnGroups).keys()).filter(key => !columnAccessors.has(key));
+    if (unknownGroupColumns.length > 0) {
+      throw new Error(
+        '[ReusableTable] The following columns in "columnGroups" do not exist in "allColumns": ' +
+        unknownGroupColumns.map(k => `"${String(k)}"`).join(', ') + '. ' +
+        'Group children must be column accessors or nested groups, e.g. { header: "Contact", children: ["email", "phone"] }.'
+      );
+    }
+  }
+
+  // Column order follows viewConfig.visibleColumns; header drags reorder it until the view changes
+  const [columnOrder, setColumnOrder] = useState(viewConfig.visibleColumns);
+  useEffect(() => {
+    setColumnOrder(viewConfig.visibleColumns);
+  }, [viewConfig.visibleColumns]);
+
+  const orderedVisibleColumns = useMemo(() => {
     const columnMap = new Map(allColumns.map(c => [c.accessor, c]));
-    const visibleColumnKeys = viewConfig.visibleColumns || allColumns.map(col => col.accessor);
+    const visibleColumnKeys = columnOrder || allColumns.map(col => col.accessor);
     // Map and filter in one pass - only keep columns that exist in the map
     return visibleColumnKeys
       .map(key => columnMap.get(key))
       .filter((col): col is Column<T> => col !== undefined);
-  }, [allColumns, viewConfig.visibleColumns]);
+  }, [allColumns, columnOrder]);
+
+  // Column widths follow viewConfig.columnWidths unless the columnWidths prop controls them
+  const [columnWidths, setColumnWidths, isColumnWidthsControlled] = useControllableState<ColumnWidths<T>>({
+    value: columnWidthsProp,
+    defaultValue: viewConfig.columnWidths ?? NO_COLUMN_WIDTHS,
+    onChange: onColumnWidthsChange,
+  });
+  useEffect(() => {
+    if (!isColumnWidthsControlled) setColumnWidths(viewConfig.columnWidths ?? NO_COLUMN_WIDTHS);
+  }, [viewConfig.columnWidths]);
+
+  // Pin state likewise follows viewConfig.pinnedColumns
+  const [pinnedColumns, setPinnedColumns, isPinningControlled] = useControllableState<PinnedColumns<T> | undefined>({
+    value: pinnedColumnsProp,
+    defaultValue: viewConfig.pinnedColumns,
+    onChange: onPinnedColumnsChange,
+  });
+  useEffect(() => {
+    if (!isPinningControlled) setPinnedColumns(viewConfig.pinnedColumns);
+  }, [viewConfig.pinnedColumns]);
+
+  const tableRef = useRef<HTMLTableElement>(null);
+
+  // Pinned columns are rendered at the table edges, in their visible order
+  const {
+    orderedColumns: displayedColumns,
+    getPinSide,
+    getPinnedCellProps,
+  } = usePinnedColumns<T>({
+    columns: orderedVisibleColumns,
+    pinnedColumns,
+    tableRef,
+    layoutDeps: [columnWidths],
+  });
+
+  const pinColumn = (column: Column<T>, side: ColumnPinSide | null) => {
+    const keysOn = (pinSide: ColumnPinSide) => allColumns
+      .filter(c => c.accessor !== column.accessor && getPinSide(c) === pinSide)
+      .map(c => c.accessor);
+    const next: PinnedColumns<T> = { left: keysOn('left'), right: keysOn('right') };
+    if (side) next[side] = [...next[side]!, column.accessor];
+    setPinnedColumns(next);
+  };
+
+  // Header to focus once a keyboard reorder has rendered
+  const refocusHeaderKey = useRef<keyof T | null>(null);
+  const {
+    setItems: setHeaderItems,
+    getDraggableProps: getHeaderDraggableProps,
+    draggingIndex: draggingHeaderIndex,
+    dropIndex: headerDropIndex,
+    announcement: columnOrderAnnouncement,
+  } = useDndList<Column<T>>(displayedColumns, {
+    orientation: 'horizontal',
+    onReorder: (_columns, fromIndex, toIndex) => {
+      // Grouped columns move together with their group. Pinned columns are only
+      // displayed at the edges, so the move is applied to the unpinned order.
+      const keys = orderedVisibleColumns.map(column => column.accessor);
+      const indexOf = (index: number) => keys.indexOf(displayedColumns[index].accessor);
+      const order = moveColumnWithGroup(keys, indexOf(fromIndex), indexOf(toIndex), columnGroups);
+      // A keyboard move keeps focus on the moved header, which may land in another header row
+      if (tableRef.current?.contains(document.activeElement)) refocusHeaderKey.current = displayedColumns[fromIndex].accessor;
+      setColumnOrder(order);
+      onColumnOrderChange?.(order);
+    },
+    getItemLabel: column => column.header,
+  });
+  useEffect(() => {
+    setHeaderItems(displayedColumns);
+    const key = refocusHeaderKey.current;
+    if (key === null) return;
+    refocusHeaderKey.current = null;
+    Array.from(tableRef.current?.querySelectorAll<HTMLElement>('thead th[data-column-key]') ?? [])
+      .find(cell => cell.dataset.columnKey === String(key))
+      ?.focus();
+  }, [displayedColumns]);
+
+  const headerRows = useMemo(
+    () => buildHeaderRows(displayedColumns, columnGroups, getPinSide),
+    [displayedColumns, columnGroups, getPinSide]
+  );
+
+  const getHeaderDragProps = (index: number) => {
+    if (!reorderableColumns) return {};
+    const { style, isDragging, ...dragProps } = getHeaderDraggableProps(index);
+    return { ...dragProps, tabIndex: 0, 'aria-keyshortcuts': 'Alt+ArrowLeft Alt+ArrowRight' };
+  };
+
+  // Grouping follows viewConfig.groupBy unless the groupBy prop controls it
+  const [groupBy, setGroupBy, isGroupingControlled] = useControllableState<GroupByEntry<T>[]>({
+    value: groupByProp,
+    defaultValue: viewConfig.groupBy,
+    onChange: onGroupingChange,
+  });
+  useEffect(() => {
+    if (!isGroupingControlled) setGroupBy(viewConfig.groupBy);
+  }, [viewConfig.groupBy]);
+
+  if (treeData && groupBy?.length > 0) {
+    throw new Error(
+      '[ReusableTable] Tree data can\'t be grouped. Remove "groupBy" from the view (or the groupBy prop) when using "treeData".'
+    );
+  }
+
+  // The box updates on every keystroke; the rows follow after debounceMs
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const searchDebounceMs = globalSearch?.debounceMs ?? 0;
+  useEffect(() => {
+    if (searchDebounceMs <= 0) {
+      setSearchQuery(searchTerm);
+      return;
+    }
+    const timer = setTimeout(() => setSearchQuery(searchTerm), searchDebounceMs);
+    return () => clearTimeout(timer);
+  }, [searchTerm, searchDebounceMs]);
+  const isSearchEnabled = !!globalSearch?.enabled;
+  const isQueryLanguage = isSearchEnabled && !!globalSearch?.queryLanguage;
+  // Syntax errors and field completions follow the box as it's typed in
+  const searchTermErrors = useMemo(
+    () => isQueryLanguage ? parseSearchQuery(searchTerm, allColumns).errors : [],
+    [isQueryLanguage, searchTerm, allColumns]
+  );
+  const searchSuggestions = useMemo(
+    () => isQueryLanguage ? getSearchFieldSuggestions(searchTerm, allColumns) : [],
+    [isQueryLanguage, searchTerm, allColumns]
+  );
+  const { pinnedRows, getRowPinSide, pinRow, unpinRow } = useRowPinning({
+    pinnedRows: pinnedRowsProp,
+    onPinnedRowsChange,
+  });
+
+  const {
+    paginatedItems,
+    displayItems,
+    originalItems,
+    aggregates,
+    pivotData,
+    sourceData,
+    handleSort,
+    handleFilterChange,
+    getSortDirection,
+    getSortOrder,
+    filters,
+    setFilters,
+    filterExpression,
+    clearFilters,
+    pagination,
+    toggleGroup,
+    collapsedGroups,
+    sortConfig: currentSortConfig,
+    setSortConfig,
+    isLoading,
+    error: loadError,
+    refetch,
+    hasMore,
+    loadMore,
+    treeRows,
+    allTreeRows,
+    toggleTreeRow,
+    getDescendantRows,
+    getRowId: getItemRowId,
+    getFacetRows,
+    compiledSearchQuery,
+    pinnedTopRows,
+    pinnedBottomRows,
+  } = useTable<T>({
+    data: dataProp || [],
+    allColumns,
+    initialSort: viewConfig.sortConfig || [],
+    initialFilters: viewConfig.filterConfig || [],
+    initialFilterExpression: viewConfig.filterExpression,
+    initialPageSize: 10,
+    groupByKeys: groupBy,
+    fetchData,
+    infiniteScroll,
+    searchQuery: isSearchEnabled ? searchQuery : '',
+    searchableColumns: globalSearch?.searchableColumns,
+    searchMode: globalSearch?.mode,
+    searchQueryLanguage: globalSearch?.queryLanguage,
+    rankSearchResults: globalSearch?.rankByRelevance,
+    pivot: viewConfig.pivot,
+    sortConfig: sortConfigProp,
+    onSortChange,
+    filters: filtersProp,
+    onFiltersChange,
+    page,
+    pageSize,
+    onPageChange,
+    collapsedGroups: collapsedGroupsProp,
+    onCollapsedGroupsChange,
+    treeData,
+    getRowId,
+    expandedTreeRows: expandedTreeRowsProp,
+    onExpandedTreeRowsChange,
+    pinnedRows,
+  });
+
+  const searchHighlight = useMemo(() => {
+    if (!isSearchEnabled || globalSearch?.highlightMatches === false) return null;
+    // Only free words and phrases are marked, not field terms
+    const query = isQueryLanguage ? compiledSearchQuery?.textQuery ?? '' : searchQuery;
+    return query.trim() ? { query, mode: isQueryLanguage && globalSearch?.mode !== 'fuzzy' ? 'tokens' as const : globalSearch?.mode } : null;
+  }, [isSearchEnabled, isQueryLanguage, globalSearch?.highlightMatches, globalSearch?.mode, searchQuery, compiledSearchQuery]);
+
+  // Rows pinned to the top stick right below the header, whose height depends on its filter and group rows
+  const theadRef = useRef<HTMLTableSectionElement>(null);
+  const [headerHeight, setHeaderHeight] = useState(0);
+  const hasPinnedTopRows = pinnedTopRows.length > 0;
+  useLayoutEffect(() => {
+    const thead = theadRef.current;
+    if (!thead || !hasPinnedTopRows) return;
+    const measure = () => setHeaderHeight(thead.getBoundingClientRect().height);
+    measure();
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(thead);
+    return () => observer.disconnect();
+  }, [hasPinnedTopRows]);
+
+  // Rows currently held by the table: the data prop, or the current server page. In tree
+  // mode this includes the rows nested through getSubRows, in tree order.
+  const data = treeData ? allTreeRows : sourceData;
+
+  // O(1) lookup of a row's index in data, used for editing callbacks and row keys
+  const rowIndexMap = useMemo(() => new Map(data.map((item, index) => [item, index])), [data]);
+
+  const { isRowExpanded, toggleRowExpanded, getRowDetail, reloadRowDetail } = useRowExpansion<T>({
+    renderRowDetail,
+    expandedRows: expandedRowsProp,
+    onExpandedRowsChange,
+  });
+  const hasRowDetail = !!renderRowDetail;
+  const rowDetailId = useStableId('row-detail', viewConfig?.id);
 
   // Process row selection based on format
   const processedRowSelection = useMemo(() => {
@@ -933,38 +1477,149 @@ export const ReusableTable = <T extends object>({
     return true; // Old format assumes enabled
   }, [rowSelection]);
 
-  const {
-    paginatedItems,
-    originalItems,
-    handleSort,
-    handleFilterChange,
-    getSortDirection,
-    getSortOrder,
-    filters,
-    clearFilters,
-    pagination,
-    toggleGroup,
-    collapsedGroups,
-  } = useTable<T>({
-    data,
-    allColumns,
-    initialSort: viewConfig.sortConfig || [],
-    initialFilters: viewConfig.filterConfig || [],
-    initialPageSize: 10,
-    groupByKeys: viewConfig.groupBy || [],
-  });
+  // Data columns plus the selection, expander and pin columns
+  const totalColumnCount = displayedColumns.length + (processedRowSelection ? 1 : 0) + (hasRowDetail ? 1 : 0) + (pinnableRows ? 1 : 0);
+
 
   const [exportLocale, setExportLocale] = useState('default');
+  const [exportSubtotals, setExportSubtotals] = useState(false);
   const [editingCell, setEditingCell] = useState<{ rowIndex: number; columnId: keyof T } | null>(null);
   const [editValue, setEditValue] = useState<any>('');
   const [showFilters, setShowFilters] = useState(true);
   const showFiltersToggleId = useStableId('show-filters-toggle', viewConfig?.id);
 
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+
+  const { getColumnWidth, getResizeHandleProps, resizingKey } = useColumnResize<T>({
+    columns: displayedColumns,
+    widths: columnWidths,
+    onWidthsChange: setColumnWidths,
+    tableRef,
+  });
+  // Any width switches the table to fixed layout, so widths are applied exactly and long content is truncated
+  const hasColumnWidths = displayedColumns.some(column => getColumnWidth(column) !== undefined);
+
+  const isVirtualized = !!virtualization?.enabled;
+  // Rows that make up the table body: the current page, or every row when windowing
+  const bodyItems = isVirtualized ? displayItems : paginatedItems;
+  const bodyDataItems = useMemo(
+    () => bodyItems.filter(item => !('isGroupHeader' in item)) as T[],
+    [bodyItems]
+  );
+
+  const rowHeight = virtualization?.rowHeight ?? 53;
+  const groupHeaderHeight = virtualization?.groupHeaderHeight ?? 41;
+  const estimateRowSize = useCallback(
+    (index: number) => ('isGroupHeader' in bodyItems[index] ? groupHeaderHeight : rowHeight),
+    [bodyItems, groupHeaderHeight, rowHeight]
+  );
+  const getRowKey = useCallback((index: number) => {
+    const row = bodyItems[index];
+    return 'isGroupHeader' in row ? (row as GroupHeaderRow<T>).path : row;
+  }, [bodyItems]);
+
+  const {
+    virtualRows,
+    paddingTop: virtualPaddingTop,
+    paddingBottom: virtualPaddingBottom,
+    handleScroll: handleVirtualScroll,
+    measureElement,
+    getOffsetForIndex,
+  } = useVirtualRows({
+    enabled: isVirtualized,
+    count: bodyItems.length,
+    viewportHeight: virtualization?.height ?? 600,
+    estimateSize: estimateRowSize,
+    getItemKey: getRowKey,
+    overscan: virtualization?.overscan ?? 5,
+    measure: !!virtualization?.measureRows,
+  });
+
+  const infiniteThreshold = infiniteScroll?.threshold ?? 200;
+
+  // Virtualized and infinite tables scroll inside a fixed-height viewport
+  const hasScrollViewport = isVirtualized || !!infiniteScroll;
+
+  const handleContainerScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    if (isVirtualized) handleVirtualScroll(event);
+    if (infiniteScroll) loadMoreIfNearBottom();
+  };
+
+  const loadMoreIfNearBottom = useCallback(() => {
+    const container = scrollContainerRef.current;
+    if (!infiniteScroll || !container || !hasMore || isLoading || loadError) return;
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    if (distanceFromBottom <= infiniteThreshold) {
+      loadMore();
+    }
+  }, [infiniteScroll, hasMore, isLoading, loadError, infiniteThreshold, loadMore]);
+
+  // Keep loading while the loaded rows don't fill the scroll container yet
+  useEffect(() => {
+    loadMoreIfNearBottom();
+  }, [paginatedItems.length, loadMoreIfNearBottom]);
+
+  // Row to bring into view once the page showing it has rendered
+  const [scrollTarget, setScrollTarget] = useState<{ row: T } | null>(null);
+
+  useEffect(() => {
+    if (!scrollTarget) return;
+    const rowIndex = rowIndexMap.get(scrollTarget.row);
+    const element = scrollContainerRef.current?.querySelector(`tr[data-row-index="${rowIndex}"]`);
+    element?.scrollIntoView?.({ block: 'nearest' });
+  }, [scrollTarget]);
+
+  const scrollToRow = (target: T | number): boolean => {
+    const row = typeof target === 'number' ? data[target] : target;
+    const displayIndex = row === undefined ? -1 : displayItems.indexOf(row);
+    if (displayIndex === -1) return false;
+    if (isVirtualized) {
+      // Rows outside the window aren't mounted, so move the viewport to the row's offset instead
+      if (scrollContainerRef.current) scrollContainerRef.current.scrollTop = getOffsetForIndex(displayIndex);
+      return true;
+    }
+    // Client-side pages slice displayItems; server pages and infinite lists show every row they hold
+    if (!hasScrollViewport && !fetchData) {
+      pagination.setCurrentPage(Math.floor(displayIndex / pagination.pageSize) + 1);
+    }
+    setScrollTarget({ row });
+    return true;
+  };
+
+  useImperativeHandle(ref, () => ({
+    resetFilters: clearFilters,
+    setSort: setSortConfig,
+    setGrouping: setGroupBy,
+    scrollToRow,
+    toggleRowExpanded,
+    toggleTreeRow,
+    pinRow,
+    unpinRow,
+    getState: () => ({
+      sortConfig: currentSortConfig,
+      filters,
+      filterExpression,
+      page: pagination.currentPage,
+      pageSize: pagination.pageSize,
+      groupBy,
+      collapsedGroups: Array.from(collapsedGroups),
+      columnWidths,
+      pinnedColumns,
+    }),
+  }));
+
+  const aggregateDisplayColumns = displayedColumns.filter(column => column.aggregate);
+
   const handleExport = () => {
-    downloadCSV(originalItems, displayedColumns, exportLocale, 'table-export.csv');
+    downloadCSV(originalItems, displayedColumns, exportLocale, 'table-export.csv', {
+      groupBy: normalizeGroupBy(groupBy),
+      allColumns,
+      includeSubtotals: exportSubtotals,
+    });
   };
   
   const getFilterForKey = (key: keyof T) => filters.find(f => f.key === key);
+  const activeFilterCount = filters.length + countFilterConditions(filterExpression);
 
   const getAlignmentClass = (column: Column<T>): string => {
     if (column.align) return `text-${column.align}`;
@@ -974,7 +1629,7 @@ export const ReusableTable = <T extends object>({
 
   const handleCellDoubleClick = (item: T, column: Column<T>) => {
     if (column.editable && onUpdateData) {
-      const originalRowIndex = data.findIndex(d => d === item);
+      const originalRowIndex = rowIndexMap.get(item) ?? -1;
       if(originalRowIndex === -1) return;
 
       setEditingCell({ rowIndex: originalRowIndex, columnId: column.accessor });
@@ -1013,10 +1668,8 @@ export const ReusableTable = <T extends object>({
 
   const handleToggleAll = (column: Column<T>, isChecked: boolean) => {
     if (onUpdateData) {
-      paginatedItems.forEach(row => {
-        if ('isGroupHeader' in row) return;
-        const item = row as T;
-        const originalRowIndex = data.findIndex(d => d === item);
+      bodyDataItems.forEach(item => {
+        const originalRowIndex = rowIndexMap.get(item) ?? -1;
         if (originalRowIndex !== -1) {
           onUpdateData(originalRowIndex, column.accessor, isChecked);
         }
@@ -1024,11 +1677,258 @@ export const ReusableTable = <T extends object>({
     }
   };
 
+  const renderColumnHeader = (column: Column<T>, index: number, rowSpan = 1) => {
+    const isCheckAllColumn = column.cellType === 'checkbox' && onUpdateData;
+    const visibleItems = isCheckAllColumn ? bodyDataItems.map(item => !!item[column.accessor]) : [];
+    const isAllChecked = visibleItems.length > 0 && visibleItems.every(Boolean);
+    const isIndeterminate = visibleItems.some(Boolean) && !isAllChecked;
+    const width = getColumnWidth(column);
+    const isDropTarget = draggingHeaderIndex !== null && headerDropIndex === index && draggingHeaderIndex !== index;
+    const pinnedCell = getPinnedCellProps(column);
+    const sortIndicator = column.sortable && (<SortIndicator direction={getSortDirection(column.accessor)} sortOrder={getSortOrder(column.accessor)} />);
+
+    return (
+      <th key={String(column.accessor)} scope="col" rowSpan={rowSpan > 1 ? rowSpan : undefined} data-column-key={String(column.accessor)} style={{ ...pinnedCell.style, width }} {...getHeaderDragProps(index)} className={`relative px-6 py-3 ${getAlignmentClass(column)} ${pinnedCell.style ? `bg-gray-800 ${pinnedCell.className}` : ''} text-xs font-medium text-gray-300 uppercase tracking-wider ${hasColumnWidths ? 'overflow-hidden' : ''} ${column.sortable ? 'cursor-pointer hover:bg-gray-700/50 transition-colors' : ''} ${reorderableColumns ? 'cursor-grab focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-indigo-500' : ''} ${draggingHeaderIndex === index ? 'opacity-50' : ''}`} onClick={(e) => column.sortable && handleSort(column.accessor, e.shiftKey)} aria-sort={column.sortable ? (getSortDirection(column.accessor) || 'none') : undefined}>
+        {isDropTarget && (
+          <span data-testid="column-drop-indicator" aria-hidden="true" className={`absolute inset-y-0 w-0.5 bg-indigo-500 ${headerDropIndex! > draggingHeaderIndex! ? 'right-0' : 'left-0'}`} />
+        )}
+        <div className="flex items-center justify-between gap-2" data-resize-content>
+          {isCheckAllColumn ? (
+            <div className="flex items-center">
+              <input type="checkbox" ref={el => { if (el) { el.indeterminate = isIndeterminate; } }} checked={isAllChecked} onChange={e => handleToggleAll(column, e.target.checked)} className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-indigo-600 focus:ring-indigo-500" />
+              <span className="ml-2">{column.header}</span>
+            </div>
+          ) : (
+            column.header
+          )}
+          {column.pinnable ? (
+            <div className="flex items-center gap-1">
+              {sortIndicator}
+              <ColumnMenu<T> column={column} pinned={getPinSide(column)} onPinChange={side => pinColumn(column, side)} />
+            </div>
+          ) : sortIndicator}
+        </div>
+        {column.resizable && (
+          <div
+            {...getResizeHandleProps(column)}
+            className={`absolute top-0 right-0 h-full w-1.5 cursor-col-resize select-none touch-none hover:bg-indigo-500 focus:bg-indigo-500 focus:outline-none ${resizingKey === column.accessor ? 'bg-indigo-500' : ''}`}
+          />
+        )}
+      </th>
+    );
+  };
+
+  // Group cells take the sticky position of their first (left) or last (right) pinned column
+  const renderGroupHeader = (group: ColumnGroup<T>, columns: Column<T>[], colSpan: number) => {
+    const side = getPinSide(columns[0]);
+    const pinnedCell = getPinnedCellProps(side === 'right' ? columns[columns.length - 1] : columns[0]);
+    return (
+      <th
+        key={`${group.header}-${String(columns[0].accessor)}`}
+        scope="colgroup"
+        colSpan={colSpan}
+        data-column-group={group.header}
+        style={pinnedCell.style}
+        className={`px-6 py-2 text-center text-xs font-semibold text-gray-200 uppercase tracking-wider border-b border-gray-700 ${pinnedCell.style ? `bg-gray-800 ${pinnedCell.className}` : ''}`}
+      >
+        {group.header}
+      </th>
+    );
+  };
+
+  // Marked with data-row-detail, so virtualized rows measure it as part of the row above
+  const renderRowDetailPanel = (item: T, detailId: string) => {
+    const detail = getRowDetail(item);
+    return (
+      <tr id={detailId} data-row-detail className="bg-gray-800/40">
+        <td colSpan={totalColumnCount} className="px-6 py-4 text-sm text-gray-300">
+          {detail.status === 'loading' ? (
+            <span role="status" className="text-gray-400">Loading details...</span>
+          ) : detail.status === 'error' ? (
+            <span role="alert" className="text-red-300">
+              Failed to load details: {detail.error.message}
+              <button onClick={() => reloadRowDetail(item)} className="ml-3 px-3 py-1 text-sm font-medium rounded-md text-indigo-300 bg-indigo-500/20 hover:bg-indigo-500/30 transition-colors">
+                Retry
+              </button>
+            </span>
+          ) : (
+            detail.content
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  // With treeData.cascadeSelection a row's descendants follow its new selection state
+  const handleSelectRow = (item: T) => {
+    if (!processedRowSelection) return;
+    if (!treeData?.cascadeSelection) {
+      processedRowSelection.selectRow(item);
+      return;
+    }
+    const select = !processedRowSelection.selectedRows.has(item);
+    [item, ...getDescendantRows(item)]
+      .filter(row => processedRowSelection.selectedRows.has(row) !== select)
+      .forEach(row => processedRowSelection.selectRow(row));
+  };
+
+  const renderRow = (row: DisplayRow<T>, rowRef?: (element: HTMLTableRowElement | null) => void) => {
+    if ('isGroupHeader' in row) {
+      const groupHeader = row as GroupHeaderRow<T>;
+      const isCollapsed = collapsedGroups.has(groupHeader.path);
+      const column = allColumns.find(c => c.accessor === groupHeader.groupKey);
+
+      return (
+        <tr key={groupHeader.path} ref={rowRef} className="bg-gray-800/70 hover:bg-gray-800 transition-colors">
+          {processedRowSelection && <td className="px-6 py-4 sticky left-0 z-10 bg-gray-800"></td>}
+          <td colSpan={displayedColumns.length + (hasRowDetail ? 1 : 0) + (pinnableRows ? 1 : 0)} className="px-4 py-2 font-medium text-indigo-300" style={{ paddingLeft: `${groupHeader.level * 1.5 + 1}rem` }}>
+            <button onClick={() => toggleGroup(groupHeader.path)} className="w-full text-left flex items-center space-x-2 focus:outline-none">
+              <svg className={`w-5 h-5 transform transition-transform ${isCollapsed ? '-rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+              <span>
+                <span className="font-normal text-gray-400">{column?.header || String(groupHeader.groupKey)}:</span>{' '}
+                {groupHeader.isBlank ? <span className="italic text-gray-400">{groupHeader.groupValue}</span> : String(groupHeader.groupValue)}
+              </span>
+              <span className="text-xs font-normal bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">{groupHeader.count}</span>
+              {groupHeader.aggregates && aggregateDisplayColumns.map(aggregateColumn => (
+                <span key={String(aggregateColumn.accessor)} className="text-xs font-normal text-gray-400">
+                  {aggregateColumn.header}{getAggregationLabel(aggregateColumn) && ` (${getAggregationLabel(aggregateColumn).toLowerCase()})`}:{' '}
+                  <span className="text-gray-200">{formatAggregateValue(groupHeader.aggregates?.[aggregateColumn.accessor], aggregateColumn)}</span>
+                </span>
+              ))}
+            </button>
+          </td>
+        </tr>
+      );
+    }
+
+    const item = row as T;
+    const originalRowIndex = rowIndexMap.get(item) ?? -1;
+    const rowId = getItemRowId(item);
+    const isExpandable = hasRowDetail && (isRowExpandable?.(item) ?? true);
+    const isExpanded = isExpandable && isRowExpanded(rowId);
+    const detailId = `${rowDetailId}-${rowId}`;
+    const treeRow = treeRows.get(item);
+    const descendants = treeData?.cascadeSelection && processedRowSelection ? getDescendantRows(item) : [];
+    const selectedDescendants = descendants.filter(descendant => processedRowSelection?.selectedRows.has(descendant)).length;
+    const pinSide = getRowPinSide(rowId);
+    return (
+      <React.Fragment key={originalRowIndex}>
+        <tr ref={rowRef} data-row-index={originalRowIndex} data-pinned-row={pinSide} className={`hover:bg-gray-800/60 transition-colors ${pinSide ? 'bg-gray-900' : ''}`}>
+          {processedRowSelection && (
+            <td className="px-6 py-4 whitespace-nowrap sticky left-0 z-10 bg-gray-900">
+              <input
+                type="checkbox"
+                checked={processedRowSelection.selectedRows.has(item)}
+                ref={el => { if (el) { el.indeterminate = selectedDescendants > 0 && selectedDescendants < descendants.length; } }}
+                onChange={() => handleSelectRow(item)}
+                className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-indigo-600 focus:ring-indigo-500"
+              />
+            </td>
+          )}
+          {hasRowDetail && (
+            <td className="px-2 py-4 whitespace-nowrap">
+              {isExpandable && (
+                <button
+                  type="button"
+                  onClick={() => toggleRowExpanded(rowId)}
+                  aria-expanded={isExpanded}
+                  aria-controls={isExpanded ? detailId : undefined}
+                  aria-label={isExpanded ? 'Collapse row details' : 'Expand row details'}
+                  className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
+                >
+                  <ChevronRightIcon className={`w-4 h-4 transform transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                </button>
+              )}
+            </td>
+          )}
+          {pinnableRows && (
+            <td className="px-2 py-4 whitespace-nowrap">
+              <button
+                type="button"
+                onClick={() => pinSide ? unpinRow(rowId) : pinRow(rowId)}
+                aria-pressed={!!pinSide}
+                aria-label={pinSide ? 'Unpin row' : 'Pin row to top'}
+                className={`p-1 rounded hover:text-white hover:bg-gray-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 ${pinSide ? 'text-indigo-400' : 'text-gray-500'}`}
+              >
+                <PinIcon />
+              </button>
+            </td>
+          )}
+          {displayedColumns.map((column, colIndex) => {
+            const isEditing = editingCell?.rowIndex === originalRowIndex && editingCell?.columnId === column.accessor;
+            const cellValue = item[column.accessor];
+
+            // Create render context
+            const renderContext: CellRenderContext<T> = {
+              value: cellValue,
+              row: item,
+              rowIndex: originalRowIndex,
+              column,
+              isEditing
+            };
+
+            const pinnedCell = getPinnedCellProps(column);
+            const cell = (
+              <DynamicCell<T>
+                context={renderContext}
+                isEditing={isEditing}
+                editValue={editValue}
+                onEditChange={handleEditChange}
+                onEditKeyDown={handleEditKeyDown}
+                onEditBlur={saveEdit}
+                onUpdateData={onUpdateData}
+                originalRowIndex={originalRowIndex}
+              />
+            );
+
+            return (
+              <td key={colIndex} data-column-key={String(column.accessor)} style={pinnedCell.style} className={`px-6 py-4 whitespace-nowrap text-sm text-gray-300 ${getAlignmentClass(column)} ${hasColumnWidths ? 'overflow-hidden text-ellipsis' : ''} ${pinnedCell.style ? `bg-gray-900 ${pinnedCell.className}` : ''}`} onDoubleClick={() => handleCellDoubleClick(item, column)}>
+                {treeRow && colIndex === 0 ? (
+                  // Tree rows are indented by depth in their first column, with a toggle for their child rows
+                  <div className="flex items-center gap-1" style={{ paddingLeft: `${treeRow.depth * 1.5}rem` }}>
+                    {treeRow.subRowCount > 0 ? (
+                      <button
+                        type="button"
+                        onClick={() => toggleTreeRow(treeRow.id)}
+                        aria-expanded={treeRow.isExpanded}
+                        aria-label={treeRow.isExpanded ? 'Collapse child rows' : 'Expand child rows'}
+                        className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
+                      >
+                        <ChevronRightIcon className={`w-4 h-4 transform transition-transform ${treeRow.isExpanded ? 'rotate-90' : ''}`} />
+                      </button>
+                    ) : (
+                      <span className="w-6 shrink-0" aria-hidden="true" />
+                    )}
+                    {cell}
+                  </div>
+                ) : cell}
+              </td>
+            );
+          })}
+        </tr>
+        {isExpanded && renderRowDetailPanel(item, detailId)}
+      </React.Fragment>
+    );
+  };
+
   return (
     <div>
       <div className="flex flex-wrap items-center justify-between mb-4 gap-4">
         {/* Left-side controls */}
         <div className="flex items-center gap-4">
+            {isSearchEnabled && (
+                <GlobalSearch
+                    searchTerm={searchTerm}
+                    onSearchChange={setSearchTerm}
+                    placeholder={globalSearch?.placeholder}
+                    showResultsCount
+                    resultsCount={fetchData ? pagination.totalItems : originalItems.length}
+                    suggestions={searchSuggestions}
+                    onSuggestionSelect={isQueryLanguage ? value => setSearchTerm(term => applySearchFieldSuggestion(term, value)) : undefined}
+                    error={searchTermErrors[0]?.message}
+                    className="w-64"
+                />
+            )}
             <label htmlFor={showFiltersToggleId} className="flex items-center cursor-pointer text-sm text-gray-300 group">
                 <span className="mr-2 group-hover:text-white transition-colors">Show Filters</span>
                 <div className="relative">
@@ -1043,9 +1943,9 @@ export const ReusableTable = <T extends object>({
                 <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${showFilters ? 'translate-x-4' : ''}`}></div>
                 </div>
             </label>
-            {filters.length > 0 && (
+            {activeFilterCount > 0 && (
                 <button onClick={clearFilters} className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-red-300 bg-red-500/20 hover:bg-red-500/30 transition-colors">
-                Clear Filters ({filters.length})
+                Clear Filters ({activeFilterCount})
                 </button>
             )}
         </div>
@@ -1064,137 +1964,187 @@ export const ReusableTable = <T extends object>({
               <option value="en-US" className="bg-gray-800">US (1,234.56)</option>
             </select>
           </div>
+          {aggregateDisplayColumns.length > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={exportSubtotals}
+                onChange={e => setExportSubtotals(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-indigo-600 focus:ring-indigo-500"
+              />
+              Include subtotals
+            </label>
+          )}
         </div>
       </div>
 
-      <div className="overflow-x-auto">
-        <table className="min-w-full divide-y divide-gray-700">
-          <thead className="bg-gray-800">
-            <tr>
-              {processedRowSelection && (
-                <th scope="col" className="px-6 py-3 text-left">
-                  <input
-                    type="checkbox"
-                    checked={processedRowSelection.isAllSelected}
-                    ref={el => { if (el) { el.indeterminate = processedRowSelection.isIndeterminate; } }}
-                    onChange={processedRowSelection.selectAll}
-                    className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-indigo-600 focus:ring-indigo-500"
-                  />
-                </th>
-              )}
-              {displayedColumns.map((column, index) => {
-                const dataItems = paginatedItems.filter(item => !('isGroupHeader' in item)) as T[];
-                const isCheckAllColumn = column.cellType === 'checkbox' && onUpdateData;
-                const visibleItems = dataItems.map(item => !!item[column.accessor]);
-                const isAllChecked = visibleItems.length > 0 && visibleItems.every(Boolean);
-                const isIndeterminate = visibleItems.some(Boolean) && !isAllChecked;
-
-                return (
-                  <th key={index} scope="col" className={`px-6 py-3 ${getAlignmentClass(column)} text-xs font-medium text-gray-300 uppercase tracking-wider ${column.sortable ? 'cursor-pointer hover:bg-gray-700/50 transition-colors' : ''}`} onClick={(e) => column.sortable && handleSort(column.accessor, e.shiftKey)} aria-sort={column.sortable ? (getSortDirection(column.accessor) || 'none') : undefined}>
-                    <div className="flex items-center justify-between">
-                      {isCheckAllColumn ? (
-                        <div className="flex items-center">
-                          <input type="checkbox" ref={el => { if (el) { el.indeterminate = isIndeterminate; } }} checked={isAllChecked} onChange={e => handleToggleAll(column, e.target.checked)} className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-indigo-600 focus:ring-indigo-500" />
-                          <span className="ml-2">{column.header}</span>
-                        </div>
-                      ) : (
-                        column.header
-                      )}
-                      {column.sortable && (<SortIndicator direction={getSortDirection(column.accessor)} sortOrder={getSortOrder(column.accessor)} />)}
-                    </div>
-                  </th>
-                );
-              })}
-            </tr>
-            {showFilters && (
-              <tr>
-                {processedRowSelection && (
-                  <th className="px-2 py-2"></th>
-                )}
-                {displayedColumns.map((column, index) => (
-                  <th key={index} className="px-2 py-2 text-left align-top">
-                    {column.filterable && (<FilterControl<T> column={column} filter={getFilterForKey(column.accessor)} onFilterChange={handleFilterChange} />)}
-                  </th>
+      {pivotData ? (
+        // Pivot mode replaces the row table with a cross-tab of the filtered rows
+        <div className="overflow-x-auto">
+          <PivotTable<T> pivot={pivotData} allColumns={allColumns} />
+        </div>
+      ) : (
+        <>
+        <div
+          ref={scrollContainerRef}
+          className={hasScrollViewport || maxHeight !== undefined ? 'overflow-auto' : 'overflow-x-auto'}
+          style={hasScrollViewport ? { maxHeight: isVirtualized ? virtualization?.height ?? 600 : infiniteScroll?.height ?? 600 } : maxHeight !== undefined ? { maxHeight } : undefined}
+          onScroll={hasScrollViewport ? handleContainerScroll : undefined}
+        >
+          {reorderableColumns && <div className="sr-only" aria-live="polite">{columnOrderAnnouncement}</div>}
+          {/* Cells mark the text matching the global search */}
+          <SearchHighlightContext.Provider value={searchHighlight}>
+            <table ref={tableRef} className={`min-w-full divide-y divide-gray-700 ${hasColumnWidths ? 'w-full' : ''}`} style={hasColumnWidths ? { tableLayout: 'fixed' } : undefined}>
+              <thead ref={theadRef} className="bg-gray-800 sticky top-0 z-20">
+                <tr>
+                  {processedRowSelection && (
+                    <th scope="col" rowSpan={headerRows.length > 1 ? headerRows.length : undefined} data-selection-column className="px-6 py-3 text-left sticky left-0 z-10 bg-gray-800" style={hasColumnWidths ? { width: 64 } : undefined}>
+                      <input
+                        type="checkbox"
+                        checked={processedRowSelection.isAllSelected}
+                        ref={el => { if (el) { el.indeterminate = processedRowSelection.isIndeterminate; } }}
+                        onChange={processedRowSelection.selectAll}
+                        className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-indigo-600 focus:ring-indigo-500"
+                      />
+                    </th>
+                  )}
+                  {hasRowDetail && (
+                    <th scope="col" rowSpan={headerRows.length > 1 ? headerRows.length : undefined} data-expander-column className="px-2 py-3" style={hasColumnWidths ? { width: 48 } : undefined}>
+                      <span className="sr-only">Row details</span>
+                    </th>
+                  )}
+                  {pinnableRows && (
+                    <th scope="col" rowSpan={headerRows.length > 1 ? headerRows.length : undefined} data-pin-column className="px-2 py-3" style={hasColumnWidths ? { width: 48 } : undefined}>
+                      <span className="sr-only">Pin row</span>
+                    </th>
+                  )}
+                  {headerRows[0].map(cell => cell.kind === 'group'
+                    ? renderGroupHeader(cell.group, cell.columns, cell.colSpan)
+                    : renderColumnHeader(cell.column, cell.index, cell.rowSpan))}
+                </tr>
+                {headerRows.slice(1).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map(cell => cell.kind === 'group'
+                      ? renderGroupHeader(cell.group, cell.columns, cell.colSpan)
+                      : renderColumnHeader(cell.column, cell.index, cell.rowSpan))}
+                  </tr>
                 ))}
-              </tr>
-            )}
-          </thead>
-          <tbody className="bg-gray-900 divide-y divide-gray-800">
-            {paginatedItems.length > 0 ? (
-              paginatedItems.map((row: DisplayRow<T>) => {
-                if ('isGroupHeader' in row) {
-                    const groupHeader = row as GroupHeaderRow<T>;
-                    const isCollapsed = collapsedGroups.has(groupHeader.path);
-                    const column = allColumns.find(c => c.accessor === groupHeader.groupKey);
-
-                    return (
-                        <tr key={groupHeader.path} className="bg-gray-800/70 hover:bg-gray-800 transition-colors">
-                            {rowSelection && <td className="px-6 py-4"></td>}
-                            <td colSpan={displayedColumns.length} className="px-4 py-2 font-medium text-indigo-300" style={{ paddingLeft: `${groupHeader.level * 1.5 + 1}rem` }}>
-                                <button onClick={() => toggleGroup(groupHeader.path)} className="w-full text-left flex items-center space-x-2 focus:outline-none">
-                                    <svg className={`w-5 h-5 transform transition-transform ${isCollapsed ? '-rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
-                                    <span>
-                                      <span className="font-normal text-gray-400">{column?.header || String(groupHeader.groupKey)}:</span> {String(groupHeader.groupValue)}
-                                    </span>
-                                    <span className="text-xs font-normal bg-gray-700 text-gray-300 px-2 py-0.5 rounded-full">{groupHeader.count}</span>
-                                </button>
-                            </td>
-                        </tr>
-                    );
-                }
-                
-                const item = row as T;
-                const originalRowIndex = data.findIndex(d => d === item);
-                return (
-                  <tr key={originalRowIndex} className="hover:bg-gray-800/60 transition-colors">
+                {showFilters && (
+                  <tr>
                     {processedRowSelection && (
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <input
-                          type="checkbox"
-                          checked={processedRowSelection.selectedRows.has(item)}
-                          onChange={() => processedRowSelection.selectRow(item)}
-                          className="h-4 w-4 rounded border-gray-500 bg-gray-700 text-indigo-600 focus:ring-indigo-500"
-                        />
-                      </td>
+                      <th className="px-2 py-2 sticky left-0 z-10 bg-gray-800"></th>
                     )}
-                    {displayedColumns.map((column, colIndex) => {
-                      const isEditing = editingCell?.rowIndex === originalRowIndex && editingCell?.columnId === column.accessor;
-                      const cellValue = item[column.accessor];
-
-                      // Create render context
-                      const renderContext: CellRenderContext<T> = {
-                        value: cellValue,
-                        row: item,
-                        rowIndex: originalRowIndex,
-                        column,
-                        isEditing
-                      };
-
+                    {hasRowDetail && <th className="px-2 py-2"></th>}
+                    {pinnableRows && <th className="px-2 py-2"></th>}
+                    {displayedColumns.map((column, index) => {
+                      const pinnedCell = getPinnedCellProps(column);
                       return (
-                        <td key={colIndex} className={`px-6 py-4 whitespace-nowrap text-sm text-gray-300 ${getAlignmentClass(column)}`} onDoubleClick={() => handleCellDoubleClick(item, column)}>
-                          <DynamicCell<T>
-                            context={renderContext}
-                            isEditing={isEditing}
-                            editValue={editValue}
-                            onEditChange={handleEditChange}
-                            onEditKeyDown={handleEditKeyDown}
-                            onEditBlur={saveEdit}
-                            onUpdateData={onUpdateData}
-                            originalRowIndex={originalRowIndex}
-                          />
-                        </td>
+                        <th key={index} style={pinnedCell.style} className={`px-2 py-2 text-left align-top ${pinnedCell.style ? `bg-gray-800 ${pinnedCell.className}` : ''}`}>
+                          {column.filterable && (<FilterControl<T> column={column} filter={getFilterForKey(column.accessor)} onFilterChange={handleFilterChange} getFacetRows={() => getFacetRows(column.accessor)} />)}
+                        </th>
                       );
                     })}
                   </tr>
-                );
-              })
-            ) : (
-              <tr><td colSpan={displayedColumns.length} className="text-center px-6 py-10 text-gray-500">No data matches your criteria.</td></tr>
-            )}
-          </tbody>
-        </table>
-      </div>
-      <Pagination pagination={pagination} />
+                )}
+              </thead>
+              {/* Pinned rows get their own sticky bands below the header and above the totals */}
+              {pinnedTopRows.length > 0 && (
+                <tbody data-pinned-rows="top" className="bg-gray-900 sticky z-10 divide-y divide-gray-800 border-b border-gray-600" style={{ top: headerHeight }}>
+                  {pinnedTopRows.map(row => renderRow(row))}
+                </tbody>
+              )}
+              <tbody className={`bg-gray-900 divide-y divide-gray-800 ${isLoading && paginatedItems.length > 0 ? 'opacity-60' : ''}`} aria-busy={isLoading || undefined}>
+                {loadError && !(infiniteScroll && paginatedItems.length > 0) ? (
+                  <tr>
+                    <td colSpan={totalColumnCount} className="text-center px-6 py-10 text-red-300" role="alert">
+                      <span>Failed to load data: {loadError.message}</span>
+                      <button onClick={refetch} className="ml-3 px-3 py-1 text-sm font-medium rounded-md text-indigo-300 bg-indigo-500/20 hover:bg-indigo-500/30 transition-colors">
+                        Retry
+                      </button>
+                    </td>
+                  </tr>
+                ) : isLoading && paginatedItems.length === 0 ? (
+                  <tr>
+                    <td colSpan={totalColumnCount} className="text-center px-6 py-10 text-gray-400" role="status">
+                      Loading...
+                    </td>
+                  </tr>
+                ) : paginatedItems.length > 0 ? (
+                  isVirtualized ? (
+                    <>
+                      {virtualPaddingTop > 0 && <tr aria-hidden="true" style={{ height: virtualPaddingTop }} />}
+                      {virtualRows.map(virtualRow => renderRow(bodyItems[virtualRow.index], measureElement(virtualRow.index)))}
+                      {virtualPaddingBottom > 0 && <tr aria-hidden="true" style={{ height: virtualPaddingBottom }} />}
+                    </>
+                  ) : (
+                    paginatedItems.map(row => renderRow(row))
+                  )
+                ) : (
+                  <tr><td colSpan={totalColumnCount} className="text-center px-6 py-10 text-gray-500">No data matches your criteria.</td></tr>
+                )}
+                {infiniteScroll && paginatedItems.length > 0 && (
+                  <tr>
+                    <td colSpan={totalColumnCount} className="text-center px-6 py-3 text-sm text-gray-400">
+                      {loadError ? (
+                        <span role="alert" className="text-red-300">
+                          Failed to load more rows: {loadError.message}
+                          <button onClick={refetch} className="ml-3 px-3 py-1 text-sm font-medium rounded-md text-indigo-300 bg-indigo-500/20 hover:bg-indigo-500/30 transition-colors">
+                            Retry
+                          </button>
+                        </span>
+                      ) : isLoading ? (
+                        <span role="status">Loading more...</span>
+                      ) : hasMore ? (
+                        <button onClick={loadMore} className="text-indigo-300 hover:text-indigo-200 transition-colors">
+                          Load more
+                        </button>
+                      ) : (
+                        <span>All {data.length} rows loaded</span>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+              {(aggregateDisplayColumns.length > 0 || pinnedBottomRows.length > 0) && (
+                <tfoot className="bg-gray-800 sticky bottom-0 z-10 border-t border-gray-600">
+                  {pinnedBottomRows.map(row => renderRow(row))}
+                  {aggregateDisplayColumns.length > 0 && (
+                    <tr>
+                      {processedRowSelection && <td className="px-6 py-3 sticky left-0 z-10 bg-gray-800"></td>}
+                      {hasRowDetail && <td className="px-2 py-3"></td>}
+                      {pinnableRows && <td className="px-2 py-3"></td>}
+                      {displayedColumns.map((column, index) => {
+                        const pinnedCell = getPinnedCellProps(column);
+                        return (
+                          <td key={index} style={pinnedCell.style} className={`px-6 py-3 whitespace-nowrap text-sm font-semibold text-gray-200 ${getAlignmentClass(column)} ${pinnedCell.style ? `bg-gray-800 ${pinnedCell.className}` : ''}`}>
+                            {column.aggregate ? (
+                              <>
+                                {getAggregationLabel(column) && (
+                                  <span className="block text-[10px] font-medium uppercase tracking-wider text-gray-400">{getAggregationLabel(column)}</span>
+                                )}
+                                {formatAggregateValue(aggregates[column.accessor], column)}
+                              </>
+                            ) : index === 0 ? (
+                              <span className="text-xs font-medium uppercase tracking-wider text-gray-400">Total</span>
+                            ) : null}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  )}
+                </tfoot>
+              )}
+            </table>
+          </SearchHighlightContext.Provider>
+        </div>
+        {!hasScrollViewport && <Pagination pagination={pagination} />}
+        </>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+// forwardRef drops the row type parameter, so the result is cast back to a generic component
+export const ReusableTable = forwardRef(ReusableTableInner) as <T extends object>(
+  props: ReusableTableProps<T> & { ref?: React.Ref<ReusableTableHandle<T>> }
+) => ReturnType<typeof ReusableTableInner>;
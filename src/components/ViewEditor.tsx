@@ -1,12 +1,33 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import type { Column, ViewConfiguration, SortConfig, FilterConfig, FilterOperator, StringFilterOperator, NumberFilterOperator, DateFilterOperator } from '../types';
+import type { Column, ColumnGroup, ViewConfiguration, SortConfig, FilterConfig, FilterGroup, FilterOperator, PivotConfig, GroupByLevel, GroupSort, SortDirection, StringFilterOperator, NumberFilterOperator, DateFilterOperator } from '../types';
 import { useDndList } from '../hooks/useDndList';
 import { SortIcon } from './icons/SortIcon';
 import { SortUpIcon } from './icons/SortUpIcon';
 import { SortDownIcon } from './icons/SortDownIcon';
 import { FilterIcon } from './icons/FilterIcon';
-import { StringOperatorLabels, NumberOperatorLabels, DateOperatorLabels } from '../types';
 import { XIcon } from './icons/XIcon';
+import { FilterGroupBuilder } from './FilterGroupBuilder';
+import { PivotConfigEditor } from './PivotConfigEditor';
+import { countFilterConditions, getOperatorOptions } from '../utils/filterUtils';
+import { getFilterOperator, operatorRequiresValue } from '../utils/filterOperatorRegistry';
+import { getColumnGroupPaths, moveColumnWithGroup, insertColumnInGroup } from '../utils/columnGroupUtils';
+import { isRelativeDateOperator } from '../utils/relativeDateUtils';
+import { normalizeGroupBy } from '../utils/groupingUtils';
+
+const createEmptyFilterGroup = <T,>(): FilterGroup<T> => ({ combinator: 'and', children: [] });
+
+type GroupLevelOptions<T> = Omit<GroupByLevel<T>, 'key'>;
+
+// Group sorts as select option values, e.g. "count:descending" or "aggregate:amount"
+const groupSortToOption = <T,>(sort: GroupSort<T> | undefined): string => {
+  if (!sort) return 'value:ascending';
+  switch (sort.by) {
+    case 'value': return `value:${sort.direction ?? 'ascending'}`;
+    case 'count': return `count:${sort.direction ?? 'descending'}`;
+    case 'aggregate': return `aggregate:${String(sort.column)}`;
+    default: return 'custom';
+  }
+};
 
 interface ViewEditorProps<T> {
   isOpen: boolean;
@@ -14,6 +35,8 @@ interface ViewEditorProps<T> {
   onSave: (view: ViewConfiguration<T>) => void;
   initialView: ViewConfiguration<T> | null;
   allColumns: Column<T>[];
+  // The table's column groups; grouped columns are reordered as a block
+  columnGroups?: ColumnGroup<T>[];
 }
 
 // A single, detached popover component to avoid being clipped by scrollable containers.
@@ -42,6 +65,7 @@ const FilterPopoverContent = <T,>({
 
   const [operator, setOperator] = useState<FilterOperator>(initialOperator);
   const [value, setValue] = useState(initialValue);
+  const [secondValue, setSecondValue] = useState(filterConfig?.secondValue || '');
   const popoverRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -55,19 +79,18 @@ const FilterPopoverContent = <T,>({
   }, [onClose]);
 
   const handleApply = () => {
-    if (value.trim() !== '') {
-      onFilterChange({ key: column.accessor, operator, value });
+    if (!operatorRequiresValue(operator)) {
+      onFilterChange({ key: column.accessor, operator, value: '' });
+    } else if (value.trim() !== '') {
+      onFilterChange({ key: column.accessor, operator, value, ...(secondValue ? { secondValue } : {}) });
     } else {
       onFilterChange(null);
     }
     onClose();
   };
 
-  const operators = isNumeric
-    ? Object.entries(NumberOperatorLabels)
-    : (isDate || isDateTime)
-    ? Object.entries(DateOperatorLabels)
-    : Object.entries(StringOperatorLabels);
+  const operators = getOperatorOptions(column);
+  const ValueEditor = getFilterOperator(operator)?.valueEditor;
 
   return (
     <div 
@@ -85,10 +108,24 @@ const FilterPopoverContent = <T,>({
           {operators.map(([opValue, label]) => <option key={opValue} value={opValue}>{label}</option>)}
         </select>
       </div>
+      {operatorRequiresValue(operator) && (
        <div>
         <label className="text-xs text-gray-400 block mb-1">Value</label>
-        <input type={isNumeric ? 'number' : isDate ? 'date' : isDateTime ? 'datetime-local' : 'text'} value={value} onChange={e => setValue(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-gray-200" autoFocus />
+        {ValueEditor ? (
+          <ValueEditor
+            column={column}
+            value={value}
+            secondValue={secondValue}
+            onChange={(nextValue, nextSecondValue) => {
+              setValue(nextValue);
+              if (nextSecondValue !== undefined) setSecondValue(nextSecondValue);
+            }}
+          />
+        ) : (
+          <input type={isNumeric || isRelativeDateOperator(operator) ? 'number' : isDate ? 'date' : isDateTime ? 'datetime-local' : 'text'} value={value} onChange={e => setValue(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-gray-200" autoFocus />
+        )}
       </div>
+      )}
       <button onClick={handleApply} className="w-full px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700">Apply</button>
     </div>
   );
@@ -101,6 +138,7 @@ export const ViewEditor = <T,>({
   onSave,
   initialView,
   allColumns,
+  columnGroups,
 }: ViewEditorProps<T>) => {
   const [viewName, setViewName] = useState('');
   const [visibleColumnKeys, setVisibleColumnKeys] = useState<Set<keyof T>>(new Set());
@@ -108,13 +146,24 @@ export const ViewEditor = <T,>({
   
   const [sortConfig, setSortConfig] = useState<SortConfig<T>[]>([]);
   const [filterConfig, setFilterConfig] = useState<FilterConfig<T>[]>([]);
+  const [filterExpression, setFilterExpression] = useState<FilterGroup<T>>(createEmptyFilterGroup);
+  const [pivot, setPivot] = useState<PivotConfig<T> | null>(null);
+  // Ordering and blank options per grouping level, keyed by accessor
+  const [groupOptions, setGroupOptions] = useState<Map<keyof T, GroupLevelOptions<T>>>(new Map());
   
   // State for the single, detached popover
   const [editingFilterKey, setEditingFilterKey] = useState<keyof T | null>(null);
   const [popoverCoords, setPopoverCoords] = useState<{ top: number, right: number } | null>(null);
 
 
-  const { items: orderedVisibleColumns, setItems: setOrderedVisibleColumns, getDraggableProps } = useDndList<Column<T>>([]);
+  const columnGroupPaths = useMemo(() => getColumnGroupPaths(columnGroups), [columnGroups]);
+  const { items: orderedVisibleColumns, setItems: setOrderedVisibleColumns, getDraggableProps } = useDndList<Column<T>>([], {
+    onReorder: (_columns, fromIndex, toIndex) => {
+      if (!columnGroups) return;
+      const order = moveColumnWithGroup(orderedVisibleColumns.map(c => c.accessor), fromIndex, toIndex, columnGroups);
+      setOrderedVisibleColumns(order.map(key => orderedVisibleColumns.find(c => c.accessor === key)!));
+    },
+  });
   const { items: activeGroups, setItems: setActiveGroups, getDraggableProps: getGroupDraggableProps } = useDndList<Column<T>>([]);
 
   useEffect(() => {
@@ -129,13 +178,17 @@ export const ViewEditor = <T,>({
           .filter(Boolean);
         setOrderedVisibleColumns(ordered);
 
-        const groups = initialView.groupBy
-          .map(key => allColumns.find(c => c.accessor === key)!)
+        const levels = normalizeGroupBy(initialView.groupBy);
+        const groups = levels
+          .map(level => allColumns.find(c => c.accessor === level.key)!)
           .filter(Boolean);
         setActiveGroups(groups);
+        setGroupOptions(new Map(levels.map(({ key, ...options }) => [key, options])));
 
         setSortConfig(initialView.sortConfig || []);
         setFilterConfig(initialView.filterConfig || []);
+        setFilterExpression(initialView.filterExpression || createEmptyFilterGroup());
+        setPivot(initialView.pivot || null);
 
       } else {
         // Reset for new view
@@ -144,8 +197,11 @@ export const ViewEditor = <T,>({
         setVisibleColumnKeys(new Set(defaultVisible));
         setOrderedVisibleColumns([...allColumns]);
         setActiveGroups([]);
+        setGroupOptions(new Map());
         setSortConfig([]);
         setFilterConfig([]);
+        setFilterExpression(createEmptyFilterGroup());
+        setPivot(null);
       }
       setActiveGroupTab('recommended'); // Reset tab on open
     } else {
@@ -183,10 +239,10 @@ export const ViewEditor = <T,>({
       newOrdered = newOrdered.filter(c => c.accessor !== key);
     } else {
       newSet.add(key);
-      const columnToAdd = allColumns.find(c => c.accessor === key);
-      if (columnToAdd) {
-        newOrdered.push(columnToAdd);
-      }
+      // Shown columns join the visible columns of their group
+      newOrdered = insertColumnInGroup(newOrdered.map(c => c.accessor), key, columnGroups)
+        .map(k => allColumns.find(c => c.accessor === k)!)
+        .filter(Boolean);
     }
     setVisibleColumnKeys(newSet);
     setOrderedVisibleColumns(newOrdered);
@@ -244,29 +300,76 @@ export const ViewEditor = <T,>({
     setActiveGroups(activeGroups.filter(g => g.accessor !== key));
   };
 
+  const setGroupSort = (key: keyof T, option: string) => {
+    const [by, rest] = option.split(':');
+    const current = groupOptions.get(key) || {};
+    let sort: GroupSort<T> | undefined;
+    if (by === 'aggregate') {
+      sort = { by: 'aggregate', column: allColumns.find(c => String(c.accessor) === rest)!.accessor };
+    } else if (by === 'value' || by === 'count') {
+      sort = { by, direction: rest as SortDirection };
+    }
+    setGroupOptions(new Map(groupOptions).set(key, { ...current, sort }));
+  };
+
 
   const handleSave = () => {
     const finalView: ViewConfiguration<T> = {
       id: initialView?.id || `view_${Date.now()}`,
       name: viewName.trim() || 'Untitled View',
       visibleColumns: orderedVisibleColumns.map(c => c.accessor),
-      groupBy: activeGroups.map(g => g.accessor),
+      // Levels with default options are saved as plain keys
+      groupBy: activeGroups.map(g => {
+        const options = groupOptions.get(g.accessor);
+        const hasOptions = options && Object.values(options).some(value => value !== undefined);
+        return hasOptions ? { key: g.accessor, ...options } : g.accessor;
+      }),
       sortConfig,
       filterConfig,
+      // Only persist the expression once it holds at least one condition
+      filterExpression: countFilterConditions(filterExpression) > 0 ? filterExpression : undefined,
+      pivot: pivot || undefined,
+      // Widths and pins aren't edited here; keep the ones of columns that stay visible
+      columnWidths: initialView?.columnWidths && Object.fromEntries(
+        Object.entries(initialView.columnWidths).filter(([key]) => orderedVisibleColumns.some(c => String(c.accessor) === key))
+      ) as ViewConfiguration<T>['columnWidths'],
+      pinnedColumns: initialView?.pinnedColumns && {
+        left: initialView.pinnedColumns.left?.filter(key => orderedVisibleColumns.some(c => c.accessor === key)),
+        right: initialView.pinnedColumns.right?.filter(key => orderedVisibleColumns.some(c => c.accessor === key)),
+      },
     };
     onSave(finalView);
   };
 
   if (!isOpen) return null;
   
+  const filterableColumns = allColumns.filter(c => c.filterable);
+
   const editingFilterColumn = useMemo(() => 
     editingFilterKey ? allColumns.find(c => c.accessor === editingFilterKey) : null,
   [editingFilterKey, allColumns]);
 
-  const DraggableGroupItem = ({ item, isDragging, onRemove, ...props }: any) => (
+  const aggregateColumns = allColumns.filter(c => c.aggregate);
+
+  const DraggableGroupItem = ({ item, isDragging, onRemove, sortOption, onSortChange, ...props }: any) => (
      <div {...props} className={`flex items-center justify-between p-2 rounded-md transition-shadow ${isDragging ? 'shadow-lg bg-gray-600' : 'bg-gray-700'}`}>
         <span>{item.header}</span>
         <div className="flex items-center">
+            <select
+              value={sortOption}
+              onChange={e => onSortChange(e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded-md py-0.5 px-1 text-xs text-gray-200 mr-2"
+              aria-label={`Order ${item.header} groups`}
+            >
+              <option value="value:ascending">A → Z</option>
+              <option value="value:descending">Z → A</option>
+              <option value="count:descending">Most rows first</option>
+              <option value="count:ascending">Fewest rows first</option>
+              {aggregateColumns.map(col => (
+                <option key={String(col.accessor)} value={`aggregate:${String(col.accessor)}`}>Highest {col.header} first</option>
+              ))}
+              {sortOption === 'custom' && <option value="custom" disabled>Custom order</option>}
+            </select>
             <svg className="w-5 h-5 text-gray-400 mr-2 cursor-grab" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 12h16M4 18h16"></path></svg>
             <button onClick={onRemove} className="text-gray-400 hover:text-white text-xl font-bold leading-none">&times;</button>
         </div>
@@ -321,7 +424,12 @@ export const ViewEditor = <T,>({
                       return (
                         <div key={String(col.accessor)} {...getDraggableProps(index)}
                              className={`flex items-center justify-between p-2 rounded-md transition-shadow ${getDraggableProps(index).isDragging ? 'shadow-lg bg-gray-600' : 'bg-gray-700'}`}>
-                          <span>{col.header}</span>
+                          <span>
+                            {col.header}
+                            {columnGroupPaths.has(col.accessor) && (
+                              <span className="ml-2 text-xs text-gray-400">{columnGroupPaths.get(col.accessor)!.map(group => group.header).join(' › ')}</span>
+                            )}
+                          </span>
                           <div className="flex items-center space-x-2">
                             {col.sortable && (
                                <button onClick={() => handleSortClick(col.accessor)} className="flex items-center space-x-1 text-gray-400 hover:text-white transition-colors">
@@ -374,6 +482,8 @@ export const ViewEditor = <T,>({
                             {...getGroupDraggableProps(index)}
                             item={col}
                             onRemove={() => removeGroup(col.accessor)}
+                            sortOption={groupSortToOption(groupOptions.get(col.accessor)?.sort)}
+                            onSortChange={(option: string) => setGroupSort(col.accessor, option)}
                         />
                     ))}
                     {activeGroups.length === 0 && <p className="text-xs text-center text-gray-500 py-4">Drag a column here</p>}
@@ -399,6 +509,28 @@ export const ViewEditor = <T,>({
               </div>
             </div>
           </div>
+
+          {/* Advanced AND/OR filter expression */}
+          <div className="space-y-3">
+            <h3 className="font-semibold">Advanced Filters</h3>
+            <p className="text-sm text-gray-400">Combine conditions with AND/OR groups. Several conditions may target the same column.</p>
+            <div className="p-2 bg-gray-900/50 rounded-lg">
+              <FilterGroupBuilder<T>
+                columns={filterableColumns.length > 0 ? filterableColumns : allColumns}
+                value={filterExpression}
+                onChange={setFilterExpression}
+              />
+            </div>
+          </div>
+
+          {/* Pivot layout */}
+          <div className="space-y-3">
+            <h3 className="font-semibold">Pivot</h3>
+            <p className="text-sm text-gray-400">Summarise the filtered rows as a cross-tab with row and column totals.</p>
+            <div className="p-2 bg-gray-900/50 rounded-lg">
+              <PivotConfigEditor<T> columns={allColumns} value={pivot} onChange={setPivot} />
+            </div>
+          </div>
         </main>
 
         <footer className="p-4 border-t border-gray-700 flex justify-end space-x-3">
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import type { Column, ColumnGroup, ViewConfiguration } from '../types';
+import type { ViewManagerState } from '../hooks/useViewManager';
+import { ViewEditor } from './ViewEditor';
+import { PencilIcon } from './icons/PencilIcon';
+import { PlusIcon } from './icons/PlusIcon';
+
+interface ViewManagerProps<T> {
+  // Result of useViewManager; render the table with manager.activeView
+  manager: ViewManagerState<T>;
+  allColumns: Column<T>[];
+  // Passed to the ViewEditor so grouped columns are reordered together
+  columnGroups?: ColumnGroup<T>[];
+}
+
+const actionClassName = 'px-2 py-1 text-xs font-medium rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+/**
+ * Tabs for the saved views of a table with create, edit, rename, duplicate,
+ * delete and set-default actions, disabled until the saved views have loaded.
+ * Creating and editing open the ViewEditor.
+ */
+export const ViewManager = <T,>({ manager, allColumns, columnGroups }: ViewManagerProps<T>) => {
+  const { views, activeView, activeViewId, defaultViewId, canEdit } = manager;
+  const [editorView, setEditorView] = useState<ViewConfiguration<T> | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const openEditor = (view: ViewConfiguration<T> | null) => {
+    setEditorView(view);
+    setIsEditorOpen(true);
+  };
+
+  const startRename = (view: ViewConfiguration<T>) => {
+    if (!canEdit) return;
+    setRenamingId(view.id ?? null);
+    setRenameValue(view.name ?? '');
+  };
+
+  const finishRename = () => {
+    if (renamingId && renameValue.trim()) {
+      manager.renameView(renamingId, renameValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const activeName = activeView.name ?? 'Untitled View';
+  const isDefault = activeViewId === defaultViewId;
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between gap-4 border-b border-gray-700">
+        <div className="flex items-center overflow-x-auto" role="tablist" aria-label="Saved views">
+          {views.map(view => {
+            const isActive = view.id === activeViewId;
+            if (view.id === renamingId) {
+              return (
+                <input
+                  key={view.id}
+                  autoFocus
+                  value={renameValue}
+                  onChange={e => setRenameValue(e.target.value)}
+                  onBlur={finishRename}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') finishRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="mx-2 my-1 bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-gray-200"
+                  aria-label="View name"
+                />
+              );
+            }
+            return (
+              <button
+                key={view.id}
+                role="tab"
+                aria-selected={isActive}
+                onClick={() => manager.selectView(view.id)}
+                onDoubleClick={() => startRename(view)}
+                className={`flex-shrink-0 flex items-center px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                  isActive ? 'border-indigo-500 text-indigo-400' : 'border-transparent text-gray-400 hover:text-white'
+                }`}
+              >
+                {view.name ?? 'Untitled View'}
+                {view.id === defaultViewId && <span className="ml-2 text-xs text-gray-500">(default)</span>}
+              </button>
+            );
+          })}
+          <button onClick={() => openEditor(null)} disabled={!canEdit} className="ml-2 p-2 text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed" aria-label="Create view">
+            <PlusIcon />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 flex-shrink-0 pb-1">
+          {manager.isLoading && <span role="status" className="text-xs text-gray-500">Loading views...</span>}
+          <button onClick={() => openEditor(activeView)} disabled={!canEdit} className={`${actionClassName} flex items-center gap-1`} aria-label={`Edit view ${activeName}`}>
+            <PencilIcon /> Edit
+          </button>
+          <button onClick={() => startRename(activeView)} disabled={!canEdit} className={actionClassName} aria-label={`Rename view ${activeName}`}>
+            Rename
+          </button>
+          <button onClick={() => manager.duplicateView(activeViewId)} disabled={!canEdit} className={actionClassName} aria-label={`Duplicate view ${activeName}`}>
+            Duplicate
+          </button>
+          <button
+            onClick={() => manager.setDefaultView(isDefault ? undefined : activeViewId)}
+            disabled={!canEdit}
+            className={actionClassName}
+            aria-pressed={isDefault}
+            aria-label={`Set ${activeName} as default view`}
+          >
+            {isDefault ? 'Default' : 'Set default'}
+          </button>
+          <button
+            onClick={() => manager.deleteView(activeViewId)}
+            disabled={!canEdit || views.length <= 1}
+            className={`${actionClassName} text-red-300 hover:bg-red-500/30`}
+            aria-label={`Delete view ${activeName}`}
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {manager.error && (
+        <p role="alert" className="mt-2 text-xs text-red-400">Saved views could not be synced: {manager.error.message}</p>
+      )}
+
+      <ViewEditor<T>
+        isOpen={isEditorOpen}
+        onClose={() => setIsEditorOpen(false)}
+        onSave={view => {
+          manager.saveView(view);
+          setIsEditorOpen(false);
+        }}
+        initialView={editorView}
+        allColumns={allColumns}
+        columnGroups={columnGroups}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+/**
+ * ReusableTable.aggregation.test.tsx
+ *
+ * Tests for column aggregates in group headers, the table footer and CSV export.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration } from '../../types';
+import { computeAggregate } from '../../utils/aggregationUtils';
+
+interface Sale {
+  id: number;
+  region: string;
+  rep: string;
+  amount: number;
+  closedOn: string;
+}
+
+const columns: Column<Sale>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number' },
+  { header: 'Region', accessor: 'region', groupable: true },
+  { header: 'Rep', accessor: 'rep', aggregate: 'countDistinct' },
+  { header: 'Amount', accessor: 'amount', dataType: 'currency', currencyOptions: { locale: 'en-US', currency: 'USD' }, aggregate: 'sum' },
+  { header: 'Closed', accessor: 'closedOn', dataType: 'date', aggregate: 'max' },
+];
+
+const data: Sale[] = [
+  { id: 1, region: 'North', rep: 'Ann', amount: 100, closedOn: '2024-01-10' },
+  { id: 2, region: 'North', rep: 'Ann', amount: 250.5, closedOn: '2024-03-02' },
+  { id: 3, region: 'South', rep: 'Bo', amount: 40, closedOn: '2024-02-20' },
+];
+
+const baseView: ViewConfiguration<Sale> = {
+  id: 'sales',
+  name: 'Sales',
+  visibleColumns: ['id', 'region', 'rep', 'amount', 'closedOn'],
+  groupBy: [],
+  sortConfig: [],
+  filterConfig: [],
+};
+
+const readBlob = (blob: Blob) =>
+  new Promise<string>(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
+const renderTable = (viewConfig: ViewConfiguration<Sale> = baseView) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable allColumns={columns} data={data} viewConfig={viewConfig} />
+    </ThemeProvider>
+  );
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('ReusableTable - Aggregations', () => {
+  it('renders totals for the filtered rows in the table footer', () => {
+    const { container } = renderTable({ ...baseView, filterConfig: [{ key: 'region', operator: 'equals', value: 'North' }] });
+
+    const footer = container.querySelector('tfoot')!;
+    expect(within(footer as HTMLElement).getByText('$350.50')).toBeInTheDocument();
+    expect(within(footer as HTMLElement).getByText('2024-03-02')).toBeInTheDocument();
+    expect(within(footer as HTMLElement).getByText('Sum')).toBeInTheDocument();
+    expect(within(footer as HTMLElement).getByText('Total')).toBeInTheDocument();
+  });
+
+  it('shows per-group aggregates in group headers', () => {
+    renderTable({ ...baseView, groupBy: ['region'] });
+
+    const north = screen.getByRole('button', { name: /North/ });
+    const south = screen.getByRole('button', { name: /South/ });
+    expect(within(north).getByText('$350.50')).toBeInTheDocument();
+    expect(within(north).getByText('2024-03-02')).toBeInTheDocument();
+    expect(within(south).getByText('$40.00')).toBeInTheDocument();
+  });
+
+  it('exports subtotal and total rows to CSV when requested', async () => {
+    let exported: Blob | undefined;
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      exported = blob;
+      return 'blob:test';
+    });
+    URL.revokeObjectURL = vi.fn();
+
+    renderTable({ ...baseView, groupBy: ['region'] });
+    fireEvent.click(screen.getByLabelText('Include subtotals'));
+    fireEvent.change(screen.getByLabelText('Export format locale'), { target: { value: 'en-US' } });
+    fireEvent.click(screen.getByText('Export CSV'));
+
+    const lines = (await readBlob(exported!)).split('\n');
+    expect(lines).toEqual([
+      'ID,Region,Rep,Amount,Closed',
+      '1,North,Ann,100,1/10/2024',
+      '2,North,Ann,250.5,3/2/2024',
+      'Subtotal Region: North (2),,1,350.5,3/2/2024',
+      '3,South,Bo,40,2/20/2024',
+      'Subtotal Region: South (1),,1,40,2/20/2024',
+      'Total (3),,2,390.5,3/2/2024',
+    ]);
+  });
+});
+
+describe('computeAggregate', () => {
+  it('supports averages, minimums and custom reducers', () => {
+    expect(computeAggregate({ header: 'Amount', accessor: 'amount', aggregate: 'avg' }, data)).toBeCloseTo(130.1667);
+    expect(computeAggregate({ header: 'Amount', accessor: 'amount', aggregate: 'min' }, data)).toBe(40);
+    expect(computeAggregate<Sale>({ header: 'Rep', accessor: 'rep', aggregate: values => values.join('/') }, data)).toBe('Ann/Ann/Bo');
+    expect(computeAggregate({ header: 'Amount', accessor: 'amount', aggregate: 'sum' }, [])).toBeNull();
+  });
+});
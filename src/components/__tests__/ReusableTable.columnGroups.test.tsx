@@ -0,0 +1,152 @@
+/**
+ * ReusableTable.columnGroups.test.tsx
+ *
+ * Tests for multi-level column header groups: spans, hidden and pinned
+ * columns, header reordering and moving a group in ViewEditor.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ViewEditor } from '../ViewEditor';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ColumnGroup, ViewConfiguration } from '../../types';
+
+interface Person {
+  id: number;
+  first: string;
+  last: string;
+  email: string;
+  phone: string;
+}
+
+const columns: Column<Person>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number' },
+  { header: 'First', accessor: 'first' },
+  { header: 'Last', accessor: 'last' },
+  { header: 'Email', accessor: 'email' },
+  { header: 'Phone', accessor: 'phone' },
+];
+
+const columnGroups: ColumnGroup<Person>[] = [
+  {
+    header: 'Person',
+    children: [
+      { header: 'Name', children: ['first', 'last'] },
+      { header: 'Contact', children: ['email', 'phone'] },
+    ],
+  },
+];
+
+const data: Person[] = [{ id: 1, first: 'Ada', last: 'Lovelace', email: 'ada@example.com', phone: '555-0100' }];
+
+const view: ViewConfiguration<Person> = {
+  id: 'people',
+  name: 'People',
+  visibleColumns: ['id', 'first', 'last', 'email', 'phone'],
+};
+
+const renderTable = (props: Partial<React.ComponentProps<typeof ReusableTable<Person>>> = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Person> allColumns={columns} data={data} viewConfig={view} columnGroups={columnGroups} {...props} />
+    </ThemeProvider>
+  );
+
+// Group and column header rows, without the filter row
+const headerRows = () =>
+  Array.from(document.querySelectorAll('thead tr')).filter(tr => tr.querySelector('[data-column-key], [data-column-group]')).map(tr =>
+    Array.from(tr.querySelectorAll('th')).map(th => {
+      const label = th.dataset.columnGroup ?? th.dataset.columnKey;
+      const span = th.getAttribute('colspan') ?? th.getAttribute('rowspan');
+      return span ? `${label}:${span}` : label;
+    })
+  );
+const headerCell = (key: keyof Person) => document.querySelector<HTMLElement>(`thead th[data-column-key="${key}"]`)!;
+// Header cells sit in different rows, so the visual column order comes from the body
+const columnOrder = () =>
+  Array.from(document.querySelectorAll<HTMLElement>('tbody tr:first-child td')).map(td => td.dataset.columnKey);
+
+describe('ReusableTable - column groups', () => {
+  it('renders one header row per group level with colSpan and rowSpan', () => {
+    renderTable();
+
+    expect(headerRows()).toEqual([
+      ['id:3', 'Person:4'],
+      ['Name:2', 'Contact:2'],
+      ['first', 'last', 'email', 'phone'],
+    ]);
+    expect(screen.getByText('Contact').closest('th')).toHaveAttribute('scope', 'colgroup');
+  });
+
+  it('spans only the visible columns of a group and drops empty groups', () => {
+    const { rerender } = renderTable({ viewConfig: { ...view, visibleColumns: ['id', 'first', 'last', 'phone'] } });
+    expect(headerRows()).toEqual([
+      ['id:3', 'Person:3'],
+      ['Name:2', 'Contact:1'],
+      ['first', 'last', 'phone'],
+    ]);
+
+    rerender(
+      <ThemeProvider theme="light">
+        <ReusableTable<Person> allColumns={columns} data={data} viewConfig={{ ...view, visibleColumns: ['id', 'email', 'phone'] }} columnGroups={columnGroups} />
+      </ThemeProvider>
+    );
+    expect(headerRows()).toEqual([
+      ['id:3', 'Person:2'],
+      ['Contact:2'],
+      ['email', 'phone'],
+    ]);
+  });
+
+  it('splits a group where pinned columns meet unpinned ones', () => {
+    renderTable({ pinnedColumns: { left: ['email'] } });
+
+    expect(headerRows()[0]).toEqual(['Person:1', 'id:3', 'Person:3']);
+    const pinnedGroup = document.querySelector<HTMLElement>('th[data-column-group="Contact"]')!;
+    expect(pinnedGroup.style.position).toBe('sticky');
+    expect(columnOrder()).toEqual(['email', 'id', 'first', 'last', 'phone']);
+  });
+
+  it('moves the whole group when a grouped header is dropped outside it', () => {
+    const onColumnOrderChange = vi.fn();
+    renderTable({ reorderableColumns: true, onColumnOrderChange });
+
+    fireEvent.dragStart(headerCell('email'));
+    fireEvent.dragEnter(headerCell('id'));
+    fireEvent.dragEnd(headerCell('email'));
+
+    expect(columnOrder()).toEqual(['first', 'last', 'email', 'phone', 'id']);
+    expect(onColumnOrderChange).toHaveBeenCalledWith(['first', 'last', 'email', 'phone', 'id']);
+
+    headerCell('phone').focus();
+    fireEvent.keyDown(headerCell('phone'), { key: 'ArrowLeft', altKey: true });
+    expect(columnOrder()).toEqual(['first', 'last', 'phone', 'email', 'id']);
+    expect(headerCell('phone')).toHaveFocus();
+  });
+
+  it('rejects groups that refer to unknown columns', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderTable({ columnGroups: [{ header: 'Extra', children: ['missing' as keyof Person] }] }))
+      .toThrow('[ReusableTable] The following columns in "columnGroups" do not exist in "allColumns": "missing"');
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('moves a group together in ViewEditor and shows the group path', () => {
+    const onSave = vi.fn();
+    render(<ViewEditor<Person> isOpen onClose={() => {}} onSave={onSave} initialView={view} allColumns={columns} columnGroups={columnGroups} />);
+
+    const items = () => Array.from(document.querySelectorAll<HTMLElement>('[data-dnd-index]')).slice(0, 5);
+    expect(items()[3]).toHaveTextContent('Person › Contact');
+
+    fireEvent.dragStart(items()[1]);
+    fireEvent.dragEnter(items()[4]);
+    fireEvent.dragEnd(items()[1]);
+    fireEvent.click(screen.getByText('Save View'));
+
+    expect(onSave).toHaveBeenCalledWith(expect.objectContaining({
+      visibleColumns: ['id', 'email', 'phone', 'first', 'last'],
+    }));
+  });
+});
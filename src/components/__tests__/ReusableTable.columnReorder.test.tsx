@@ -0,0 +1,151 @@
+/**
+ * ReusableTable.columnReorder.test.tsx
+ *
+ * Tests for reordering columns in the table header: mouse drag and drop with a
+ * drop indicator, the Alt+Arrow keyboard alternative and touch dragging.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration } from '../../types';
+
+interface Task {
+  id: number;
+  title: string;
+  team: string;
+}
+
+const columns: Column<Task>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number', sortable: true },
+  { header: 'Title', accessor: 'title', sortable: true },
+  { header: 'Team', accessor: 'team' },
+];
+
+const data: Task[] = [
+  { id: 1, title: 'Write docs', team: 'Core' },
+  { id: 2, title: 'Fix bug', team: 'Web' },
+];
+
+const view: ViewConfiguration<Task> = {
+  id: 'tasks',
+  name: 'Tasks',
+  visibleColumns: ['id', 'title', 'team'],
+};
+
+const renderTable = (props: Partial<React.ComponentProps<typeof ReusableTable<Task>>> = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Task> allColumns={columns} data={data} viewConfig={view} reorderableColumns {...props} />
+    </ThemeProvider>
+  );
+
+const headerCell = (key: keyof Task) => document.querySelector<HTMLElement>(`thead th[data-column-key="${key}"]`)!;
+const headerOrder = () =>
+  Array.from(document.querySelectorAll<HTMLElement>('thead th[data-column-key]')).map(th => th.dataset.columnKey);
+const originalElementFromPoint = document.elementFromPoint;
+
+const firstRowTexts = () =>
+  Array.from(document.querySelectorAll('tbody tr:first-child td')).map(td => td.textContent);
+
+afterEach(() => {
+  document.elementFromPoint = originalElementFromPoint;
+  vi.useRealTimers();
+});
+
+describe('ReusableTable - column reordering', () => {
+  it('moves a column dropped on another header and shows where it will land', () => {
+    const onColumnOrderChange = vi.fn();
+    renderTable({ onColumnOrderChange });
+
+    fireEvent.dragStart(headerCell('team'));
+    fireEvent.dragEnter(headerCell('id'));
+    const indicator = screen.getByTestId('column-drop-indicator');
+    expect(headerCell('id')).toContainElement(indicator);
+    expect(indicator).toHaveClass('left-0');
+
+    fireEvent.dragEnd(headerCell('team'));
+
+    expect(screen.queryByTestId('column-drop-indicator')).not.toBeInTheDocument();
+    expect(headerOrder()).toEqual(['team', 'id', 'title']);
+    expect(firstRowTexts()).toEqual(['Core', '1', 'Write docs']);
+    expect(onColumnOrderChange).toHaveBeenCalledWith(['team', 'id', 'title']);
+  });
+
+  it('moves the focused header with Alt+Arrow keys and announces the new position', () => {
+    const onColumnOrderChange = vi.fn();
+    renderTable({ onColumnOrderChange });
+
+    headerCell('id').focus();
+    fireEvent.keyDown(headerCell('id'), { key: 'ArrowRight', altKey: true });
+
+    expect(headerOrder()).toEqual(['title', 'id', 'team']);
+    expect(headerCell('id')).toHaveFocus();
+    expect(screen.getByText('Moved ID to position 2 of 3')).toBeInTheDocument();
+
+    // Plain arrows and moves past the edge do nothing
+    fireEvent.keyDown(headerCell('id'), { key: 'ArrowRight' });
+    fireEvent.keyDown(headerCell('title'), { key: 'ArrowLeft', altKey: true });
+    expect(headerOrder()).toEqual(['title', 'id', 'team']);
+    expect(onColumnOrderChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps pinned columns in their place in the saved order', () => {
+    const onColumnOrderChange = vi.fn();
+    const { rerender } = renderTable({ onColumnOrderChange, pinnedColumns: { right: ['id'] } });
+    expect(headerOrder()).toEqual(['title', 'team', 'id']);
+
+    headerCell('team').focus();
+    fireEvent.keyDown(headerCell('team'), { key: 'ArrowLeft', altKey: true });
+
+    expect(headerOrder()).toEqual(['team', 'title', 'id']);
+    expect(onColumnOrderChange).toHaveBeenCalledWith(['id', 'team', 'title']);
+
+    rerender(
+      <ThemeProvider theme="light">
+        <ReusableTable<Task> allColumns={columns} data={data} viewConfig={view} reorderableColumns pinnedColumns={{}} />
+      </ThemeProvider>
+    );
+    expect(headerOrder()).toEqual(['id', 'team', 'title']);
+  });
+
+  it('drags with a long touch press', () => {
+    vi.useFakeTimers();
+    renderTable();
+    document.elementFromPoint = vi.fn(() => headerCell('team'));
+
+    fireEvent.touchStart(headerCell('id'), { touches: [{ clientX: 10, clientY: 10 }] });
+    act(() => {
+      vi.advanceTimersByTime(250);
+    });
+    fireEvent.touchMove(document, { touches: [{ clientX: 300, clientY: 10 }] });
+    expect(screen.getByTestId('column-drop-indicator')).toHaveClass('right-0');
+    fireEvent.touchEnd(document);
+
+    expect(headerOrder()).toEqual(['title', 'team', 'id']);
+  });
+
+  it('leaves a touch that moves right away to scrolling', () => {
+    vi.useFakeTimers();
+    renderTable();
+
+    fireEvent.touchStart(headerCell('id'), { touches: [{ clientX: 10, clientY: 10 }] });
+    fireEvent.touchMove(headerCell('id'), { touches: [{ clientX: 60, clientY: 10 }] });
+    act(() => {
+      vi.advanceTimersByTime(250);
+    });
+    fireEvent.touchEnd(headerCell('id'));
+
+    expect(headerCell('id')).not.toHaveClass('opacity-50');
+    expect(headerOrder()).toEqual(['id', 'title', 'team']);
+  });
+
+  it('keeps the header static unless reorderableColumns is set', () => {
+    renderTable({ reorderableColumns: false });
+
+    expect(headerCell('id')).not.toHaveAttribute('draggable');
+    expect(headerCell('id')).not.toHaveAttribute('tabindex');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * ReusableTable.columnResize.test.tsx
+ *
+ * Tests for column widths: widths from columns and views, drag handles,
+ * keyboard resizing, auto-fit to content and width limits.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ColumnWidths, ViewConfiguration } from '../../types';
+
+interface Task {
+  id: number;
+  title: string;
+  team: string;
+}
+
+const columns: Column<Task>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number', sortable: true, width: 80 },
+  { header: 'Title', accessor: 'title', sortable: true, resizable: true, width: 200, minWidth: 120, maxWidth: 300 },
+  { header: 'Team', accessor: 'team', resizable: true },
+];
+
+const data: Task[] = [
+  { id: 1, title: 'Write the release notes', team: 'Core' },
+  { id: 2, title: 'Fix login', team: 'Web' },
+];
+
+const view: ViewConfiguration<Task> = {
+  id: 'tasks',
+  name: 'Tasks',
+  visibleColumns: ['id', 'title', 'team'],
+};
+
+const renderTable = (props: Partial<React.ComponentProps<typeof ReusableTable<Task>>> = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Task> allColumns={columns} data={data} viewConfig={view} {...props} />
+    </ThemeProvider>
+  );
+
+const headerCell = (key: keyof Task) => document.querySelector<HTMLElement>(`thead th[data-column-key="${key}"]`)!;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('ReusableTable - column resizing', () => {
+  it('applies column widths, with view widths taking precedence', () => {
+    renderTable({ viewConfig: { ...view, columnWidths: { title: 250 } } });
+
+    expect(document.querySelector('table')).toHaveStyle({ tableLayout: 'fixed' });
+    expect(headerCell('id').style.width).toBe('80px');
+    expect(headerCell('title').style.width).toBe('250px');
+    expect(headerCell('team').style.width).toBe('');
+    expect(screen.queryByLabelText('Resize ID column')).not.toBeInTheDocument();
+  });
+
+  it('resizes by dragging the handle and reports the width once the drag ends', () => {
+    const onColumnWidthsChange = vi.fn();
+    renderTable({ onColumnWidthsChange });
+    const handle = screen.getByLabelText('Resize Title column');
+
+    fireEvent.mouseDown(handle, { button: 0, clientX: 100 });
+    fireEvent.mouseMove(document, { clientX: 150 });
+    expect(headerCell('title').style.width).toBe('250px');
+    expect(onColumnWidthsChange).not.toHaveBeenCalled();
+
+    // Clamped to maxWidth
+    fireEvent.mouseMove(document, { clientX: 400 });
+    fireEvent.mouseUp(document);
+
+    expect(onColumnWidthsChange).toHaveBeenCalledTimes(1);
+    expect(onColumnWidthsChange).toHaveBeenCalledWith({ title: 300 });
+    expect(handle).toHaveAttribute('aria-valuenow', '300');
+  });
+
+  it('does not sort when a drag ends over the header', () => {
+    renderTable();
+
+    fireEvent.mouseDown(screen.getByLabelText('Resize Title column'), { button: 0, clientX: 100 });
+    fireEvent.mouseUp(document);
+    fireEvent.click(headerCell('title'));
+
+    expect(headerCell('title')).toHaveAttribute('aria-sort', 'none');
+  });
+
+  it('resizes with the arrow keys within the column limits', () => {
+    const onColumnWidthsChange = vi.fn();
+    renderTable({ onColumnWidthsChange });
+    const handle = screen.getByLabelText('Resize Title column');
+
+    fireEvent.keyDown(handle, { key: 'ArrowRight' });
+    expect(onColumnWidthsChange).toHaveBeenLastCalledWith({ title: 210 });
+
+    fireEvent.keyDown(handle, { key: 'ArrowLeft', shiftKey: true });
+    fireEvent.keyDown(handle, { key: 'ArrowLeft', shiftKey: true });
+    expect(onColumnWidthsChange).toHaveBeenLastCalledWith({ title: 120 });
+    expect(headerCell('title').style.width).toBe('120px');
+  });
+
+  it('fits a column to its widest content on double-click', () => {
+    // jsdom has no layout; make every text node 10px per character wide
+    Range.prototype.getBoundingClientRect = function (this: Range) {
+      const node = this.startContainer.childNodes[this.startOffset];
+      return { width: (node?.textContent?.length ?? 0) * 10 } as DOMRect;
+    };
+    const onColumnWidthsChange = vi.fn();
+    renderTable({ onColumnWidthsChange });
+
+    fireEvent.doubleClick(screen.getByLabelText('Resize Team column'));
+
+    // "Team" in the header is the longest value
+    expect(onColumnWidthsChange).toHaveBeenCalledWith({ team: 50 });
+
+    fireEvent.keyDown(screen.getByLabelText('Resize Title column'), { key: 'Enter' });
+    // "Write the release notes" is 230px wide
+    expect(onColumnWidthsChange).toHaveBeenLastCalledWith({ team: 50, title: 230 });
+    delete (Range.prototype as Partial<Range>).getBoundingClientRect;
+  });
+
+  it('follows controlled widths and views switched later', () => {
+    const { rerender } = renderTable({ viewConfig: { ...view, columnWidths: { team: 90 } } });
+    expect(headerCell('team').style.width).toBe('90px');
+
+    rerender(
+      <ThemeProvider theme="light">
+        <ReusableTable<Task> allColumns={columns} data={data} viewConfig={{ ...view, columnWidths: { team: 140 } }} />
+      </ThemeProvider>
+    );
+    expect(headerCell('team').style.width).toBe('140px');
+
+    const controlled: ColumnWidths<Task> = { title: 180 };
+    rerender(
+      <ThemeProvider theme="light">
+        <ReusableTable<Task> allColumns={columns} data={data} viewConfig={view} columnWidths={controlled} />
+      </ThemeProvider>
+    );
+    fireEvent.keyDown(screen.getByLabelText('Resize Title column'), { key: 'ArrowRight' });
+    expect(headerCell('title').style.width).toBe('180px');
+  });
+
+  it('rejects a minWidth above the maxWidth', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() =>
+      renderTable({ allColumns: [{ header: 'Title', accessor: 'title', minWidth: 300, maxWidth: 200 }] })
+    ).toThrow(/minWidth \(300\) larger than its maxWidth \(200\)/);
+  });
+});
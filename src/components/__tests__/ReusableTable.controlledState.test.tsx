@@ -0,0 +1,159 @@
+/**
+ * ReusableTable.controlledState.test.tsx
+ *
+ * Tests for the controlled/uncontrolled state props, their change callbacks and
+ * the imperative ref handle.
+ */
+
+import React, { createRef, useState } from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ReusableTableHandle, SortConfig, ViewConfiguration } from '../../types';
+
+interface Task {
+  id: number;
+  title: string;
+  team: string;
+}
+
+const columns: Column<Task>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number', sortable: true },
+  { header: 'Title', accessor: 'title', sortable: true, filterable: true },
+  { header: 'Team', accessor: 'team', groupable: true },
+];
+
+const data: Task[] = Array.from({ length: 25 }, (_, i) => ({
+  id: i + 1,
+  title: `Task ${i + 1}`,
+  team: i % 2 === 0 ? 'Core' : 'Web',
+}));
+
+const view: ViewConfiguration<Task> = {
+  id: 'tasks',
+  name: 'Tasks',
+  visibleColumns: ['id', 'title', 'team'],
+  groupBy: [],
+  sortConfig: [],
+  filterConfig: [],
+};
+
+type TableProps = Partial<React.ComponentProps<typeof ReusableTable<Task>>>;
+
+const renderTable = (props: TableProps = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Task> allColumns={columns} data={data} viewConfig={view} {...props} />
+    </ThemeProvider>
+  );
+
+const firstCellTexts = () =>
+  Array.from(document.querySelectorAll('tbody tr')).map(row => row.querySelector('td')?.textContent);
+
+describe('ReusableTable - Controlled state', () => {
+  it('reports sort, filter and page changes while uncontrolled', () => {
+    const onSortChange = vi.fn();
+    const onFiltersChange = vi.fn();
+    const onPageChange = vi.fn();
+    renderTable({ onSortChange, onFiltersChange, onPageChange });
+
+    fireEvent.click(screen.getByText('Title', { selector: 'th *' }));
+    expect(onSortChange).toHaveBeenLastCalledWith([{ key: 'title', direction: 'ascending' }]);
+
+    fireEvent.click(screen.getByLabelText('Next page'));
+    expect(onPageChange).toHaveBeenLastCalledWith(2, 10);
+
+    fireEvent.change(screen.getByLabelText('Filter value for Title'), { target: { value: 'Task 2' } });
+    expect(onFiltersChange).toHaveBeenLastCalledWith([
+      expect.objectContaining({ key: 'title', operator: 'contains', value: 'Task 2' }),
+    ]);
+    // A filter change goes back to the first page
+    expect(onPageChange).toHaveBeenLastCalledWith(1, 10);
+  });
+
+  it('renders the controlled sort and leaves changes to the parent', () => {
+    const onSortChange = vi.fn();
+    const sortConfig: SortConfig<Task>[] = [{ key: 'id', direction: 'descending' }];
+    renderTable({ sortConfig, onSortChange });
+
+    expect(firstCellTexts()[0]).toBe('25');
+
+    fireEvent.click(screen.getByText('Title', { selector: 'th *' }));
+    expect(onSortChange).toHaveBeenCalledWith([{ key: 'title', direction: 'ascending' }]);
+    // The parent didn't apply the change, so the order is unchanged
+    expect(firstCellTexts()[0]).toBe('25');
+  });
+
+  it('follows a controlled page owned by the parent', () => {
+    const Harness = () => {
+      const [page, setPage] = useState(3);
+      return (
+        <ThemeProvider theme="light">
+          <ReusableTable<Task> allColumns={columns} data={data} viewConfig={view} page={page} onPageChange={setPage} />
+        </ThemeProvider>
+      );
+    };
+    render(<Harness />);
+
+    expect(firstCellTexts()[0]).toBe('21');
+    fireEvent.click(screen.getByLabelText('Previous page'));
+    expect(firstCellTexts()[0]).toBe('11');
+  });
+
+  it('reports collapsed groups and accepts controlled grouping', () => {
+    const onCollapsedGroupsChange = vi.fn();
+    renderTable({ groupBy: ['team'], onCollapsedGroupsChange });
+
+    fireEvent.click(screen.getByRole('button', { name: /Team: Core/ }));
+    expect(onCollapsedGroupsChange).toHaveBeenLastCalledWith(['Core']);
+    expect(screen.queryByText('Task 1')).not.toBeInTheDocument();
+  });
+
+  it('exposes getState, setSort, setGrouping and resetFilters through the ref', () => {
+    const ref = createRef<ReusableTableHandle<Task>>();
+    const onGroupingChange = vi.fn();
+    renderTable({ ref, onGroupingChange });
+
+    act(() => ref.current!.setSort([{ key: 'id', direction: 'descending' }]));
+    expect(firstCellTexts()[0]).toBe('25');
+
+    act(() => ref.current!.setGrouping(['team']));
+    expect(onGroupingChange).toHaveBeenLastCalledWith(['team']);
+    expect(screen.getByRole('button', { name: /Team: Core/ })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Filter value for Title'), { target: { value: 'Task 1' } });
+    expect(ref.current!.getState()).toEqual({
+      sortConfig: [{ key: 'id', direction: 'descending' }],
+      filters: [expect.objectContaining({ key: 'title', value: 'Task 1' })],
+      filterExpression: undefined,
+      page: 1,
+      pageSize: 10,
+      groupBy: ['team'],
+      collapsedGroups: [],
+      columnWidths: {},
+    });
+
+    act(() => ref.current!.resetFilters());
+    expect(ref.current!.getState().filters).toEqual([]);
+  });
+
+  it('scrollToRow switches to the page showing the row', () => {
+    const ref = createRef<ReusableTableHandle<Task>>();
+    const scrollIntoView = vi.fn();
+    Element.prototype.scrollIntoView = scrollIntoView;
+    renderTable({ ref });
+
+    let found = false;
+    act(() => { found = ref.current!.scrollToRow(data[17]); });
+
+    expect(found).toBe(true);
+    expect(screen.getByText('Task 18')).toBeInTheDocument();
+    expect(scrollIntoView).toHaveBeenCalled();
+    expect(ref.current!.getState().page).toBe(2);
+
+    // Filtered-out rows can't be shown
+    fireEvent.change(screen.getByLabelText('Filter value for Title'), { target: { value: 'Task 3' } });
+    expect(ref.current!.scrollToRow(0)).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * ReusableTable.customOperators.test.tsx
+ *
+ * Tests for custom filter operators registered with registerFilterOperator.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration, FilterValueEditorProps } from '../../types';
+import { registerFilterOperator } from '../../utils/filterOperatorRegistry';
+
+interface Product {
+  id: number;
+  sku: string;
+  stock: number;
+}
+
+const columns: Column<Product>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number' },
+  { header: 'SKU', accessor: 'sku', filterable: true },
+  { header: 'Stock', accessor: 'stock', dataType: 'number', filterable: true },
+];
+
+const data: Product[] = [
+  { id: 1, sku: 'AB-100', stock: 0 },
+  { id: 2, sku: 'AB-200', stock: 12 },
+  { id: 3, sku: 'XY-300', stock: 7 },
+];
+
+const viewConfig: ViewConfiguration<Product> = {
+  id: 'products',
+  name: 'Products',
+  visibleColumns: ['id', 'sku', 'stock'],
+  groupBy: [],
+  sortConfig: [],
+  filterConfig: [],
+};
+
+const renderTable = (view: ViewConfiguration<Product> = viewConfig) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable allColumns={columns} data={data} viewConfig={view} />
+    </ThemeProvider>
+  );
+
+const cleanups: (() => void)[] = [];
+const register: typeof registerFilterOperator = definition => {
+  const unregister = registerFilterOperator(definition);
+  cleanups.push(unregister);
+  return unregister;
+};
+
+afterEach(() => {
+  cleanups.splice(0).forEach(unregister => unregister());
+});
+
+describe('ReusableTable - Custom filter operators', () => {
+  it('lists registered operators in the column filter and evaluates them', () => {
+    register({
+      id: 'matchesRegex',
+      label: 'Matches Regex',
+      dataTypes: ['text'],
+      predicate: (cellValue, filter) => {
+        try {
+          return new RegExp(filter.value).test(String(cellValue));
+        } catch {
+          return true;
+        }
+      },
+    });
+
+    renderTable();
+
+    // The first operator button belongs to the SKU column
+    fireEvent.click(screen.getAllByLabelText('Select filter operator')[0]);
+    fireEvent.click(screen.getByText('Matches Regex'));
+    fireEvent.change(screen.getByLabelText('Filter value for SKU'), { target: { value: '^AB-\\d00$' } });
+
+    expect(screen.getByText('AB-100')).toBeInTheDocument();
+    expect(screen.getByText('AB-200')).toBeInTheDocument();
+    expect(screen.queryByText('XY-300')).not.toBeInTheDocument();
+  });
+
+  it('only offers operators for matching data types', () => {
+    register({ id: 'isZero', label: 'Is Zero', dataTypes: ['number'], requiresValue: false, predicate: cellValue => cellValue === 0 });
+
+    renderTable();
+
+    fireEvent.click(screen.getAllByLabelText('Select filter operator')[0]);
+    expect(screen.queryByText('Is Zero')).not.toBeInTheDocument();
+  });
+
+  it('applies value-less operators from a saved view', () => {
+    register({ id: 'isZero', label: 'Is Zero', dataTypes: ['number'], requiresValue: false, predicate: cellValue => cellValue === 0 });
+
+    renderTable({ ...viewConfig, filterConfig: [{ key: 'stock', operator: 'isZero', value: '' }] });
+
+    expect(screen.getByText('AB-100')).toBeInTheDocument();
+    expect(screen.queryByText('AB-200')).not.toBeInTheDocument();
+    expect(screen.getByText('Stock: Is Zero')).toBeInTheDocument();
+  });
+
+  it('renders the value editor of the selected operator', () => {
+    const StockLevelEditor = ({ value, onChange }: FilterValueEditorProps) => (
+      <select aria-label="Stock level" value={value} onChange={e => onChange(e.target.value)}>
+        <option value="">Any</option>
+        <option value="low">Low</option>
+      </select>
+    );
+    register({
+      id: 'stockLevel',
+      label: 'Stock Level',
+      dataTypes: ['number'],
+      predicate: (cellValue, filter) => filter.value !== 'low' || cellValue < 10,
+      valueEditor: StockLevelEditor,
+    });
+
+    renderTable();
+
+    fireEvent.click(screen.getAllByLabelText('Select filter operator')[1]);
+    fireEvent.click(screen.getByText('Stock Level'));
+    fireEvent.change(screen.getByLabelText('Stock level'), { target: { value: 'low' } });
+
+    expect(screen.queryByText('AB-200')).not.toBeInTheDocument();
+    expect(screen.getByText('XY-300')).toBeInTheDocument();
+  });
+
+  it('rejects operators that reuse a built-in id or lack a predicate', () => {
+    expect(() => registerFilterOperator({ id: 'contains', label: 'Contains', dataTypes: ['text'], predicate: () => true }))
+      .toThrow(/built-in operator/);
+    expect(() => registerFilterOperator({ id: 'broken', label: 'Broken', dataTypes: ['text'], predicate: undefined as any }))
+      .toThrow(/predicate function/);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * ReusableTable.facetFilter.test.tsx
+ *
+ * Tests for the value list filter of select and collection columns: values
+ * with counts from the otherwise filtered rows, searching, select all/none
+ * and the resulting "is any of" filter.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration } from '../../types';
+
+interface Ticket {
+  title: string;
+  status: string;
+  labels: string[];
+}
+
+const columns: Column<Ticket>[] = [
+  { header: 'Title', accessor: 'title', filterable: true },
+  { header: 'Status', accessor: 'status', filterType: 'select', filterable: true },
+  {
+    header: 'Labels',
+    accessor: 'labels',
+    dataType: 'collection',
+    filterable: true,
+    collectionConfig: {
+      type: 'chip',
+      options: [
+        { value: 'fe', label: 'Frontend' },
+        { value: 'be', label: 'Backend' },
+      ],
+    },
+  },
+];
+
+const tickets: Ticket[] = [
+  { title: 'Login page', status: 'open', labels: ['fe'] },
+  { title: 'Rate limits', status: 'open', labels: ['be'] },
+  { title: 'Dark mode', status: 'closed', labels: ['fe'] },
+  { title: 'Audit log', status: 'blocked', labels: [] },
+];
+
+const view: ViewConfiguration<Ticket> = {
+  id: 'tickets',
+  name: 'Tickets',
+  visibleColumns: ['title', 'status', 'labels'],
+};
+
+const renderTable = (props: Partial<React.ComponentProps<typeof ReusableTable<Ticket>>> = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Ticket> allColumns={columns} data={tickets} viewConfig={view} {...props} />
+    </ThemeProvider>
+  );
+
+const titles = () => Array.from(document.querySelectorAll('tbody td[data-column-key="title"]')).map(td => td.textContent);
+const openValues = (header: string) => {
+  fireEvent.click(screen.getByRole('button', { name: new RegExp(`^Filter values for ${header}`) }));
+  return screen.getByRole('dialog', { name: `Values of ${header}` });
+};
+const listed = (dialog: HTMLElement) =>
+  within(dialog).getAllByRole('listitem').map(item => item.textContent);
+
+describe('ReusableTable - value list filter', () => {
+  it('lists distinct values with counts and filters to the checked ones', () => {
+    renderTable();
+
+    const dialog = openValues('Status');
+    expect(listed(dialog)).toEqual(['blocked1', 'closed1', 'open2']);
+
+    fireEvent.click(within(dialog).getByRole('checkbox', { name: /closed/ }));
+    fireEvent.click(within(dialog).getByRole('checkbox', { name: /blocked/ }));
+    expect(titles()).toEqual(['Login page', 'Rate limits']);
+    expect(screen.getByRole('button', { name: 'Filter values for Status: open' })).toBeInTheDocument();
+    expect(screen.getByText('Status: is any of open')).toBeInTheDocument();
+
+    fireEvent.click(within(dialog).getByRole('checkbox', { name: /closed/ }));
+    expect(titles()).toEqual(['Login page', 'Rate limits', 'Dark mode']);
+    expect(screen.getByRole('button', { name: 'Filter values for Status: 2 selected' })).toBeInTheDocument();
+  });
+
+  it('searches the list and applies select all and none to the matches', () => {
+    renderTable();
+
+    const dialog = openValues('Status');
+    fireEvent.change(within(dialog).getByLabelText('Search values of Status'), { target: { value: 'o' } });
+    expect(listed(dialog)).toEqual(['blocked1', 'closed1', 'open2']);
+    fireEvent.change(within(dialog).getByLabelText('Search values of Status'), { target: { value: 'clo' } });
+    expect(listed(dialog)).toEqual(['closed1']);
+
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Select none' }));
+    expect(titles()).toEqual(['Login page', 'Rate limits', 'Audit log']);
+
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Select all' }));
+    expect(titles()).toHaveLength(4);
+    expect(screen.getByRole('button', { name: 'Filter values for Status: All' })).toBeInTheDocument();
+  });
+
+  it('counts the values once per opening, not on every search keystroke', () => {
+    let statusReads = 0;
+    const watched = tickets.map(ticket => ({
+      ...ticket,
+      get status() {
+        statusReads++;
+        return ticket.status;
+      },
+    }));
+    renderTable({ data: watched });
+
+    const dialog = openValues('Status');
+    statusReads = 0;
+    fireEvent.change(within(dialog).getByLabelText('Search values of Status'), { target: { value: 'op' } });
+    fireEvent.change(within(dialog).getByLabelText('Search values of Status'), { target: { value: 'ope' } });
+
+    expect(listed(dialog)).toEqual(['open2']);
+    expect(statusReads).toBe(0);
+  });
+
+  it('counts collection values by label within the rows other filters keep', () => {
+    renderTable();
+
+    const statusDialog = openValues('Status');
+    fireEvent.click(within(statusDialog).getByRole('checkbox', { name: /open/ }));
+    fireEvent.keyDown(statusDialog, { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+    const labelsDialog = openValues('Labels');
+    expect(listed(labelsDialog)).toEqual(['Frontend1', '(Blanks)1']);
+
+    fireEvent.click(within(labelsDialog).getByRole('checkbox', { name: /Blanks/ }));
+    expect(titles()).toEqual(['Dark mode']);
+  });
+
+  it('reports the filter as an isAnyOf condition', () => {
+    const onFiltersChange = vi.fn();
+    renderTable({ onFiltersChange });
+
+    fireEvent.click(within(openValues('Labels')).getByRole('checkbox', { name: /Backend/ }));
+    expect(onFiltersChange).toHaveBeenLastCalledWith([{ key: 'labels', operator: 'isAnyOf', value: '["fe",""]', secondValue: '' }]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * ReusableTable.filterExpression.test.tsx
+ *
+ * Tests for nested AND/OR filter expressions supplied through ViewConfiguration.filterExpression.
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration } from '../../types';
+import { evaluateFilterNode, countFilterConditions } from '../../utils/filterUtils';
+
+interface Product {
+  id: number;
+  name: string;
+  status: string;
+  price: number;
+}
+
+const columns: Column<Product>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number' },
+  { header: 'Name', accessor: 'name', filterable: true },
+  { header: 'Status', accessor: 'status', filterable: true },
+  { header: 'Price', accessor: 'price', dataType: 'number', filterable: true },
+];
+
+const data: Product[] = [
+  { id: 1, name: 'Pencil', status: 'active', price: 2 },
+  { id: 2, name: 'Notebook', status: 'active', price: 40 },
+  { id: 3, name: 'Desk', status: 'archived', price: 250 },
+  { id: 4, name: 'Chair', status: 'active', price: 180 },
+];
+
+const baseView: ViewConfiguration<Product> = {
+  id: 'products',
+  name: 'Products',
+  visibleColumns: ['id', 'name', 'status', 'price'],
+  groupBy: [],
+  sortConfig: [],
+  filterConfig: [],
+};
+
+const renderTable = (viewConfig: ViewConfiguration<Product>) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable allColumns={columns} data={data} viewConfig={viewConfig} />
+    </ThemeProvider>
+  );
+
+describe('ReusableTable - Filter expressions', () => {
+  it('keeps rows matching any condition of an OR group', () => {
+    renderTable({
+      ...baseView,
+      filterExpression: {
+        combinator: 'or',
+        children: [
+          { key: 'price', operator: 'lt', value: '10' },
+          { key: 'price', operator: 'gt', value: '200' },
+        ],
+      },
+    });
+
+    expect(screen.getByText('Pencil')).toBeInTheDocument();
+    expect(screen.getByText('Desk')).toBeInTheDocument();
+    expect(screen.queryByText('Notebook')).not.toBeInTheDocument();
+    expect(screen.queryByText('Chair')).not.toBeInTheDocument();
+  });
+
+  it('combines the expression with the flat filterConfig using AND', () => {
+    renderTable({
+      ...baseView,
+      filterConfig: [{ key: 'status', operator: 'equals', value: 'active' }],
+      filterExpression: {
+        combinator: 'or',
+        children: [
+          { key: 'price', operator: 'lt', value: '10' },
+          { key: 'price', operator: 'gt', value: '200' },
+        ],
+      },
+    });
+
+    expect(screen.getByText('Pencil')).toBeInTheDocument();
+    expect(screen.queryByText('Desk')).not.toBeInTheDocument();
+    expect(screen.getByText('Clear Filters (3)')).toBeInTheDocument();
+  });
+});
+
+describe('evaluateFilterNode', () => {
+  const columnMap = new Map(columns.map(col => [col.accessor, col]));
+
+  it('evaluates nested groups', () => {
+    const expression = {
+      combinator: 'and' as const,
+      children: [
+        { key: 'status' as const, operator: 'equals' as const, value: 'active' },
+        {
+          combinator: 'or' as const,
+          children: [
+            { key: 'name' as const, operator: 'startsWith' as const, value: 'ch' },
+            { key: 'price' as const, operator: 'lt' as const, value: '5' },
+          ],
+        },
+      ],
+    };
+
+    expect(data.filter(item => evaluateFilterNode(item, expression, columnMap)).map(item => item.id)).toEqual([1, 4]);
+    expect(countFilterConditions(expression)).toBe(3);
+  });
+
+  it('treats an empty group as matching every row', () => {
+    expect(evaluateFilterNode(data[0], { combinator: 'or', children: [] }, columnMap)).toBe(true);
+  });
+
+  it('skips conditions that have no value yet', () => {
+    const expression = {
+      combinator: 'or' as const,
+      children: [
+        { key: 'status' as const, operator: 'equals' as const, value: 'active' },
+        { key: 'name' as const, operator: 'contains' as const, value: '' },
+      ],
+    };
+    const blankOnly = { combinator: 'and' as const, children: [expression.children[1]] };
+
+    expect(data.filter(item => evaluateFilterNode(item, expression, columnMap)))
+      .toEqual(data.filter(item => item.status === 'active'));
+    expect(countFilterConditions(expression)).toBe(1);
+    expect(data.every(item => evaluateFilterNode(item, blankOnly, columnMap))).toBe(true);
+    expect(countFilterConditions(blankOnly)).toBe(0);
+  });
+});
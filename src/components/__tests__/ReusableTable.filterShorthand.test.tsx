@@ -0,0 +1,112 @@
+/**
+ * ReusableTable.filterShorthand.test.tsx
+ *
+ * Tests for shorthand typed into column filter inputs: text and date
+ * operators, the hint chip showing how the input was read, and picking a
+ * date from the calendar.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration } from '../../types';
+
+interface Order {
+  customer: string;
+  note: string;
+  placedOn: string;
+}
+
+const columns: Column<Order>[] = [
+  { header: 'Customer', accessor: 'customer', filterable: true },
+  { header: 'Note', accessor: 'note', filterable: true },
+  { header: 'Placed', accessor: 'placedOn', dataType: 'date', filterable: true },
+];
+
+const orders: Order[] = [
+  { customer: 'Anders', note: 'Gift wrap', placedOn: '2023-12-20' },
+  { customer: 'Annika', note: '', placedOn: '2024-01-15' },
+  { customer: 'Bengt', note: 'Leave at door', placedOn: '2024-02-29' },
+  { customer: 'Dana', note: 'Call first', placedOn: '2024-03-02' },
+];
+
+const view: ViewConfiguration<Order> = {
+  id: 'orders',
+  name: 'Orders',
+  visibleColumns: ['customer', 'note', 'placedOn'],
+};
+
+const renderTable = () =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Order> allColumns={columns} data={orders} viewConfig={view} />
+    </ThemeProvider>
+  );
+
+const filterInput = (header: string) => screen.getByLabelText(`Filter value for ${header}`) as HTMLInputElement;
+const type = (header: string, value: string) => fireEvent.change(filterInput(header), { target: { value } });
+const customers = () => Array.from(document.querySelectorAll('tbody td[data-column-key="customer"]')).map(td => td.textContent);
+const hints = () => Array.from(document.querySelectorAll('[data-filter-hint]')).map(hint => hint.textContent);
+
+describe('ReusableTable - filter shorthand', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads text shorthand and shows how it was read', () => {
+    renderTable();
+
+    type('Customer', '^an');
+    expect(customers()).toEqual(['Anders', 'Annika']);
+    expect(filterInput('Customer').value).toBe('an');
+    expect(hints()).toEqual(['Shorthand: Starts With']);
+
+    type('Customer', 'ann');
+    expect(customers()).toEqual(['Annika']);
+    expect(hints()).toEqual(['Shorthand: Starts With']);
+
+    fireEvent.click(screen.getByTitle('Clear filter'));
+    expect(hints()).toEqual([]);
+
+    type('Customer', '!a');
+    expect(customers()).toEqual(['Bengt']);
+
+    type('Note', '""');
+    expect(customers()).toEqual([]);
+  });
+
+  it('treats plain text as contains without a hint', () => {
+    renderTable();
+
+    type('Note', 'door');
+    expect(customers()).toEqual(['Bengt']);
+    expect(hints()).toEqual([]);
+  });
+
+  it('reads date comparisons at once and ranges once typing pauses', () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    renderTable();
+
+    type('Placed', '>2024-01-31');
+    expect(customers()).toEqual(['Bengt', 'Dana']);
+    expect(hints()).toEqual(['Shorthand: Is After']);
+
+    fireEvent.click(screen.getByTitle('Clear filter'));
+    type('Placed', '2024-01..2024-02');
+    expect(customers()).toEqual(['Anders', 'Annika', 'Bengt', 'Dana']);
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(customers()).toEqual(['Annika', 'Bengt']);
+    expect(hints()).toEqual(['Shorthand: Date Range']);
+  });
+
+  it('keeps a calendar for picking a date', () => {
+    renderTable();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pick a date' }));
+    expect(screen.getByLabelText('Pick filter date for Placed')).toBeInTheDocument();
+  });
+});
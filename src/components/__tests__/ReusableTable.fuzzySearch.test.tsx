@@ -0,0 +1,96 @@
+/**
+ * ReusableTable.fuzzySearch.test.tsx
+ *
+ * Tests for tokenized and fuzzy global search in the table: relevance
+ * ranking, highlighted matches in cells and chip labels, and turning
+ * highlighting off.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, GlobalSearchConfig, ViewConfiguration } from '../../types';
+
+interface Engineer {
+  name: string;
+  title: string;
+  skills: string[];
+}
+
+const columns: Column<Engineer>[] = [
+  { header: 'Name', accessor: 'name', sortable: true },
+  { header: 'Title', accessor: 'title' },
+  {
+    header: 'Skills',
+    accessor: 'skills',
+    dataType: 'collection',
+    collectionConfig: { type: 'checkbox', options: [{ value: 'fe', label: 'Frontend' }, { value: 'ops', label: 'Operations' }] },
+  },
+];
+
+const engineers: Engineer[] = [
+  { name: 'Margaret', title: 'Leader of platform', skills: ['fe', 'ops'] },
+  { name: 'Linus', title: 'Kernel maintainer', skills: ['ops'] },
+  { name: 'Platon', title: 'Frontend developer', skills: ['fe'] },
+  { name: 'Grace', title: 'Platform lead', skills: ['ops'] },
+];
+
+const view: ViewConfiguration<Engineer> = {
+  id: 'engineers',
+  name: 'Engineers',
+  visibleColumns: ['name', 'title', 'skills'],
+};
+
+const renderTable = (globalSearch: Partial<GlobalSearchConfig> = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Engineer> allColumns={columns} data={engineers} viewConfig={view} globalSearch={{ enabled: true, ...globalSearch }} />
+    </ThemeProvider>
+  );
+
+const search = (value: string) => fireEvent.change(screen.getByRole('searchbox'), { target: { value } });
+const rowNames = () => Array.from(document.querySelectorAll('tbody td[data-column-key="name"]')).map(td => td.textContent);
+const marks = () => Array.from(document.querySelectorAll('tbody mark')).map(mark => mark.textContent);
+
+describe('ReusableTable - tokenized and fuzzy search', () => {
+  it('matches every word and ranks the best matches first', () => {
+    renderTable({ mode: 'tokens', rankByRelevance: true });
+
+    search('lead ops');
+    // The whole word "lead" outranks the "Leader" prefix; Linus has no "lead"
+    expect(rowNames()).toEqual(['Grace', 'Margaret']);
+
+    // A sorted column takes over from relevance
+    fireEvent.click(screen.getByText('Name', { selector: 'th *' }));
+    fireEvent.click(screen.getByText('Name', { selector: 'th *' }));
+    expect(rowNames()).toEqual(['Margaret', 'Grace']);
+  });
+
+  it('tolerates typos and highlights matched words in cells', () => {
+    renderTable({ mode: 'fuzzy' });
+
+    search('maintaner');
+    expect(rowNames()).toEqual(['Linus']);
+    expect(marks()).toEqual(['maintainer']);
+  });
+
+  it('finds rows by collection option labels and highlights them in chips', () => {
+    renderTable({ mode: 'tokens' });
+
+    search('front');
+    expect(rowNames()).toEqual(['Margaret', 'Platon']);
+    const chipMarks = Array.from(document.querySelectorAll('[data-testid="chip-fe"] mark')).map(mark => mark.textContent);
+    expect(chipMarks).toEqual(['Front', 'Front']);
+    expect(marks()).toContain('Front');
+  });
+
+  it('leaves cells unmarked when highlighting is off', () => {
+    renderTable({ highlightMatches: false });
+
+    search('Kernel');
+    expect(rowNames()).toEqual(['Linus']);
+    expect(marks()).toEqual([]);
+  });
+});
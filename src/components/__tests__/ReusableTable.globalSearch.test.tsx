@@ -0,0 +1,115 @@
+/**
+ * ReusableTable.globalSearch.test.tsx
+ *
+ * Tests for the built-in global search: the toolbar search box, searchable
+ * columns, the results count, searching before grouping and pagination,
+ * debouncing and passing the search to fetchData.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, FetchDataParams, GlobalSearchConfig, ViewConfiguration } from '../../types';
+
+interface Contact {
+  id: number;
+  name: string;
+  city: string;
+  notes: string;
+}
+
+const columns: Column<Contact>[] = [
+  { header: 'Name', accessor: 'name' },
+  { header: 'City', accessor: 'city' },
+  { header: 'Notes', accessor: 'notes' },
+];
+
+const contacts: Contact[] = Array.from({ length: 14 }, (_, index) => ({
+  id: index + 1,
+  name: `Contact ${index + 1}`,
+  city: index % 2 === 0 ? 'Oslo' : 'Lund',
+  notes: index === 3 ? 'Moved from Oslo' : '',
+}));
+
+const view: ViewConfiguration<Contact> = {
+  id: 'contacts',
+  name: 'Contacts',
+  visibleColumns: ['name', 'city', 'notes'],
+};
+
+const renderTable = (globalSearch: GlobalSearchConfig, props: Partial<React.ComponentProps<typeof ReusableTable<Contact>>> = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Contact> allColumns={columns} data={contacts} viewConfig={view} globalSearch={globalSearch} {...props} />
+    </ThemeProvider>
+  );
+
+const search = (value: string) => fireEvent.change(screen.getByRole('searchbox'), { target: { value } });
+const rowCount = () => document.querySelectorAll('tbody tr[data-row-index]').length;
+
+describe('ReusableTable - global search', () => {
+  it('narrows the rows to those matching a searchable column and shows the count', () => {
+    renderTable({ enabled: true, searchableColumns: ['city'], placeholder: 'Search contacts...' });
+
+    expect(screen.getByPlaceholderText('Search contacts...')).toBeInTheDocument();
+    search('oslo');
+    expect(screen.getByRole('status')).toHaveTextContent('7 results found');
+    expect(screen.queryByText('Contact 4')).not.toBeInTheDocument();
+
+    search('');
+    expect(screen.getByText('1-10 of 14')).toBeInTheDocument();
+  });
+
+  it('searches every filterable column when none are listed', () => {
+    renderTable({ enabled: true });
+
+    search('moved');
+    expect(rowCount()).toBe(1);
+    expect(screen.getByText('Contact 4')).toBeInTheDocument();
+  });
+
+  it('searches before grouping and returns to the first page', () => {
+    renderTable({ enabled: true }, { groupBy: ['city'] });
+    fireEvent.click(screen.getByLabelText('Next page'));
+
+    // Contacts 1 and 10-14
+    search('Contact 1');
+    expect(screen.getByText('6 results found')).toBeInTheDocument();
+    expect(rowCount()).toBe(6);
+    const counts = Array.from(document.querySelectorAll('tbody tr button span.rounded-full')).map(span => span.textContent);
+    expect(counts).toEqual(['3', '3']);
+  });
+
+  it('waits for debounceMs before searching', () => {
+    vi.useFakeTimers();
+    renderTable({ enabled: true, debounceMs: 300 });
+
+    search('Lund');
+    expect(rowCount()).toBe(10);
+    act(() => { vi.advanceTimersByTime(300); });
+    expect(rowCount()).toBe(7);
+    vi.useRealTimers();
+  });
+
+  it('passes the search to fetchData in server mode', async () => {
+    const fetchData = vi.fn(async ({ search }: FetchDataParams<Contact>) => ({
+      rows: contacts.filter(contact => contact.city.includes(search)),
+      totalCount: search ? 7 : 14,
+    }));
+    renderTable({ enabled: true }, { data: undefined, fetchData });
+    await screen.findByText('Contact 1');
+
+    search('Lund');
+    expect(await screen.findByText('7 results found')).toBeInTheDocument();
+    expect(fetchData).toHaveBeenLastCalledWith(expect.objectContaining({ search: 'Lund', page: 1 }));
+  });
+
+  it('rejects searchable columns that do not exist', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderTable({ enabled: true, searchableColumns: ['email'] }))
+      .toThrow('[ReusableTable] The following columns in "globalSearch.searchableColumns" do not exist in "allColumns": "email"');
+    vi.mocked(console.error).mockRestore();
+  });
+});
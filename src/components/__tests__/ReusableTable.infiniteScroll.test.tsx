@@ -0,0 +1,104 @@
+/**
+ * ReusableTable.infiniteScroll.test.tsx
+ *
+ * Tests for cursor-based infinite loading as an alternative to Pagination.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration, InfiniteCursor, LoadMoreParams } from '../../types';
+
+interface LogEntry {
+  id: number;
+  message: string;
+}
+
+const columns: Column<LogEntry>[] = [
+  { header: 'ID', accessor: 'id', sortable: true, dataType: 'number' },
+  { header: 'Message', accessor: 'message', sortable: true, filterable: true },
+];
+
+const viewConfig: ViewConfiguration<LogEntry> = {
+  id: 'logs',
+  name: 'Logs',
+  visibleColumns: ['id', 'message'],
+  groupBy: [],
+  sortConfig: [],
+  filterConfig: [],
+};
+
+const CHUNK_SIZE = 5;
+
+// Serves 3 chunks of 5 rows, then signals the end of the data
+const createLoader = () =>
+  vi.fn(async (cursor: InfiniteCursor, _params: LoadMoreParams<LogEntry>) => {
+    const start = typeof cursor === 'number' ? cursor : 0;
+    const rows = Array.from({ length: CHUNK_SIZE }, (_, i) => ({
+      id: start + i + 1,
+      message: `Message ${start + i + 1}`,
+    }));
+    const nextCursor = start + CHUNK_SIZE;
+    return { rows, nextCursor, hasMore: nextCursor < 15 };
+  });
+
+const renderTable = (loadMore: ReturnType<typeof createLoader>) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable allColumns={columns} viewConfig={viewConfig} infiniteScroll={{ loadMore }} />
+    </ThemeProvider>
+  );
+
+describe('ReusableTable - Infinite scroll', () => {
+  it('loads the first chunk with a null cursor and hides page-number pagination', async () => {
+    const loadMore = createLoader();
+    renderTable(loadMore);
+
+    expect(await screen.findByText('Message 1')).toBeInTheDocument();
+    expect(loadMore.mock.calls[0][0]).toBeNull();
+    expect(screen.queryByLabelText('Next page')).not.toBeInTheDocument();
+  });
+
+  it('appends chunks until the provider signals the end of data', async () => {
+    const loadMore = createLoader();
+    renderTable(loadMore);
+
+    // jsdom reports no layout, so the container always counts as scrolled to the bottom
+    expect(await screen.findByText('Message 15')).toBeInTheDocument();
+    expect(screen.getByText('Message 1')).toBeInTheDocument();
+    expect(screen.getByText('All 15 rows loaded')).toBeInTheDocument();
+    expect(loadMore).toHaveBeenCalledTimes(3);
+    expect(loadMore.mock.calls.map(call => call[0])).toEqual([null, 5, 10]);
+  });
+
+  it('resets the cursor and reloads when the sort changes', async () => {
+    const loadMore = createLoader();
+    renderTable(loadMore);
+    await screen.findByText('All 15 rows loaded');
+
+    fireEvent.click(screen.getByText('Message', { selector: 'th *' }));
+
+    await waitFor(() => {
+      const sortedCalls = loadMore.mock.calls.filter(([, params]) => params.sortConfig.length > 0);
+      expect(sortedCalls[0][0]).toBeNull();
+      expect(sortedCalls[0][1].sortConfig).toEqual([{ key: 'message', direction: 'ascending' }]);
+    });
+  });
+
+  it('shows a retry action when a chunk fails and continues from the last cursor', async () => {
+    const loadMore = createLoader();
+    const base = loadMore.getMockImplementation()!;
+    loadMore.mockImplementationOnce(base).mockRejectedValueOnce(new Error('Timeout'));
+    renderTable(loadMore);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Failed to load more rows: Timeout');
+    expect(screen.getByText('Message 5')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Retry'));
+
+    expect(await screen.findByText('Message 6')).toBeInTheDocument();
+    expect(loadMore.mock.calls[2][0]).toBe(5);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * ReusableTable.pinnedColumns.test.tsx
+ *
+ * Tests for pinned columns: edge ordering, sticky offsets, the header menu's
+ * pin actions, pin state from views and the sticky selection column.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration } from '../../types';
+
+interface Task {
+  id: number;
+  title: string;
+  team: string;
+  estimate: number;
+}
+
+const columns: Column<Task>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number', pinnable: true },
+  { header: 'Title', accessor: 'title', sortable: true, pinnable: true },
+  { header: 'Team', accessor: 'team', pinned: 'left' },
+  { header: 'Estimate', accessor: 'estimate', dataType: 'number', pinned: 'right', aggregate: 'sum' },
+];
+
+const data: Task[] = [
+  { id: 1, title: 'Write docs', team: 'Core', estimate: 3 },
+  { id: 2, title: 'Fix bug', team: 'Web', estimate: 5 },
+];
+
+const view: ViewConfiguration<Task> = {
+  id: 'tasks',
+  name: 'Tasks',
+  visibleColumns: ['id', 'title', 'team', 'estimate'],
+};
+
+const renderTable = (props: Partial<React.ComponentProps<typeof ReusableTable<Task>>> = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Task> allColumns={columns} data={data} viewConfig={view} {...props} />
+    </ThemeProvider>
+  );
+
+const headerCell = (key: keyof Task) => document.querySelector<HTMLElement>(`thead th[data-column-key="${key}"]`)!;
+const headerOrder = () =>
+  Array.from(document.querySelectorAll<HTMLElement>('thead th[data-column-key]')).map(th => th.dataset.columnKey);
+
+describe('ReusableTable - pinned columns', () => {
+  it('moves pinned columns to the edges and makes their cells sticky', () => {
+    renderTable();
+
+    expect(headerOrder()).toEqual(['team', 'id', 'title', 'estimate']);
+    expect(headerCell('team')).toHaveStyle({ position: 'sticky', left: '0px' });
+    expect(headerCell('estimate')).toHaveStyle({ position: 'sticky', right: '0px' });
+    expect(headerCell('id').style.position).toBe('');
+
+    const firstRowCells = document.querySelectorAll<HTMLElement>('tbody tr:first-child td');
+    expect(firstRowCells[0]).toHaveTextContent('Core');
+    expect(firstRowCells[0]).toHaveStyle({ position: 'sticky' });
+    expect(document.querySelector('tfoot td:last-child')).toHaveStyle({ position: 'sticky', right: '0px' });
+    expect(document.querySelector('thead')).toHaveClass('sticky');
+  });
+
+  it('offsets pinned columns by the widths of the columns before them', () => {
+    const rectSpy = vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockImplementation(function (this: HTMLElement) {
+      const widths: Record<string, number> = { team: 120, id: 80, estimate: 90 };
+      const width = this.hasAttribute('data-selection-column') ? 48 : widths[this.dataset.columnKey ?? ''] ?? 0;
+      return { width } as DOMRect;
+    });
+    renderTable({
+      pinnedColumns: { left: ['team', 'id'], right: ['estimate'] },
+      rowSelection: { enabled: true, mode: 'multiple' },
+    });
+
+    expect(document.querySelector('thead th[data-selection-column]')).toHaveClass('sticky', 'left-0');
+    // Pinned columns keep their visible order: ID, then Team
+    expect(headerCell('id')).toHaveStyle({ left: '48px' });
+    expect(headerCell('team')).toHaveStyle({ left: '128px' });
+    expect(headerCell('estimate')).toHaveStyle({ right: '0px' });
+    rectSpy.mockRestore();
+  });
+
+  it('pins and unpins columns from the header menu and reports the pin state', () => {
+    const onPinnedColumnsChange = vi.fn();
+    renderTable({ onPinnedColumnsChange });
+
+    fireEvent.click(screen.getByLabelText('Column options for Title'));
+    const menu = screen.getByRole('menu', { name: 'Title column' });
+    expect(within(menu).getAllByRole('menuitem').map(item => item.textContent)).toEqual(['Pin to left', 'Pin to right']);
+    fireEvent.click(within(menu).getByRole('menuitem', { name: 'Pin to left' }));
+
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    expect(onPinnedColumnsChange).toHaveBeenLastCalledWith({ left: ['team', 'title'], right: ['estimate'] });
+    expect(headerOrder()).toEqual(['title', 'team', 'id', 'estimate']);
+    // Opening the menu doesn't sort the column
+    expect(headerCell('title')).toHaveAttribute('aria-sort', 'none');
+
+    fireEvent.click(screen.getByLabelText('Column options for Title'));
+    fireEvent.click(screen.getByRole('menuitem', { name: 'Unpin' }));
+
+    expect(onPinnedColumnsChange).toHaveBeenLastCalledWith({ left: ['team'], right: ['estimate'] });
+    expect(headerOrder()).toEqual(['team', 'id', 'title', 'estimate']);
+  });
+
+  it('supports the keyboard in the header menu', () => {
+    renderTable();
+    const button = screen.getByLabelText('Column options for ID');
+
+    fireEvent.click(button);
+    expect(screen.getByRole('menuitem', { name: 'Pin to left' })).toHaveFocus();
+    fireEvent.keyDown(screen.getByRole('menu'), { key: 'ArrowDown' });
+    expect(screen.getByRole('menuitem', { name: 'Pin to right' })).toHaveFocus();
+
+    fireEvent.keyDown(screen.getByRole('menu'), { key: 'Escape' });
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+    expect(button).toHaveFocus();
+  });
+
+  it('takes the pin state from the view, replacing Column.pinned', () => {
+    renderTable({ viewConfig: { ...view, pinnedColumns: { right: ['id'] } } });
+
+    expect(headerOrder()).toEqual(['title', 'team', 'estimate', 'id']);
+    expect(headerCell('team').style.position).toBe('');
+    expect(headerCell('id')).toHaveStyle({ position: 'sticky', right: '0px' });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * ReusableTable.pivot.test.tsx
+ *
+ * Tests for pivot mode: the cross-tab layout, totals, validation and editing the pivot in ViewEditor.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ViewEditor } from '../ViewEditor';
+import { ThemeProvider } from '../ThemeProvider';
+import { buildPivot } from '../../utils/pivotUtils';
+import type { Column, ViewConfiguration } from '../../types';
+
+interface Sale {
+  id: number;
+  region: string;
+  year: string;
+  quarter: string;
+  amount: number;
+}
+
+const columns: Column<Sale>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number' },
+  { header: 'Region', accessor: 'region', groupable: true },
+  { header: 'Year', accessor: 'year', groupable: true },
+  { header: 'Quarter', accessor: 'quarter', groupable: true },
+  { header: 'Amount', accessor: 'amount', dataType: 'currency', currencyOptions: { locale: 'en-US', currency: 'USD' } },
+];
+
+const data: Sale[] = [
+  { id: 1, region: 'North', year: '2024', quarter: 'Q1', amount: 100 },
+  { id: 2, region: 'North', year: '2024', quarter: 'Q2', amount: 50 },
+  { id: 3, region: 'South', year: '2024', quarter: 'Q1', amount: 30 },
+  { id: 4, region: 'South', year: '2025', quarter: 'Q1', amount: 20 },
+  { id: 5, region: 'North', year: '2024', quarter: 'Q1', amount: 5 },
+];
+
+const baseView: ViewConfiguration<Sale> = {
+  id: 'sales',
+  name: 'Sales',
+  visibleColumns: ['id', 'region', 'year', 'quarter', 'amount'],
+  groupBy: [],
+  sortConfig: [],
+  filterConfig: [],
+};
+
+const renderTable = (viewConfig: ViewConfiguration<Sale>) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable allColumns={columns} data={data} viewConfig={viewConfig} />
+    </ThemeProvider>
+  );
+
+const cellTexts = (row: HTMLElement) => Array.from(row.querySelectorAll('th, td')).map(cell => cell.textContent);
+
+describe('ReusableTable - Pivot mode', () => {
+  it('renders a cross-tab with row and column totals', () => {
+    renderTable({ ...baseView, pivot: { rows: ['region'], columns: ['quarter'], value: 'amount', aggregate: 'sum' } });
+
+    const table = screen.getByRole('table', { name: 'Pivot table' });
+    const rows = within(table).getAllByRole('row');
+    expect(within(rows[0]).getByText('Q1')).toBeInTheDocument();
+    expect(within(rows[0]).getByText('Q2')).toBeInTheDocument();
+    expect(within(rows[1]).getByText('Amount (sum)')).toBeInTheDocument();
+    expect(cellTexts(rows[2])).toEqual(['North', '$105.00', '$50.00', '$155.00']);
+    expect(cellTexts(rows[3])).toEqual(['South', '$50.00', '', '$50.00']);
+    expect(cellTexts(rows[4])).toEqual(['Total', '$155.00', '$50.00', '$205.00']);
+  });
+
+  it('merges nested column key headers and applies view filters', () => {
+    renderTable({
+      ...baseView,
+      filterConfig: [{ key: 'amount', operator: 'gte', value: '10' }],
+      pivot: { rows: ['region'], columns: ['year', 'quarter'], value: 'id', aggregate: 'count' },
+    });
+
+    const table = screen.getByRole('table', { name: 'Pivot table' });
+    const year2024 = within(table).getByText('2024');
+    expect(year2024).toHaveAttribute('colspan', '2');
+    const rows = within(table).getAllByRole('row');
+    // Columns: 2024/Q1, 2024/Q2, 2025/Q1, Total; the 5 amount row is filtered out
+    expect(cellTexts(rows[3])).toEqual(['North', '1', '1', '', '2']);
+    expect(cellTexts(rows[5])).toEqual(['Total', '2', '1', '1', '4']);
+  });
+
+  it('keeps row keys apart when their values contain separators', () => {
+    const items = [
+      { ...data[0], region: 'North|East', year: '2024' },
+      { ...data[1], region: 'North', year: 'East|2024' },
+    ];
+
+    const pivot = buildPivot(items, { rows: ['region', 'year'], columns: [], value: 'amount', aggregate: 'sum' }, columns);
+
+    expect(pivot.rows.map(row => [row.values, row.total])).toEqual([
+      [['North', 'East|2024'], 50],
+      [['North|East', '2024'], 100],
+    ]);
+  });
+
+  it('puts null, undefined and empty values in one blank bucket, last', () => {
+    const items = [
+      { ...data[0], region: null as unknown as string },
+      { ...data[1], region: undefined as unknown as string },
+      { ...data[2], region: '' },
+      data[3],
+    ];
+
+    const pivot = buildPivot(items, { rows: ['region'], columns: [], value: 'amount', aggregate: 'sum' }, columns);
+
+    expect(pivot.rows.map(row => [row.values, row.total])).toEqual([
+      [['South'], 20],
+      [['(Blank)'], 180],
+    ]);
+    expect(pivot.rows[1].key).toBe('[null]');
+  });
+
+  it('rejects pivot configs that refer to unknown columns', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() =>
+      renderTable({ ...baseView, pivot: { rows: ['region'], columns: ['missing' as keyof Sale], value: 'amount', aggregate: 'sum' } })
+    ).toThrow(/Unknown columns: "missing"/);
+    consoleError.mockRestore();
+  });
+
+  it('saves the pivot layout from ViewEditor', () => {
+    const onSave = vi.fn();
+    render(<ViewEditor<Sale> isOpen onClose={() => {}} onSave={onSave} initialView={baseView} allColumns={columns} />);
+
+    fireEvent.click(screen.getByLabelText('Show as pivot table'));
+    fireEvent.change(screen.getByLabelText('Add column keys'), { target: { value: 'quarter' } });
+    fireEvent.change(screen.getByLabelText('Pivot value column'), { target: { value: 'amount' } });
+    fireEvent.change(screen.getByLabelText('Pivot aggregation'), { target: { value: 'avg' } });
+    fireEvent.click(screen.getByText('Save View'));
+
+    expect(onSave).toHaveBeenCalledWith(expect.objectContaining({
+      pivot: { rows: ['region'], columns: ['quarter'], value: 'amount', aggregate: 'avg' },
+    }));
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * ReusableTable.rowDetail.test.tsx
+ *
+ * Tests for expandable detail rows: the expand button and panel, controlled
+ * expanded state, lazily loaded details, nested tables and how detail rows
+ * work with grouping and row selection.
+ */
+
+import React, { createRef, useState } from 'react';
+import { render, screen, fireEvent, within, act } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ReusableTableHandle, RowId, ViewConfiguration } from '../../types';
+
+interface Order {
+  id: string;
+  customer: string;
+  region: string;
+}
+
+interface OrderLine {
+  product: string;
+  quantity: number;
+}
+
+const columns: Column<Order>[] = [
+  { header: 'Order', accessor: 'id' },
+  { header: 'Customer', accessor: 'customer' },
+  { header: 'Region', accessor: 'region' },
+];
+
+const data: Order[] = [
+  { id: 'A-1', customer: 'Acme', region: 'North' },
+  { id: 'B-2', customer: 'Globex', region: 'South' },
+  { id: 'C-3', customer: 'Initech', region: 'North' },
+];
+
+const view: ViewConfiguration<Order> = {
+  id: 'orders',
+  name: 'Orders',
+  visibleColumns: ['id', 'customer', 'region'],
+};
+
+const renderTable = (props: Partial<React.ComponentProps<typeof ReusableTable<Order>>> = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Order>
+        allColumns={columns}
+        data={data}
+        viewConfig={view}
+        renderRowDetail={order => <p>Details for {order.customer}</p>}
+        {...props}
+      />
+    </ThemeProvider>
+  );
+
+const expandButtons = () => screen.getAllByRole('button', { name: 'Expand row details' });
+
+describe('ReusableTable - row details', () => {
+  it('shows a detail panel spanning all columns below an expanded row', () => {
+    renderTable();
+
+    expect(document.querySelector('thead th[data-expander-column]')).toHaveTextContent('Row details');
+    fireEvent.click(expandButtons()[1]);
+
+    const collapse = screen.getByRole('button', { name: 'Collapse row details' });
+    expect(collapse).toHaveAttribute('aria-expanded', 'true');
+    const panel = document.getElementById(collapse.getAttribute('aria-controls')!)!;
+    expect(panel).toHaveAttribute('data-row-detail');
+    expect(panel.previousElementSibling).toHaveTextContent('Globex');
+    expect(within(panel).getByText('Details for Globex')).toBeInTheDocument();
+    expect(panel.querySelector('td')).toHaveAttribute('colspan', '4');
+
+    fireEvent.click(collapse);
+    expect(screen.queryByText('Details for Globex')).not.toBeInTheDocument();
+  });
+
+  it('spans the expander column with the empty state row', () => {
+    renderTable({ data: [] });
+
+    expect(screen.getByText('No data matches your criteria.')).toHaveAttribute('colspan', '4');
+  });
+
+  it('supports controlled expanded rows keyed by getRowId', () => {
+    const onExpandedRowsChange = vi.fn();
+    const ref = createRef<ReusableTableHandle<Order>>();
+    const ControlledTable = () => {
+      const [expandedRows, setExpandedRows] = useState<RowId[]>(['C-3']);
+      return (
+        <ReusableTable<Order>
+          ref={ref}
+          allColumns={columns}
+          data={data}
+          viewConfig={view}
+          getRowId={order => order.id}
+          renderRowDetail={order => <p>Details for {order.customer}</p>}
+          expandedRows={expandedRows}
+          onExpandedRowsChange={rows => {
+            onExpandedRowsChange(rows);
+            setExpandedRows(rows);
+          }}
+        />
+      );
+    };
+    render(<ControlledTable />);
+
+    expect(screen.getByText('Details for Initech')).toBeInTheDocument();
+    fireEvent.click(expandButtons()[0]);
+    expect(onExpandedRowsChange).toHaveBeenLastCalledWith(['C-3', 'A-1']);
+    expect(screen.getByText('Details for Acme')).toBeInTheDocument();
+
+    act(() => ref.current!.toggleRowExpanded('C-3'));
+    expect(onExpandedRowsChange).toHaveBeenLastCalledWith(['A-1']);
+    expect(screen.queryByText('Details for Initech')).not.toBeInTheDocument();
+  });
+
+  it('loads asynchronous details once per row and retries failures', async () => {
+    let failFirst = true;
+    const renderRowDetail = vi.fn(async (order: Order) => {
+      if (order.id === 'B-2' && failFirst) {
+        failFirst = false;
+        throw new Error('Network down');
+      }
+      return <p>Loaded {order.id}</p>;
+    });
+    renderTable({ renderRowDetail });
+
+    fireEvent.click(expandButtons()[0]);
+    expect(screen.getByRole('status')).toHaveTextContent('Loading details...');
+    expect(await screen.findByText('Loaded A-1')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Collapse row details' }));
+    fireEvent.click(expandButtons()[0]);
+    expect(screen.getByText('Loaded A-1')).toBeInTheDocument();
+    expect(renderRowDetail).toHaveBeenCalledTimes(1);
+
+    // A-1 is expanded, so B-2 has the first expand button
+    fireEvent.click(expandButtons()[0]);
+    expect(await screen.findByRole('alert')).toHaveTextContent('Failed to load details: Network down');
+    fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+    expect(await screen.findByText('Loaded B-2')).toBeInTheDocument();
+    expect(renderRowDetail).toHaveBeenCalledTimes(3);
+  });
+
+  it('renders a nested table of child records in the panel', () => {
+    const lineColumns: Column<OrderLine>[] = [
+      { header: 'Product', accessor: 'product' },
+      { header: 'Quantity', accessor: 'quantity', dataType: 'number' },
+    ];
+    const lines: Record<string, OrderLine[]> = { 'A-1': [{ product: 'Anvil', quantity: 2 }] };
+    renderTable({
+      renderRowDetail: order => (
+        <ReusableTable<OrderLine>
+          allColumns={lineColumns}
+          data={lines[order.id] ?? []}
+          viewConfig={{ id: `lines-${order.id}`, name: 'Lines', visibleColumns: ['product', 'quantity'] }}
+        />
+      ),
+    });
+
+    fireEvent.click(expandButtons()[0]);
+    const panel = document.querySelector<HTMLElement>('tr[data-row-detail]')!;
+    expect(within(panel).getByRole('table')).toBeInTheDocument();
+    expect(within(panel).getByText('Anvil')).toBeInTheDocument();
+  });
+
+  it('works alongside grouping, row selection and rows without details', () => {
+    const selectRow = vi.fn();
+    renderTable({
+      groupBy: ['region'],
+      isRowExpandable: order => order.id !== 'B-2',
+      rowSelection: { selectedRows: new Set(), isAllSelected: false, isIndeterminate: false, selectRow, selectAll: vi.fn(), clearSelection: vi.fn() },
+    });
+
+    const groupRow = screen.getByRole('button', { name: /Region: North/ }).closest('tr')!;
+    expect(groupRow.querySelectorAll('td')[1]).toHaveAttribute('colspan', '4');
+    expect(expandButtons()).toHaveLength(2);
+
+    fireEvent.click(expandButtons()[0]);
+    expect(screen.getByText('Details for Acme')).toBeInTheDocument();
+    expect(selectRow).not.toHaveBeenCalled();
+
+    const acmeRow = screen.getByText('Acme').closest('tr')!;
+    fireEvent.click(within(acmeRow).getByRole('checkbox'));
+    expect(selectRow).toHaveBeenCalledWith(data[0]);
+
+    fireEvent.click(screen.getByRole('button', { name: /Region: North/ }));
+    expect(screen.queryByText('Details for Acme')).not.toBeInTheDocument();
+  });
+});
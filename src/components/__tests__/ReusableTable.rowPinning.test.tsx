@@ -0,0 +1,113 @@
+/**
+ * ReusableTable.rowPinning.test.tsx
+ *
+ * Tests for pinned rows: sticky top and bottom bands that ignore sorting,
+ * filters and pagination, the per-row pin button and the pinRow/unpinRow
+ * handle methods.
+ */
+
+import React, { createRef } from 'react';
+import { render, screen, fireEvent, within, act } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ReusableTableHandle, ViewConfiguration } from '../../types';
+
+interface Team {
+  id: number;
+  name: string;
+  score: number;
+}
+
+const columns: Column<Team>[] = [
+  { header: 'Team', accessor: 'name', sortable: true, filterable: true },
+  { header: 'Score', accessor: 'score', dataType: 'number', sortable: true },
+];
+
+const teams: Team[] = Array.from({ length: 12 }, (_, index) => ({
+  id: index + 1,
+  name: `Team ${String.fromCharCode(65 + index)}`,
+  score: (index * 7) % 12,
+}));
+
+const view: ViewConfiguration<Team> = {
+  id: 'teams',
+  name: 'Teams',
+  visibleColumns: ['name', 'score'],
+};
+
+const renderTable = (props: Partial<React.ComponentProps<typeof ReusableTable<Team>>> = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Team>
+        allColumns={columns}
+        data={teams}
+        viewConfig={view}
+        getRowId={team => team.id}
+        {...props}
+      />
+    </ThemeProvider>
+  );
+
+const TOP = 'tbody[data-pinned-rows="top"]';
+const BODY = 'tbody:not([data-pinned-rows])';
+const namesIn = (selector: string) =>
+  Array.from(document.querySelectorAll(`${selector} tr td[data-column-key="name"]`)).map(td => td.textContent);
+
+describe('ReusableTable - row pinning', () => {
+  it('keeps pinned rows in bands below the header and above the footer and out of the pages', () => {
+    renderTable({ pinnedRows: { top: [12], bottom: [1] } });
+
+    expect(namesIn(TOP)).toEqual(['Team L']);
+    expect(namesIn('tfoot')).toEqual(['Team A']);
+    expect(document.querySelector(`${TOP} tr[data-pinned-row="top"]`)).toHaveTextContent('Team L');
+    expect(document.querySelector('thead td')).toBeNull();
+    expect(namesIn(BODY)).toEqual(['Team B', 'Team C', 'Team D', 'Team E', 'Team F', 'Team G', 'Team H', 'Team I', 'Team J', 'Team K']);
+  });
+
+  it('shows pinned rows whatever the sort and filters', () => {
+    renderTable({ pinnedRows: { top: [3, 2] } });
+
+    fireEvent.click(screen.getByText('Score', { selector: 'th *' }));
+    expect(namesIn(TOP)).toEqual(['Team C', 'Team B']);
+
+    fireEvent.change(screen.getByLabelText('Filter value for Team'), { target: { value: 'Team K' } });
+    expect(namesIn(BODY)).toEqual(['Team K']);
+    expect(namesIn(TOP)).toEqual(['Team C', 'Team B']);
+  });
+
+  it('pins and unpins rows with the row pin button', () => {
+    const onPinnedRowsChange = vi.fn();
+    renderTable({ pinnableRows: true, onPinnedRowsChange });
+
+    expect(document.querySelector('thead th[data-pin-column]')).toHaveTextContent('Pin row');
+    const row = screen.getByText('Team D').closest('tr')!;
+    fireEvent.click(within(row).getByRole('button', { name: 'Pin row to top' }));
+    expect(onPinnedRowsChange).toHaveBeenLastCalledWith({ top: [4], bottom: [] });
+    expect(namesIn(TOP)).toEqual(['Team D']);
+
+    const pinned = screen.getByText('Team D').closest('tr')!;
+    fireEvent.click(within(pinned).getByRole('button', { name: 'Unpin row' }));
+    expect(onPinnedRowsChange).toHaveBeenLastCalledWith({ top: [], bottom: [] });
+    expect(namesIn(TOP)).toEqual([]);
+    expect(namesIn(BODY)).toContain('Team D');
+  });
+
+  it('pins rows through the table handle above the totals row', () => {
+    const ref = createRef<ReusableTableHandle<Team>>();
+    renderTable({ ref, allColumns: [columns[0], { ...columns[1], aggregate: 'sum' }] });
+    expect(document.querySelector('tfoot')).toHaveTextContent('Total');
+
+    act(() => ref.current!.pinRow(5, 'bottom'));
+    act(() => ref.current!.pinRow(2, 'bottom'));
+    expect(namesIn('tfoot')).toEqual(['Team E', 'Team B']);
+    expect(document.querySelector('tfoot tr:last-child')).toHaveTextContent('Total');
+
+    act(() => ref.current!.pinRow(5));
+    expect(namesIn(TOP)).toEqual(['Team E']);
+    expect(namesIn('tfoot')).toEqual(['Team B']);
+
+    act(() => ref.current!.unpinRow(2));
+    expect(namesIn('tfoot')).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * ReusableTable.searchQuery.test.tsx
+ *
+ * Tests for the search query language in the table's search box: field
+ * terms, exclusions and phrases, syntax errors, field name completion and
+ * the parsed query sent to fetchData.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, within, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration, FetchDataParams } from '../../types';
+
+interface Product {
+  name: string;
+  status: string;
+  price: number;
+  notes: string;
+}
+
+const columns: Column<Product>[] = [
+  { header: 'Name', accessor: 'name' },
+  { header: 'Status', accessor: 'status' },
+  { header: 'Price', accessor: 'price', dataType: 'number' },
+  { header: 'Notes', accessor: 'notes' },
+];
+
+const products: Product[] = [
+  { name: 'Anvil', status: 'active', price: 150, notes: 'Ships in a wooden crate' },
+  { name: 'Rocket', status: 'active', price: 120, notes: 'Archived catalogue item' },
+  { name: 'Magnet', status: 'retired', price: 300, notes: 'Ships in a wooden crate' },
+  { name: 'Spring', status: 'active', price: 40, notes: 'Ships in a box' },
+];
+
+const view: ViewConfiguration<Product> = {
+  id: 'products',
+  name: 'Products',
+  visibleColumns: ['name', 'status', 'price', 'notes'],
+};
+
+const renderTable = () =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Product>
+        allColumns={columns}
+        data={products}
+        viewConfig={view}
+        globalSearch={{ enabled: true, queryLanguage: true }}
+      />
+    </ThemeProvider>
+  );
+
+const searchBox = () => screen.getByRole('searchbox');
+const search = (value: string) => fireEvent.change(searchBox(), { target: { value } });
+const rowNames = () => Array.from(document.querySelectorAll('tbody td[data-column-key="name"]')).map(td => td.textContent);
+
+describe('ReusableTable - search query language', () => {
+  it('applies field terms, exclusions and phrases together', () => {
+    renderTable();
+
+    search('status:active price:>100');
+    expect(rowNames()).toEqual(['Anvil', 'Rocket']);
+
+    search('status:active price:>100 -archived "wooden crate"');
+    expect(rowNames()).toEqual(['Anvil']);
+    expect(Array.from(document.querySelectorAll('tbody mark')).map(mark => mark.textContent)).toEqual(['wooden', 'crate']);
+  });
+
+  it('shows syntax errors in the search box and ignores the broken term', () => {
+    renderTable();
+
+    search('price:cheap ships');
+    expect(screen.getByRole('alert')).toHaveTextContent('"price" needs a number, e.g. price:>100 or price:10..20');
+    expect(searchBox()).toHaveAttribute('aria-invalid', 'true');
+    expect(rowNames()).toEqual(['Anvil', 'Magnet', 'Spring']);
+
+    search('price:<100');
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(rowNames()).toEqual(['Spring']);
+  });
+
+  it('completes field names from the keyboard or by clicking', () => {
+    renderTable();
+
+    search('anvil st');
+    expect(screen.getByRole('listbox', { name: 'Search suggestions' })).toHaveTextContent('status:Status');
+    fireEvent.keyDown(searchBox(), { key: 'ArrowDown' });
+    expect(searchBox()).toHaveAttribute('aria-activedescendant', within(screen.getByRole('listbox')).getByRole('option').id);
+    fireEvent.keyDown(searchBox(), { key: 'Enter' });
+    expect(searchBox()).toHaveValue('anvil status:');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+
+    search('anvil status:active p');
+    fireEvent.mouseDown(within(screen.getByRole('listbox')).getByRole('option', { name: /price:/ }));
+    expect(searchBox()).toHaveValue('anvil status:active price:');
+
+    search('n');
+    fireEvent.keyDown(searchBox(), { key: 'Escape' });
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('sends field terms to fetchData as filters and the rest as search text', async () => {
+    const fetchData = vi.fn(async (_params: FetchDataParams<Product>) => ({ rows: products, totalCount: products.length }));
+    render(
+      <ThemeProvider theme="light">
+        <ReusableTable<Product>
+          allColumns={columns}
+          viewConfig={view}
+          fetchData={fetchData}
+          globalSearch={{ enabled: true, queryLanguage: true }}
+        />
+      </ThemeProvider>
+    );
+
+    search('status:active price:>100 -archived "wooden crate"');
+
+    await waitFor(() => expect(fetchData).toHaveBeenLastCalledWith(expect.objectContaining({
+      search: '-archived "wooden crate"',
+      searchFilters: [
+        { key: 'status', operator: 'contains', value: 'active' },
+        { key: 'price', operator: 'gt', value: '100', secondValue: '' },
+      ],
+    })));
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * ReusableTable.serverData.test.tsx
+ *
+ * Tests for server-side data mode, where rows, totals and pagination come from fetchData.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration, FetchDataParams } from '../../types';
+
+interface Order {
+  id: number;
+  customer: string;
+  total: number;
+}
+
+const columns: Column<Order>[] = [
+  { header: 'ID', accessor: 'id', sortable: true, dataType: 'number' },
+  { header: 'Customer', accessor: 'customer', sortable: true, filterable: true },
+  { header: 'Total', accessor: 'total', dataType: 'number' },
+];
+
+const viewConfig: ViewConfiguration<Order> = {
+  id: 'orders',
+  name: 'Orders',
+  visibleColumns: ['id', 'customer', 'total'],
+  groupBy: [],
+  sortConfig: [],
+  filterConfig: [],
+};
+
+const makePage = (page: number, pageSize: number): Order[] =>
+  Array.from({ length: pageSize }, (_, i) => {
+    const id = (page - 1) * pageSize + i + 1;
+    return { id, customer: `Customer ${id}`, total: id * 10 };
+  });
+
+const renderTable = (fetchData: (params: FetchDataParams<Order>) => Promise<any>) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable allColumns={columns} viewConfig={viewConfig} fetchData={fetchData} />
+    </ThemeProvider>
+  );
+
+describe('ReusableTable - Server-side data mode', () => {
+  it('renders rows returned by fetchData and uses the server total for pagination', async () => {
+    const fetchData = vi.fn(async ({ page, pageSize }: FetchDataParams<Order>) => ({
+      rows: makePage(page, pageSize),
+      totalCount: 2000000,
+    }));
+
+    renderTable(fetchData);
+
+    expect(await screen.findByText('Customer 1')).toBeInTheDocument();
+    expect(screen.getByText('1-10 of 2000000')).toBeInTheDocument();
+    expect(fetchData).toHaveBeenCalledWith(expect.objectContaining({
+      page: 1,
+      pageSize: 10,
+      sortConfig: [],
+      filters: [],
+      groupBy: [],
+      search: '',
+    }));
+  });
+
+  it('requests the next page from the server instead of slicing locally', async () => {
+    const fetchData = vi.fn(async ({ page, pageSize }: FetchDataParams<Order>) => ({
+      rows: makePage(page, pageSize),
+      totalCount: 100,
+    }));
+
+    renderTable(fetchData);
+    await screen.findByText('Customer 1');
+
+    fireEvent.click(screen.getByLabelText('Next page'));
+
+    expect(await screen.findByText('Customer 11')).toBeInTheDocument();
+    expect(fetchData).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+  });
+
+  it('passes sort changes to fetchData', async () => {
+    const fetchData = vi.fn(async ({ page, pageSize }: FetchDataParams<Order>) => ({
+      rows: makePage(page, pageSize),
+      totalCount: 10,
+    }));
+
+    renderTable(fetchData);
+    await screen.findByText('Customer 1');
+
+    fireEvent.click(screen.getByText('Customer', { selector: 'th *' }));
+
+    await waitFor(() => {
+      expect(fetchData).toHaveBeenLastCalledWith(expect.objectContaining({
+        sortConfig: [{ key: 'customer', direction: 'ascending' }],
+        page: 1,
+      }));
+    });
+  });
+
+  it('shows a loading state while the first request is pending', () => {
+    const fetchData = vi.fn(() => new Promise<any>(() => {}));
+
+    renderTable(fetchData);
+
+    expect(screen.getByRole('status')).toHaveTextContent('Loading...');
+  });
+
+  it('shows an error state with a retry button when fetchData rejects', async () => {
+    const fetchData = vi.fn()
+      .mockRejectedValueOnce(new Error('Service unavailable'))
+      .mockResolvedValue({ rows: makePage(1, 10), totalCount: 10 });
+
+    renderTable(fetchData);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Failed to load data: Service unavailable');
+
+    fireEvent.click(screen.getByText('Retry'));
+
+    expect(await screen.findByText('Customer 1')).toBeInTheDocument();
+  });
+
+  it('shows the error state when fetchData throws instead of rejecting', async () => {
+    const fetchData = vi.fn((): Promise<any> => {
+      throw new Error('Bad request');
+    });
+
+    renderTable(fetchData);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Failed to load data: Bad request');
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+});
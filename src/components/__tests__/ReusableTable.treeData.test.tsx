@@ -0,0 +1,135 @@
+/**
+ * ReusableTable.treeData.test.tsx
+ *
+ * Tests for tree data mode: indented rows with expand/collapse, nested and
+ * parent id data, filtering that keeps ancestors, per-level sorting and
+ * cascading selection.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration } from '../../types';
+
+interface Employee {
+  id: number;
+  name: string;
+  title: string;
+  managerId: number | null;
+}
+
+const columns: Column<Employee>[] = [
+  { header: 'Name', accessor: 'name', sortable: true, filterable: true },
+  { header: 'Title', accessor: 'title' },
+];
+
+const staff: Employee[] = [
+  { id: 1, name: 'Ada', title: 'CEO', managerId: null },
+  { id: 2, name: 'Bob', title: 'CTO', managerId: 1 },
+  { id: 3, name: 'Cleo', title: 'CFO', managerId: 1 },
+  { id: 4, name: 'Dan', title: 'Engineer', managerId: 2 },
+  { id: 5, name: 'Eve', title: 'Founder', managerId: null },
+];
+
+const view: ViewConfiguration<Employee> = {
+  id: 'org',
+  name: 'Org chart',
+  visibleColumns: ['name', 'title'],
+};
+
+const renderTable = (props: Partial<React.ComponentProps<typeof ReusableTable<Employee>>> = {}) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable<Employee>
+        allColumns={columns}
+        data={staff}
+        viewConfig={view}
+        treeData={{ parentIdAccessor: 'managerId' }}
+        {...props}
+      />
+    </ThemeProvider>
+  );
+
+const rowNames = () =>
+  Array.from(document.querySelectorAll('tbody tr td[data-column-key="name"]')).map(td => td.textContent);
+const rowOf = (name: string) => screen.getByText(name).closest('tr')!;
+
+describe('ReusableTable - tree data', () => {
+  it('shows top-level rows and expands parents into indented child rows', () => {
+    renderTable();
+    expect(rowNames()).toEqual(['Ada', 'Eve']);
+    expect(within(rowOf('Eve')).queryByRole('button', { name: 'Expand child rows' })).not.toBeInTheDocument();
+
+    fireEvent.click(within(rowOf('Ada')).getByRole('button', { name: 'Expand child rows' }));
+    expect(rowNames()).toEqual(['Ada', 'Bob', 'Cleo', 'Eve']);
+    const bobCell = rowOf('Bob').querySelector<HTMLElement>('td[data-column-key="name"] > div')!;
+    expect(bobCell.style.paddingLeft).toBe('1.5rem');
+
+    fireEvent.click(within(rowOf('Ada')).getByRole('button', { name: 'Collapse child rows' }));
+    expect(rowNames()).toEqual(['Ada', 'Eve']);
+  });
+
+  it('reads nested rows through getSubRows', () => {
+    interface Part { name: string; title: string; parts?: Part[] }
+    const partColumns: Column<Part>[] = [{ header: 'Name', accessor: 'name' }];
+    render(
+      <ReusableTable<Part>
+        allColumns={partColumns}
+        data={[{ name: 'Bike', title: '', parts: [{ name: 'Wheel', title: '', parts: [{ name: 'Spoke', title: '' }] }] }]}
+        viewConfig={{ id: 'bom', name: 'BOM', visibleColumns: ['name'] }}
+        treeData={{ getSubRows: part => part.parts }}
+        expandedTreeRows={['0', '0.0']}
+      />
+    );
+
+    expect(rowNames()).toEqual(['Bike', 'Wheel', 'Spoke']);
+    expect(rowOf('Spoke').querySelector<HTMLElement>('td > div')!.style.paddingLeft).toBe('3rem');
+  });
+
+  it('keeps the ancestors of matching rows visible while filtering', () => {
+    renderTable();
+
+    fireEvent.change(screen.getByLabelText('Filter value for Name'), { target: { value: 'Dan' } });
+    expect(rowNames()).toEqual(['Ada', 'Bob', 'Dan']);
+  });
+
+  it('sorts rows within each level', () => {
+    const onExpandedTreeRowsChange = vi.fn();
+    renderTable({ onExpandedTreeRowsChange });
+    fireEvent.click(within(rowOf('Ada')).getByRole('button', { name: 'Expand child rows' }));
+    expect(onExpandedTreeRowsChange).toHaveBeenLastCalledWith([1]);
+
+    fireEvent.click(screen.getByText('Name', { selector: 'th *' }));
+    fireEvent.click(screen.getByText('Name', { selector: 'th *' }));
+
+    expect(rowNames()).toEqual(['Eve', 'Ada', 'Cleo', 'Bob']);
+  });
+
+  it('cascades selection to descendants when enabled', () => {
+    const selected = new Set<Employee>([staff[3]]);
+    const selectRow = vi.fn((row: Employee) => {
+      if (selected.has(row)) selected.delete(row);
+      else selected.add(row);
+    });
+    renderTable({
+      treeData: { parentIdAccessor: 'managerId', cascadeSelection: true },
+      expandedTreeRows: [1, 2],
+      rowSelection: { selectedRows: selected, isAllSelected: false, isIndeterminate: true, selectRow, selectAll: vi.fn(), clearSelection: vi.fn() },
+    });
+
+    const adaCheckbox = within(rowOf('Ada')).getByRole('checkbox') as HTMLInputElement;
+    expect(adaCheckbox.indeterminate).toBe(true);
+
+    fireEvent.click(adaCheckbox);
+    expect(selectRow.mock.calls.map(([row]) => row.name)).toEqual(['Ada', 'Bob', 'Cleo']);
+    expect(Array.from(selected).map(row => row.name).sort()).toEqual(['Ada', 'Bob', 'Cleo', 'Dan']);
+  });
+
+  it('rejects tree data combined with grouping', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderTable({ groupBy: ['title'] })).toThrow('[ReusableTable] Tree data can\'t be grouped');
+    vi.mocked(console.error).mockRestore();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * ReusableTable.urlState.test.tsx
+ *
+ * Tests for useTableUrlState: restoring table state from window.location,
+ * writing changes back to the query string and back/forward navigation.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import { useTableUrlState } from '../../hooks/useTableUrlState';
+import type { Column, ViewConfiguration } from '../../types';
+
+interface Task {
+  id: number;
+  title: string;
+  team: string;
+}
+
+const columns: Column<Task>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number', sortable: true },
+  { header: 'Title', accessor: 'title', sortable: true, filterable: true },
+  { header: 'Team', accessor: 'team', groupable: true },
+];
+
+const data: Task[] = Array.from({ length: 30 }, (_, i) => ({
+  id: i + 1,
+  title: `Task ${i + 1}`,
+  team: i % 2 === 0 ? 'Core' : 'Web',
+}));
+
+const view: ViewConfiguration<Task> = {
+  id: 'tasks',
+  name: 'Tasks',
+  visibleColumns: ['id', 'title', 'team'],
+  groupBy: [],
+  sortConfig: [],
+  filterConfig: [],
+};
+
+const UrlSyncedTable = ({ viewConfig = view }: { viewConfig?: ViewConfiguration<Task> }) => {
+  const { tableProps } = useTableUrlState<Task>({ columns, viewConfig });
+  return (
+    <ThemeProvider theme="light">
+      <ReusableTable<Task> allColumns={columns} data={data} {...tableProps} />
+    </ThemeProvider>
+  );
+};
+
+const firstCellTexts = () =>
+  Array.from(document.querySelectorAll('tbody tr')).map(row => row.querySelector('td')?.textContent);
+
+const setLocation = (search: string) => window.history.replaceState(null, '', `/tasks${search}`);
+
+afterEach(() => {
+  setLocation('');
+});
+
+describe('ReusableTable - URL state', () => {
+  it('restores sort, page and visible columns from the URL', () => {
+    setLocation('?v=1&sort=-id&page=2&cols=id,title');
+    render(<UrlSyncedTable />);
+
+    expect(firstCellTexts()[0]).toBe('20');
+    expect(screen.queryByText('Team', { selector: 'th *' })).not.toBeInTheDocument();
+  });
+
+  it('writes table changes to the query string and keeps other parameters', () => {
+    setLocation('?tab=open');
+    render(<UrlSyncedTable />);
+
+    fireEvent.click(screen.getByLabelText('Next page'));
+    expect(window.location.search).toBe('?tab=open&v=1&page=2&cols=id,title,team');
+
+    fireEvent.click(screen.getByText('ID', { selector: 'th *' }));
+    expect(new URLSearchParams(window.location.search).get('sort')).toBe('id');
+
+    fireEvent.change(screen.getByLabelText('Filter value for Title'), { target: { value: 'Task 1' } });
+    const params = new URLSearchParams(window.location.search);
+    expect(params.get('filter')).toBe('title:contains:Task 1');
+    expect(params.get('page')).toBeNull();
+  });
+
+  it('keeps a cleared view filter cleared after a reload', () => {
+    const filteredView = { ...view, filterConfig: [{ key: 'title' as const, operator: 'contains' as const, value: 'Task 1' }] };
+    const { unmount } = render(<UrlSyncedTable viewConfig={filteredView} />);
+    expect(firstCellTexts()[1]).toBe('10');
+
+    fireEvent.change(screen.getByLabelText('Filter value for Title'), { target: { value: '' } });
+    expect(new URLSearchParams(window.location.search).get('filter')).toBe('');
+
+    unmount();
+    render(<UrlSyncedTable viewConfig={filteredView} />);
+    expect(firstCellTexts()[1]).toBe('2');
+  });
+
+  it('follows back/forward navigation', () => {
+    render(<UrlSyncedTable />);
+    expect(firstCellTexts()[0]).toBe('1');
+
+    act(() => {
+      setLocation('?v=1&page=3');
+      window.dispatchEvent(new PopStateEvent('popstate'));
+    });
+
+    expect(firstCellTexts()[0]).toBe('21');
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * ReusableTable.viewManager.test.tsx
+ *
+ * Tests for useViewManager and ViewManager: switching, renaming, duplicating,
+ * deleting and defaulting saved views, persistence through storage adapters
+ * and schema migrations on load.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import { ViewManager } from '../ViewManager';
+import { useViewManager, type ViewManagerState } from '../../hooks/useViewManager';
+import { createLocalStorageAdapter, createColumnRenameMigration } from '../../utils/viewStorage';
+import type { Column, StoredViews, ViewConfiguration, ViewStorageAdapter } from '../../types';
+
+interface Task {
+  id: number;
+  title: string;
+  team: string;
+}
+
+const columns: Column<Task>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number', sortable: true },
+  { header: 'Title', accessor: 'title', sortable: true },
+  { header: 'Team', accessor: 'team', groupable: true },
+];
+
+const data: Task[] = [
+  { id: 1, title: 'Write docs', team: 'Core' },
+  { id: 2, title: 'Fix bug', team: 'Web' },
+];
+
+const initialViews: ViewConfiguration<Task>[] = [
+  { id: 'all', name: 'All tasks', visibleColumns: ['id', 'title', 'team'] },
+  { id: 'compact', name: 'Compact', visibleColumns: ['title'] },
+];
+
+const ManagedTable = ({ storage, schemaVersion, migrations }: {
+  storage?: ViewStorageAdapter<Task>;
+  schemaVersion?: number;
+  migrations?: Parameters<typeof useViewManager<Task>>[0]['migrations'];
+}) => {
+  const manager = useViewManager<Task>({ initialViews, storage, schemaVersion, migrations });
+  return (
+    <ThemeProvider theme="light">
+      <ViewManager<Task> manager={manager} allColumns={columns} />
+      <ReusableTable<Task> allColumns={columns} data={data} viewConfig={manager.activeView} />
+    </ThemeProvider>
+  );
+};
+
+const createMemoryAdapter = (initial: StoredViews<Task> | null) => {
+  const saved: StoredViews<Task>[] = [];
+  const adapter: ViewStorageAdapter<Task> = {
+    load: async () => initial,
+    save: async stored => {
+      saved.push(stored);
+    },
+  };
+  return { adapter, saved };
+};
+
+const storedViews = () =>
+  JSON.parse(window.localStorage.getItem('task-views') ?? 'null') as StoredViews<Task> | null;
+
+const headerTexts = () => Array.from(document.querySelectorAll('thead tr:first-child th')).map(th => th.textContent?.trim());
+
+afterEach(() => {
+  window.localStorage.clear();
+});
+
+describe('ReusableTable - saved views', () => {
+  it('switches the table between views', () => {
+    render(<ManagedTable />);
+    expect(screen.getByRole('tab', { name: 'All tasks' })).toHaveAttribute('aria-selected', 'true');
+    expect(screen.getByText('Team', { selector: 'th *' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Compact' }));
+
+    expect(screen.getByRole('tab', { name: 'Compact' })).toHaveAttribute('aria-selected', 'true');
+    expect(screen.queryByText('Team', { selector: 'th *' })).not.toBeInTheDocument();
+  });
+
+  it('renames, duplicates and deletes views and persists every change', async () => {
+    const storage = createLocalStorageAdapter<Task>('task-views');
+    render(<ManagedTable storage={storage} />);
+    await waitFor(() => expect(screen.getByLabelText('Rename view All tasks')).toBeEnabled());
+
+    fireEvent.click(screen.getByLabelText('Rename view All tasks'));
+    const input = screen.getByLabelText('View name');
+    fireEvent.change(input, { target: { value: 'Everything' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(screen.getByRole('tab', { name: 'Everything' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Duplicate view Everything'));
+    expect(screen.getByRole('tab', { name: 'Everything (copy)' })).toHaveAttribute('aria-selected', 'true');
+    await waitFor(() =>
+      expect(storedViews()?.views.map(v => v.name)).toEqual(['Everything', 'Compact', 'Everything (copy)'])
+    );
+
+    fireEvent.click(screen.getByLabelText('Delete view Everything (copy)'));
+    expect(screen.queryByRole('tab', { name: 'Everything (copy)' })).not.toBeInTheDocument();
+    expect(screen.getByRole('tab', { name: 'Everything' })).toHaveAttribute('aria-selected', 'true');
+    await waitFor(() => expect(storedViews()?.views).toHaveLength(2));
+  });
+
+  it('opens the default view when views are loaded again', async () => {
+    const storage = createLocalStorageAdapter<Task>('task-views');
+    const { unmount } = render(<ManagedTable storage={storage} />);
+    await waitFor(() => expect(screen.getByLabelText('Set All tasks as default view')).toBeEnabled());
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Compact' }));
+    fireEvent.click(screen.getByLabelText('Set Compact as default view'));
+    expect(screen.getByLabelText('Set Compact as default view')).toHaveAttribute('aria-pressed', 'true');
+    await waitFor(() => expect(storedViews()?.defaultViewId).toBe('compact'));
+    unmount();
+
+    render(<ManagedTable storage={storage} />);
+
+    await waitFor(() => expect(screen.getByRole('tab', { name: /Compact/ })).toHaveAttribute('aria-selected', 'true'));
+    expect(screen.getByText('(default)')).toBeInTheDocument();
+  });
+
+  it('migrates stored views from an async adapter and saves the upgraded schema', async () => {
+    const { adapter, saved } = createMemoryAdapter({
+      schemaVersion: 1,
+      views: [{ id: 'legacy', name: 'Legacy', visibleColumns: ['id', 'name'] as any }],
+    });
+
+    render(
+      <ManagedTable
+        storage={adapter}
+        schemaVersion={2}
+        migrations={{ 1: createColumnRenameMigration({ name: 'title' }) }}
+      />
+    );
+
+    expect(screen.getByRole('status')).toHaveTextContent('Loading views...');
+    await waitFor(() => expect(screen.getByRole('tab', { name: 'Legacy' })).toBeInTheDocument());
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    expect(headerTexts()).toEqual(expect.arrayContaining(['ID', 'Title']));
+    await waitFor(() => expect(saved).toHaveLength(1));
+    expect(saved[0].schemaVersion).toBe(2);
+    expect(saved[0].views[0].visibleColumns).toEqual(['id', 'title']);
+  });
+
+  it('keeps the initial views and reports storage errors', async () => {
+    const adapter: ViewStorageAdapter<Task> = {
+      load: async () => {
+        throw new Error('Quota exceeded');
+      },
+      save: () => undefined,
+    };
+
+    render(<ManagedTable storage={adapter} />);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Saved views could not be synced: Quota exceeded');
+    expect(screen.getByRole('tab', { name: 'All tasks' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Duplicate view All tasks')).toBeDisabled();
+  });
+
+  it('ignores edits until a pending load finishes, so stored views are not overwritten', async () => {
+    let finishLoad: (stored: StoredViews<Task>) => void = () => {};
+    const load = vi.fn(() => new Promise<StoredViews<Task>>(resolve => { finishLoad = resolve; }));
+    const save = vi.fn();
+    const adapter: ViewStorageAdapter<Task> = { load, save };
+    let manager: ViewManagerState<Task> | undefined;
+    const Probe = () => {
+      manager = useViewManager<Task>({ initialViews, storage: adapter });
+      return <ViewManager<Task> manager={manager} allColumns={columns} />;
+    };
+    render(<Probe />);
+    await waitFor(() => expect(load).toHaveBeenCalled());
+
+    expect(screen.getByLabelText('Duplicate view All tasks')).toBeDisabled();
+    expect(screen.getByLabelText('Create view')).toBeDisabled();
+    act(() => {
+      expect(manager!.saveView({ id: 'mine', name: 'Mine', visibleColumns: ['id'] })).toBeUndefined();
+    });
+    expect(screen.queryByRole('tab', { name: 'Mine' })).not.toBeInTheDocument();
+
+    await act(async () => {
+      finishLoad({ schemaVersion: 1, views: [{ id: 'stored', name: 'Stored', visibleColumns: ['id', 'title'] }] });
+    });
+    expect(screen.getByRole('tab', { name: 'Stored' })).toBeInTheDocument();
+    expect(save).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByLabelText('Duplicate view Stored'));
+    await waitFor(() => expect(save).toHaveBeenCalledTimes(1));
+    expect(save.mock.calls[0][0].views.map((view: ViewConfiguration<Task>) => view.name)).toEqual(['Stored', 'Stored (copy)']);
+  });
+
+  it('disables deleting the last view', () => {
+    const SingleView = () => {
+      const manager = useViewManager<Task>({ initialViews: [initialViews[0]] });
+      return <ViewManager<Task> manager={manager} allColumns={columns} />;
+    };
+    render(<SingleView />);
+
+    expect(screen.getByLabelText('Delete view All tasks')).toBeDisabled();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * ReusableTable.virtualization.test.tsx
+ *
+ * Tests for windowed row rendering of large client-side datasets.
+ */
+
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { ReusableTable } from '../ReusableTable';
+import { ThemeProvider } from '../ThemeProvider';
+import type { Column, ViewConfiguration } from '../../types';
+
+interface Item {
+  id: number;
+  name: string;
+  category: string;
+}
+
+const columns: Column<Item>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number' },
+  { header: 'Name', accessor: 'name' },
+  { header: 'Category', accessor: 'category', groupable: true },
+];
+
+const data: Item[] = Array.from({ length: 100000 }, (_, i) => ({
+  id: i + 1,
+  name: `Item ${i + 1}`,
+  category: i % 2 === 0 ? 'Even' : 'Odd',
+}));
+
+const baseView: ViewConfiguration<Item> = {
+  id: 'items',
+  name: 'Items',
+  visibleColumns: ['id', 'name', 'category'],
+  groupBy: [],
+  sortConfig: [],
+  filterConfig: [],
+};
+
+const renderTable = (viewConfig: ViewConfiguration<Item> = baseView) =>
+  render(
+    <ThemeProvider theme="light">
+      <ReusableTable
+        allColumns={columns}
+        data={data}
+        viewConfig={viewConfig}
+        virtualization={{ enabled: true, height: 500, rowHeight: 50, overscan: 2 }}
+      />
+    </ThemeProvider>
+  );
+
+const getRenderedDataRows = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('tbody tr')).filter(row => !row.hasAttribute('aria-hidden'));
+
+describe('ReusableTable - Row virtualization', () => {
+  it('mounts only the rows inside the viewport plus overscan', () => {
+    const { container } = renderTable();
+
+    // 500px viewport / 50px rows = 10 visible rows, plus 2 overscan below
+    expect(getRenderedDataRows(container)).toHaveLength(12);
+    expect(screen.getByText('Item 1')).toBeInTheDocument();
+    expect(screen.queryByText('Item 50')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Next page')).not.toBeInTheDocument();
+  });
+
+  it('keeps the full scroll height with a spacer row below the window', () => {
+    const { container } = renderTable();
+
+    const spacer = container.querySelector('tbody tr[aria-hidden="true"]') as HTMLElement;
+    expect(spacer.style.height).toBe(`${(100000 - 12) * 50}px`);
+  });
+
+  it('renders the rows at the scroll position', () => {
+    const { container } = renderTable();
+    const viewport = container.querySelector('.overflow-auto') as HTMLElement;
+
+    viewport.scrollTop = 50 * 50000;
+    fireEvent.scroll(viewport);
+
+    expect(screen.getByText('Item 50001')).toBeInTheDocument();
+    expect(screen.queryByText('Item 1')).not.toBeInTheDocument();
+    expect(getRenderedDataRows(container)).toHaveLength(14);
+  });
+
+  it('windows group header rows together with data rows', () => {
+    const { container } = renderTable({ ...baseView, groupBy: ['category'] });
+
+    const groupHeaders = container.querySelectorAll('tbody tr button');
+    expect(groupHeaders).toHaveLength(1);
+    expect(groupHeaders[0]).toHaveTextContent('Category: Even50000');
+    expect(screen.getByText('Item 1')).toBeInTheDocument();
+    // The "Odd" group header sits 50,001 rows down and is not mounted
+    expect(screen.queryByText('Odd')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,11 @@
+import React from 'react';
+
+interface PinIconProps {
+  className?: string;
+}
+
+export const PinIcon: React.FC<PinIconProps> = ({ className = "w-4 h-4" }) => (
+  <svg className={className} fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 4h6l-1 6 4 4H6l4-4-1-6zM12 14v6"></path>
+  </svg>
+);
@@ -0,0 +1,170 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import type { Column, ColumnWidths } from '../types';
+
+export const DEFAULT_MIN_COLUMN_WIDTH = 50;
+const KEYBOARD_STEP = 10;
+const KEYBOARD_LARGE_STEP = 50;
+
+interface UseColumnResizeProps<T> {
+  columns: Column<T>[];
+  widths: ColumnWidths<T>;
+  // Called once per finished resize (drag end, key press or auto-fit)
+  onWidthsChange: (widths: ColumnWidths<T>) => void;
+  tableRef: React.RefObject<HTMLTableElement>;
+}
+
+interface DragState<T> {
+  key: keyof T;
+  startX: number;
+  startWidth: number;
+  width: number;
+  // Rendered widths of the other columns, kept so they don't shift once the table switches to fixed layout
+  baseWidths: ColumnWidths<T>;
+}
+
+const clampWidth = <T,>(column: Column<T>, width: number) =>
+  Math.round(Math.min(column.maxWidth ?? Infinity, Math.max(column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH, width)));
+
+// Width of a cell's content measured with a Range, so it isn't limited by the current column width
+const measureContentWidth = (cell: HTMLElement) => {
+  const content = cell.querySelector<HTMLElement>('[data-resize-content]') ?? cell;
+  const range = document.createRange();
+  let width = 0;
+  content.childNodes.forEach(node => {
+    range.selectNode(node);
+    width += range.getBoundingClientRect?.().width ?? 0;
+  });
+  const cellStyle = window.getComputedStyle(cell);
+  const gap = parseFloat(window.getComputedStyle(content).columnGap) || 0;
+  return width
+    + gap * Math.max(0, content.childNodes.length - 1)
+    + (parseFloat(cellStyle.paddingLeft) || 0)
+    + (parseFloat(cellStyle.paddingRight) || 0);
+};
+
+/**
+ * Column resizing for ReusableTable: drag handles, double-click (or Enter) to
+ * fit a column to its content, and arrow keys on a focused handle. Header and
+ * body cells are found through their data-column-key attribute.
+ */
+export const useColumnResize = <T,>({ columns, widths, onWidthsChange, tableRef }: UseColumnResizeProps<T>) => {
+  const [drag, setDrag] = useState<DragState<T> | null>(null);
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+
+  const getColumnWidth = useCallback((column: Column<T>): number | undefined => {
+    if (drag) {
+      if (drag.key === column.accessor) return drag.width;
+      if (drag.baseWidths[column.accessor] !== undefined) return drag.baseWidths[column.accessor];
+    }
+    const width = widths[column.accessor] ?? column.width;
+    return width === undefined ? undefined : clampWidth(column, width);
+  }, [drag, widths]);
+
+  const getCells = (column: Column<T>, selector = 'th, td') =>
+    Array.from(tableRef.current?.querySelectorAll<HTMLElement>(selector) ?? [])
+      .filter(cell => cell.dataset.columnKey === String(column.accessor));
+
+  const getRenderedWidth = (column: Column<T>) =>
+    getCells(column, 'thead th')[0]?.getBoundingClientRect().width ?? 0;
+
+  // Columns without a width are measured once, before the first resize
+  const measureUnsizedColumns = (): ColumnWidths<T> => {
+    const measured: ColumnWidths<T> = {};
+    columns.forEach(column => {
+      if (widths[column.accessor] !== undefined || column.width !== undefined) return;
+      const width = getRenderedWidth(column);
+      if (width > 0) measured[column.accessor] = Math.round(width);
+    });
+    return measured;
+  };
+
+  const commitWidth = (column: Column<T>, width: number, baseWidths: ColumnWidths<T> = measureUnsizedColumns()) => {
+    onWidthsChange({ ...baseWidths, ...widths, [column.accessor]: clampWidth(column, width) });
+  };
+
+  const autoFit = (column: Column<T>) => {
+    const contentWidth = Math.max(0, ...getCells(column).map(measureContentWidth));
+    if (contentWidth > 0) commitWidth(column, Math.ceil(contentWidth));
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const current = dragRef.current;
+      const column = columns.find(c => c.accessor === current?.key);
+      if (!current || !column) return;
+      setDrag({ ...current, width: clampWidth(column, current.startWidth + event.clientX - current.startX) });
+    };
+
+    const handleMouseUp = () => {
+      const current = dragRef.current;
+      const column = columns.find(c => c.accessor === current?.key);
+      setDrag(null);
+      if (current && column) commitWidth(column, current.width, current.baseWidths);
+      // The click that ends a drag must not sort the column
+      const suppressClick = (event: MouseEvent) => event.stopPropagation();
+      window.addEventListener('click', suppressClick, { capture: true, once: true });
+      setTimeout(() => window.removeEventListener('click', suppressClick, true), 0);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag !== null]);
+
+  const getResizeHandleProps = (column: Column<T>) => {
+    const width = getColumnWidth(column);
+    return {
+      role: 'separator' as const,
+      'aria-orientation': 'vertical' as const,
+      'aria-label': `Resize ${column.header} column`,
+      'aria-valuenow': width,
+      'aria-valuemin': column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH,
+      'aria-valuemax': column.maxWidth,
+      tabIndex: 0,
+      onClick: (event: React.MouseEvent) => event.stopPropagation(),
+      onMouseDown: (event: React.MouseEvent) => {
+        if (event.button !== 0) return;
+        event.preventDefault();
+        event.stopPropagation();
+        const startWidth = width ?? getRenderedWidth(column);
+        setDrag({
+          key: column.accessor,
+          startX: event.clientX,
+          startWidth,
+          width: clampWidth(column, startWidth),
+          baseWidths: measureUnsizedColumns(),
+        });
+      },
+      onDoubleClick: (event: React.MouseEvent) => {
+        event.stopPropagation();
+        autoFit(column);
+      },
+      onKeyDown: (event: React.KeyboardEvent) => {
+        const step = event.shiftKey ? KEYBOARD_LARGE_STEP : KEYBOARD_STEP;
+        const currentWidth = width ?? getRenderedWidth(column);
+        if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+          commitWidth(column, currentWidth + (event.key === 'ArrowRight' ? step : -step));
+        } else if (event.key === 'Enter') {
+          autoFit(column);
+        } else {
+          return;
+        }
+        event.preventDefault();
+        event.stopPropagation();
+      },
+    };
+  };
+
+  return {
+    getColumnWidth,
+    getResizeHandleProps,
+    autoFit,
+    resizingKey: drag?.key ?? null,
+  };
+};
@@ -0,0 +1,36 @@
+import { useState, useRef, useCallback } from 'react';
+
+interface UseControllableStateProps<S> {
+  // When defined, the state is controlled and this value always wins
+  value?: S;
+  defaultValue: S;
+  onChange?: (value: S) => void;
+}
+
+/**
+ * State that can be owned by the component (uncontrolled) or by its parent
+ * (controlled, when `value` is defined). The setter accepts a value or an
+ * updater like useState and calls onChange whenever the value changes, in both
+ * modes. Updaters see the latest value even before the next render, so several
+ * updates in one event compose.
+ */
+export const useControllableState = <S,>({ value, defaultValue, onChange }: UseControllableStateProps<S>) => {
+  const [internalValue, setInternalValue] = useState<S>(defaultValue);
+  const isControlled = value !== undefined;
+  const currentValue = isControlled ? value : internalValue;
+
+  const valueRef = useRef(currentValue);
+  valueRef.current = currentValue;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const setValue = useCallback((next: S | ((prev: S) => S)) => {
+    const resolved = typeof next === 'function' ? (next as (prev: S) => S)(valueRef.current) : next;
+    if (Object.is(resolved, valueRef.current)) return;
+    valueRef.current = resolved;
+    if (!isControlled) setInternalValue(resolved);
+    onChangeRef.current?.(resolved);
+  }, [isControlled]);
+
+  return [currentValue, setValue, isControlled] as const;
+};
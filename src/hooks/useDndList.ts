@@ -1,10 +1,59 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect } from 'react';
 
-export const useDndList = <T,>(initialItems: T[]) => {
+interface DndListOptions<T> {
+  // Arrow keys that move a focused item: Alt+Up/Down (vertical, default) or Alt+Left/Right (horizontal)
+  orientation?: 'vertical' | 'horizontal';
+  // Called after every move with the reordered items
+  onReorder?: (items: T[], fromIndex: number, toIndex: number) => void;
+  // Used for the screen reader announcement after a keyboard move
+  getItemLabel?: (item: T) => string;
+  // How long a touch has to rest on an item before it can be dragged, so lists still scroll
+  touchDelay?: number;
+}
+
+const TOUCH_MOVE_TOLERANCE = 10;
+
+export const useDndList = <T,>(initialItems: T[], {
+  orientation = 'vertical',
+  onReorder,
+  getItemLabel,
+  touchDelay = 250,
+}: DndListOptions<T> = {}) => {
   const [items, setItems] = useState(initialItems);
   const dragItemIndex = useRef<number | null>(null);
   const dragOverItemIndex = useRef<number | null>(null);
   const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const onReorderRef = useRef(onReorder);
+  onReorderRef.current = onReorder;
+
+  // Element to focus once a keyboard move has rendered
+  const pendingFocus = useRef<{ container: HTMLElement; index: number } | null>(null);
+
+  const moveItem = useCallback((fromIndex: number, toIndex: number) => {
+    const current = itemsRef.current;
+    if (fromIndex === toIndex || toIndex < 0 || toIndex >= current.length) return;
+    const newItems = [...current];
+    const movedItem = newItems.splice(fromIndex, 1)[0];
+    newItems.splice(toIndex, 0, movedItem);
+    itemsRef.current = newItems;
+    setItems(newItems);
+    onReorderRef.current?.(newItems, fromIndex, toIndex);
+    if (getItemLabel) {
+      setAnnouncement(`Moved ${getItemLabel(movedItem)} to position ${toIndex + 1} of ${newItems.length}`);
+    }
+  }, [getItemLabel]);
+
+  useEffect(() => {
+    const target = pendingFocus.current;
+    if (!target) return;
+    pendingFocus.current = null;
+    target.container.querySelector<HTMLElement>(`[data-dnd-index="${target.index}"]`)?.focus();
+  }, [items]);
 
   const handleDragStart = useCallback((index: number) => {
     dragItemIndex.current = index;
@@ -13,36 +62,116 @@ export const useDndList = <T,>(initialItems: T[]) => {
 
   const handleDragEnter = useCallback((index: number) => {
     dragOverItemIndex.current = index;
+    setDropIndex(index);
   }, []);
 
   const handleDragEnd = useCallback(() => {
     if (dragItemIndex.current !== null && dragOverItemIndex.current !== null) {
-      const newItems = [...items];
-      const dragItemContent = newItems.splice(dragItemIndex.current, 1)[0];
-      newItems.splice(dragOverItemIndex.current, 0, dragItemContent);
-      setItems(newItems);
+      moveItem(dragItemIndex.current, dragOverItemIndex.current);
     }
     dragItemIndex.current = null;
     dragOverItemIndex.current = null;
     setDraggingIndex(null);
-  }, [items]);
+    setDropIndex(null);
+  }, [moveItem]);
+
+  // Touch: HTML5 drag events don't fire for touch, so a long press starts a drag that follows the finger
+  const touchStart = useRef<{ index: number; x: number; y: number; timer: ReturnType<typeof setTimeout> } | null>(null);
+
+  useEffect(() => {
+    if (draggingIndex === null || !touchStart.current) return;
+
+    const handleTouchMove = (event: TouchEvent) => {
+      // Non-passive, so the page doesn't scroll while an item is dragged
+      event.preventDefault();
+      const touch = event.touches[0];
+      const element = document.elementFromPoint?.(touch.clientX, touch.clientY);
+      const target = element?.closest<HTMLElement>('[data-dnd-index]');
+      if (target) handleDragEnter(Number(target.dataset.dndIndex));
+    };
+    const handleTouchEnd = () => {
+      touchStart.current = null;
+      handleDragEnd();
+    };
+
+    document.addEventListener('touchmove', handleTouchMove, { passive: false });
+    document.addEventListener('touchend', handleTouchEnd);
+    document.addEventListener('touchcancel', handleTouchEnd);
+    return () => {
+      document.removeEventListener('touchmove', handleTouchMove);
+      document.removeEventListener('touchend', handleTouchEnd);
+      document.removeEventListener('touchcancel', handleTouchEnd);
+    };
+  }, [draggingIndex, handleDragEnter, handleDragEnd]);
+
+  const cancelTouch = () => {
+    if (touchStart.current && dragItemIndex.current === null) {
+      clearTimeout(touchStart.current.timer);
+      touchStart.current = null;
+    }
+  };
+
+  const previousKey = orientation === 'horizontal' ? 'ArrowLeft' : 'ArrowUp';
+  const nextKey = orientation === 'horizontal' ? 'ArrowRight' : 'ArrowDown';
 
   const getDraggableProps = (index: number) => ({
     draggable: true,
-    onDragStart: () => handleDragStart(index),
+    'data-dnd-index': index,
+    onDragStart: (e: React.DragEvent) => {
+      // Firefox only starts a drag with data set
+      e.dataTransfer?.setData('text/plain', '');
+      if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+      handleDragStart(index);
+    },
     onDragEnter: () => handleDragEnter(index),
     onDragEnd: handleDragEnd,
     onDragOver: (e: React.DragEvent) => e.preventDefault(),
+    onTouchStart: (e: React.TouchEvent) => {
+      const touch = e.touches[0];
+      const timer = setTimeout(() => {
+        dragOverItemIndex.current = index;
+        handleDragStart(index);
+      }, touchDelay);
+      touchStart.current = { index, x: touch.clientX, y: touch.clientY, timer };
+    },
+    onTouchMove: (e: React.TouchEvent) => {
+      const start = touchStart.current;
+      const touch = e.touches[0];
+      if (start && Math.hypot(touch.clientX - start.x, touch.clientY - start.y) > TOUCH_MOVE_TOLERANCE) cancelTouch();
+    },
+    onTouchEnd: cancelTouch,
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => {
+      // Only the item itself; controls inside it keep their own Alt+Arrow behaviour
+      if (e.target !== e.currentTarget || !e.altKey || (e.key !== previousKey && e.key !== nextKey)) return;
+      e.preventDefault();
+      const toIndex = index + (e.key === nextKey ? 1 : -1);
+      if (toIndex < 0 || toIndex >= itemsRef.current.length) return;
+      if (e.currentTarget.parentElement) {
+        pendingFocus.current = { container: e.currentTarget.parentElement, index: toIndex };
+      }
+      moveItem(index, toIndex);
+    },
     style: {
       cursor: 'grab',
       opacity: draggingIndex === index ? 0.5 : 1,
     },
     isDragging: draggingIndex === index,
   });
-  
+
   const getContainerProps = () => ({
     onDragOver: (e: React.DragEvent) => e.preventDefault(),
   });
 
-  return { items, setItems, getDraggableProps, getContainerProps };
-};
\ No newline at end of file
+  return {
+    items,
+    setItems,
+    getDraggableProps,
+    getContainerProps,
+    moveItem,
+    draggingIndex,
+    // Index the dragged item will be moved to when dropped
+    dropIndex,
+    // Screen reader text for the last keyboard move; empty without getItemLabel
+    announcement,
+  };
+};
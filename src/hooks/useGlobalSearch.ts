@@ -1,5 +1,6 @@
 import { useState, useMemo, useCallback } from 'react';
 import type { Column, GlobalSearchConfig } from '../types';
+import { getSearchableColumns, scoreSearchMatch } from '../utils/globalSearchUtils';
 
 interface UseGlobalSearchProps<T> {
   data: T[];
@@ -14,82 +15,21 @@ export const useGlobalSearch = <T extends object>({
 }: UseGlobalSearchProps<T>) => {
   const [searchQuery, setSearchQuery] = useState('');
 
-  const searchableColumns = useMemo(() => {
-    if (config.searchableColumns && config.searchableColumns.length > 0) {
-      // Filter columns based on provided searchable column names
-      return columns.filter(col => 
-        config.searchableColumns?.includes(String(col.accessor))
-      );
-    }
-    // If no specific columns specified, use all columns that are filterable or don't have filterable: false
-    return columns.filter(col => col.filterable !== false);
-  }, [columns, config.searchableColumns]);
+  const searchableColumns = useMemo(
+    () => getSearchableColumns(columns, config.searchableColumns),
+    [columns, config.searchableColumns]
+  );
 
   const filteredData = useMemo(() => {
     if (!config.enabled || !searchQuery.trim()) {
       return data;
     }
-
-    const query = searchQuery.toLowerCase().trim();
-
-    return data.filter(item => {
-      return searchableColumns.some(column => {
-        const value = item[column.accessor];
-        
-        if (value == null) return false;
-
-        // Handle different data types
-        let searchableValue: string;
-        
-        if (typeof value === 'string') {
-          searchableValue = value;
-        } else if (typeof value === 'number') {
-          searchableValue = value.toString();
-        } else if (typeof value === 'boolean') {
-          searchableValue = value ? 'true' : 'false';
-        } else if (column.dataType === 'date' || column.dataType === 'datetime') {
-          try {
-            // For dates, also search in formatted date strings
-            if (column.dateOptions) {
-              searchableValue = new Intl.DateTimeFormat(
-                column.dateOptions.locale,
-                {
-                  dateStyle: column.dateOptions.dateStyle,
-                  timeStyle: column.dateOptions.timeStyle,
-                  timeZone: 'UTC',
-                }
-              ).format(new Date(String(value)));
-            } else {
-              searchableValue = new Date(String(value)).toLocaleDateString();
-            }
-          } catch {
-            searchableValue = String(value);
-          }
-        } else if (column.dataType === 'currency' && typeof value === 'number') {
-          // For currency, search in formatted currency strings
-          if (column.currencyOptions) {
-            try {
-              searchableValue = new Intl.NumberFormat(
-                column.currencyOptions.locale,
-                {
-                  style: 'currency',
-                  currency: column.currencyOptions.currency,
-                }
-              ).format(value);
-            } catch {
-              searchableValue = value.toString();
-            }
-          } else {
-            searchableValue = value.toString();
-          }
-        } else {
-          searchableValue = String(value);
-        }
-
-        return searchableValue.toLowerCase().includes(query);
-      });
-    });
-  }, [data, searchQuery, searchableColumns, config.enabled]);
+    const scored = data
+      .map(item => ({ item, score: scoreSearchMatch(item, searchableColumns, searchQuery, config.mode) }))
+      .filter(({ score }) => score > 0);
+    if (config.rankByRelevance) scored.sort((a, b) => b.score - a.score);
+    return scored.map(({ item }) => item);
+  }, [data, searchQuery, searchableColumns, config.enabled, config.mode, config.rankByRelevance]);
 
   const handleSearchChange = useCallback((query: string) => {
     setSearchQuery(query);
@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { InfiniteCursor, InfiniteScrollConfig, LoadMoreParams } from '../types';
+
+interface UseInfiniteLoaderProps<T> {
+  config?: InfiniteScrollConfig<T>;
+  params: LoadMoreParams<T>;
+}
+
+/**
+ * Accumulates rows from a cursor-based loadMore provider. Changing the params
+ * (sort, filters or search) discards the loaded rows and starts again from a
+ * null cursor; responses that belong to an earlier params set are ignored.
+ */
+export const useInfiniteLoader = <T,>({ config, params }: UseInfiniteLoaderProps<T>) => {
+  const [rows, setRows] = useState<T[]>([]);
+  const [hasMore, setHasMore] = useState(!!config);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [resetToken, setResetToken] = useState(0);
+
+  const loadMoreRef = useRef(config?.loadMore);
+  loadMoreRef.current = config?.loadMore;
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+
+  const cursorRef = useRef<InfiniteCursor>(null);
+  const generationRef = useRef(0);
+  const inFlightRef = useRef(false);
+  const hasMoreRef = useRef(!!config);
+
+  const isEnabled = !!config;
+  const paramsKey = JSON.stringify(params);
+
+  const fetchChunk = useCallback((generation: number) => {
+    const loadMore = loadMoreRef.current;
+    if (!loadMore || inFlightRef.current || !hasMoreRef.current) return;
+
+    inFlightRef.current = true;
+    setIsLoading(true);
+    setError(null);
+
+    loadMore(cursorRef.current, paramsRef.current)
+      .then(result => {
+        if (generation !== generationRef.current) return;
+        const newRows = Array.isArray(result?.rows) ? result.rows : [];
+        cursorRef.current = result?.nextCursor ?? null;
+        hasMoreRef.current = !!result?.hasMore;
+        setRows(prev => [...prev, ...newRows]);
+        setHasMore(hasMoreRef.current);
+      })
+      .catch(err => {
+        if (generation !== generationRef.current) return;
+        setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (generation !== generationRef.current) return;
+        inFlightRef.current = false;
+        setIsLoading(false);
+      });
+  }, []);
+
+  // Start over from the first chunk whenever sort, filters or search change
+  useEffect(() => {
+    if (!isEnabled) return;
+    const generation = ++generationRef.current;
+    cursorRef.current = null;
+    hasMoreRef.current = true;
+    inFlightRef.current = false;
+    setRows([]);
+    setHasMore(true);
+    fetchChunk(generation);
+  }, [isEnabled, paramsKey, resetToken, fetchChunk]);
+
+  // Also used to retry a failed chunk, continuing from the last good cursor
+  const loadNext = useCallback(() => {
+    fetchChunk(generationRef.current);
+  }, [fetchChunk]);
+
+  const reload = useCallback(() => {
+    setResetToken(token => token + 1);
+  }, []);
+
+  return { rows, hasMore, isLoading, error, loadNext, reload };
+};
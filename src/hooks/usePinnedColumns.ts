@@ -0,0 +1,105 @@
+import { useState, useMemo, useLayoutEffect, useCallback } from 'react';
+import type { Column, ColumnPinSide, PinnedColumns } from '../types';
+
+interface UsePinnedColumnsProps<T> {
+  // Visible columns in their configured order
+  columns: Column<T>[];
+  // Pin state from the view or the table's props; Column.pinned applies while it is undefined
+  pinnedColumns: PinnedColumns<T> | undefined;
+  tableRef: React.RefObject<HTMLTableElement>;
+  // Values that change the rendered column widths, e.g. the widths state and the current rows
+  layoutDeps?: unknown[];
+}
+
+interface StickyOffsets {
+  left: Record<string, number>;
+  right: Record<string, number>;
+}
+
+const NO_OFFSETS: StickyOffsets = { left: {}, right: {} };
+
+const sameOffsets = (a: StickyOffsets, b: StickyOffsets) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Orders pinned columns to the table edges and works out their sticky offsets
+ * from the rendered header cells. Left offsets start after the row selection
+ * column, which is always sticky. Header cells are found through their
+ * data-column-key attribute, the selection header through data-selection-column.
+ */
+export const usePinnedColumns = <T,>({ columns, pinnedColumns, tableRef, layoutDeps = [] }: UsePinnedColumnsProps<T>) => {
+  const getPinSide = useCallback((column: Column<T>): ColumnPinSide | undefined => {
+    if (!pinnedColumns) return column.pinned;
+    if (pinnedColumns.left?.includes(column.accessor)) return 'left';
+    if (pinnedColumns.right?.includes(column.accessor)) return 'right';
+    return undefined;
+  }, [pinnedColumns]);
+
+  const orderedColumns = useMemo(() => [
+    ...columns.filter(column => getPinSide(column) === 'left'),
+    ...columns.filter(column => getPinSide(column) === undefined),
+    ...columns.filter(column => getPinSide(column) === 'right'),
+  ], [columns, getPinSide]);
+
+  const leftColumns = orderedColumns.filter(column => getPinSide(column) === 'left');
+  const rightColumns = orderedColumns.filter(column => getPinSide(column) === 'right');
+
+  const [offsets, setOffsets] = useState<StickyOffsets>(NO_OFFSETS);
+
+  const measure = useCallback(() => {
+    const table = tableRef.current;
+    if (!table) return;
+    const getHeaderWidth = (column: Column<T>) =>
+      Array.from(table.querySelectorAll<HTMLElement>('thead th[data-column-key]'))
+        .find(cell => cell.dataset.columnKey === String(column.accessor))
+        ?.getBoundingClientRect().width ?? 0;
+
+    const next: StickyOffsets = { left: {}, right: {} };
+    let left = table.querySelector<HTMLElement>('thead th[data-selection-column]')?.getBoundingClientRect().width ?? 0;
+    leftColumns.forEach(column => {
+      next.left[String(column.accessor)] = left;
+      left += getHeaderWidth(column);
+    });
+    let right = 0;
+    [...rightColumns].reverse().forEach(column => {
+      next.right[String(column.accessor)] = right;
+      right += getHeaderWidth(column);
+    });
+    setOffsets(current => (sameOffsets(current, next) ? current : next));
+  }, [tableRef, leftColumns.map(c => c.accessor).join('|'), rightColumns.map(c => c.accessor).join('|')]);
+
+  useLayoutEffect(() => {
+    measure();
+  }, [measure, orderedColumns, ...layoutDeps]);
+
+  // Auto-sized columns change width with the viewport and their content
+  useLayoutEffect(() => {
+    const table = tableRef.current;
+    if (!table || typeof ResizeObserver === 'undefined' || (leftColumns.length === 0 && rightColumns.length === 0)) return;
+    const observer = new ResizeObserver(() => measure());
+    table.querySelectorAll('thead th').forEach(cell => observer.observe(cell));
+    return () => observer.disconnect();
+  }, [measure, orderedColumns]);
+
+  /**
+   * Position and edge classes for a pinned column's cells; empty for other columns
+   */
+  const getPinnedCellProps = (column: Column<T>): { style?: React.CSSProperties; className: string } => {
+    const side = getPinSide(column);
+    if (!side) return { className: '' };
+    const key = String(column.accessor);
+    const isEdge = side === 'left'
+      ? leftColumns[leftColumns.length - 1] === column
+      : rightColumns[0] === column;
+    return {
+      style: { position: 'sticky', [side]: offsets[side][key] ?? 0 },
+      className: `z-10 ${isEdge ? (side === 'left' ? 'border-r border-gray-700' : 'border-l border-gray-700') : ''}`,
+    };
+  };
+
+  return {
+    orderedColumns,
+    getPinSide,
+    getPinnedCellProps,
+    hasPinnedColumns: leftColumns.length > 0 || rightColumns.length > 0,
+  };
+};
@@ -0,0 +1,82 @@
+import { useState, useMemo, useRef, useCallback } from 'react';
+import type { RowDetailRenderer, RowId } from '../types';
+import { useControllableState } from './useControllableState';
+
+interface UseRowExpansionProps<T> {
+  renderRowDetail?: RowDetailRenderer<T>;
+  // Controlled expanded row ids; uncontrolled when undefined
+  expandedRows?: RowId[];
+  onExpandedRowsChange?: (expandedRows: RowId[]) => void;
+}
+
+export type RowDetailState =
+  | { status: 'ready'; content: React.ReactNode }
+  | { status: 'loading' }
+  | { status: 'error'; error: Error };
+
+const NO_EXPANDED_ROWS: RowId[] = [];
+
+const isPromiseLike = (value: unknown): value is PromiseLike<React.ReactNode> =>
+  typeof value === 'object' && value !== null && typeof (value as PromiseLike<unknown>).then === 'function';
+
+/**
+ * Expanded state and detail content for expandable rows. Synchronous details
+ * are rendered on every render; asynchronous ones are loaded when a row is
+ * first expanded and cached per row object, so new data loads them again.
+ */
+export const useRowExpansion = <T,>({ renderRowDetail, expandedRows, onExpandedRowsChange }: UseRowExpansionProps<T>) => {
+  const [expanded, setExpanded] = useControllableState<RowId[]>({
+    value: expandedRows,
+    defaultValue: NO_EXPANDED_ROWS,
+    onChange: onExpandedRowsChange,
+  });
+  const expandedSet = useMemo(() => new Set(expanded), [expanded]);
+
+  const loads = useRef(new WeakMap<object, RowDetailState>());
+  const [, setLoadVersion] = useState(0);
+
+  const isRowExpanded = useCallback((rowId: RowId) => expandedSet.has(rowId), [expandedSet]);
+
+  const toggleRowExpanded = useCallback((rowId: RowId, next?: boolean) => {
+    setExpanded(current => {
+      const isExpanded = current.includes(rowId);
+      const shouldExpand = next ?? !isExpanded;
+      if (shouldExpand === isExpanded) return current;
+      return shouldExpand ? [...current, rowId] : current.filter(id => id !== rowId);
+    });
+  }, [setExpanded]);
+
+  const getRowDetail = (row: T): RowDetailState => {
+    if (!renderRowDetail) return { status: 'ready', content: null };
+    const cached = loads.current.get(row as object);
+    if (cached) return cached;
+
+    const result = renderRowDetail(row);
+    if (!isPromiseLike(result)) return { status: 'ready', content: result };
+
+    const settle = (state: RowDetailState) => {
+      loads.current.set(row as object, state);
+      setLoadVersion(version => version + 1);
+    };
+    loads.current.set(row as object, { status: 'loading' });
+    result.then(
+      content => settle({ status: 'ready', content }),
+      error => settle({ status: 'error', error: error instanceof Error ? error : new Error(String(error)) })
+    );
+    return { status: 'loading' };
+  };
+
+  // Forgets a failed (or loaded) detail so the next render loads it again
+  const reloadRowDetail = (row: T) => {
+    loads.current.delete(row as object);
+    setLoadVersion(version => version + 1);
+  };
+
+  return {
+    expandedRows: expanded,
+    isRowExpanded,
+    toggleRowExpanded,
+    getRowDetail,
+    reloadRowDetail,
+  };
+};
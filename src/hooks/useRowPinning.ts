@@ -0,0 +1,54 @@
+import { useCallback } from 'react';
+import type { PinnedRows, RowId, RowPinSide } from '../types';
+import { useControllableState } from './useControllableState';
+
+interface UseRowPinningProps {
+  // Controlled pinned row ids; uncontrolled when undefined
+  pinnedRows?: PinnedRows;
+  onPinnedRowsChange?: (pinnedRows: PinnedRows) => void;
+}
+
+const NO_PINNED_ROWS: PinnedRows = {};
+
+/**
+ * Pinned row state. A row is pinned to one side at a time, in the order it
+ * was pinned.
+ */
+export const useRowPinning = ({ pinnedRows, onPinnedRowsChange }: UseRowPinningProps) => {
+  const [pinned, setPinned] = useControllableState<PinnedRows>({
+    value: pinnedRows,
+    defaultValue: NO_PINNED_ROWS,
+    onChange: onPinnedRowsChange,
+  });
+
+  const getRowPinSide = useCallback((rowId: RowId): RowPinSide | undefined => {
+    if (pinned.top?.includes(rowId)) return 'top';
+    if (pinned.bottom?.includes(rowId)) return 'bottom';
+    return undefined;
+  }, [pinned]);
+
+  const unpinRow = useCallback((rowId: RowId) => {
+    setPinned(current => {
+      if (!current.top?.includes(rowId) && !current.bottom?.includes(rowId)) return current;
+      return {
+        top: (current.top ?? []).filter(id => id !== rowId),
+        bottom: (current.bottom ?? []).filter(id => id !== rowId),
+      };
+    });
+  }, [setPinned]);
+
+  const pinRow = useCallback((rowId: RowId, side: RowPinSide = 'top') => {
+    setPinned(current => {
+      const top = (current.top ?? []).filter(id => id !== rowId);
+      const bottom = (current.bottom ?? []).filter(id => id !== rowId);
+      return side === 'top' ? { top: [...top, rowId], bottom } : { top, bottom: [...bottom, rowId] };
+    });
+  }, [setPinned]);
+
+  return {
+    pinnedRows: pinned,
+    getRowPinSide,
+    pinRow,
+    unpinRow,
+  };
+};
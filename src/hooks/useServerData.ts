@@ -0,0 +1,62 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { FetchDataFn, FetchDataParams } from '../types';
+
+interface UseServerDataProps<T> {
+  fetchData?: FetchDataFn<T>;
+  params: FetchDataParams<T>;
+}
+
+/**
+ * Runs the fetchData callback whenever the request parameters change and keeps
+ * track of the latest rows, the server-reported total, and loading/error state.
+ * Responses from superseded requests are ignored so fast typing in a filter
+ * never shows stale rows.
+ */
+export const useServerData = <T,>({ fetchData, params }: UseServerDataProps<T>) => {
+  const [rows, setRows] = useState<T[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(!!fetchData);
+  const [error, setError] = useState<Error | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  // Keep the latest callback in a ref so inline functions don't retrigger requests
+  const fetchDataRef = useRef(fetchData);
+  fetchDataRef.current = fetchData;
+  const requestIdRef = useRef(0);
+
+  const isEnabled = !!fetchData;
+  const paramsKey = JSON.stringify(params);
+
+  useEffect(() => {
+    const currentFetch = fetchDataRef.current;
+    if (!currentFetch) return;
+
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    // Started inside the chain so a synchronous throw or a non-promise result still settles it
+    Promise.resolve()
+      .then(() => currentFetch(params))
+      .then(result => {
+        if (requestId !== requestIdRef.current) return;
+        setRows(Array.isArray(result?.rows) ? result.rows : []);
+        setTotalCount(typeof result?.totalCount === 'number' ? result.totalCount : 0);
+      })
+      .catch(err => {
+        if (requestId !== requestIdRef.current) return;
+        setError(err instanceof Error ? err : new Error(String(err)));
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) {
+          setIsLoading(false);
+        }
+      });
+  }, [isEnabled, paramsKey, reloadToken]);
+
+  const refetch = useCallback(() => {
+    setReloadToken(token => token + 1);
+  }, []);
+
+  return { rows, totalCount, isLoading, error, refetch };
+};
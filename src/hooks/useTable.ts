@@ -1,5 +1,17 @@
-import { useState, useMemo, useCallback, useEffect } from 'react';
-import type { Column, SortConfig, FilterConfig, SortDirection, FilterOperator, StringFilterOperator, NumberFilterOperator, DisplayRow, GroupHeaderRow, DateFilterOperator, CollectionFilterOperator } from '../types';
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import type { Column, SortConfig, FilterConfig, SortDirection, FilterOperator, FetchDataFn, InfiniteScrollConfig, FilterGroup, AggregateValues, PivotConfig, GroupByEntry, RowId, TreeDataConfig, TreeRowInfo, PinnedRows, GlobalSearchMode } from '../types';
+import { useServerData } from './useServerData';
+import { useInfiniteLoader } from './useInfiniteLoader';
+import { useControllableState } from './useControllableState';
+import { matchesFilter, evaluateFilterNode } from '../utils/filterUtils';
+import { operatorRequiresValue } from '../utils/filterOperatorRegistry';
+import { computeAggregates } from '../utils/aggregationUtils';
+import { groupRows, getGroupByKeys } from '../utils/groupingUtils';
+import { createRowComparator } from '../utils/sortUtils';
+import { buildPivot } from '../utils/pivotUtils';
+import { getSearchableColumns, scoreSearchMatch } from '../utils/globalSearchUtils';
+import { compileSearchQuery } from '../utils/searchQueryUtils';
+import { buildTree, filterTree, sortTree, flattenTree, getDescendantRows } from '../utils/treeUtils';
 
 
 interface UseTableProps<T> {
@@ -7,48 +19,161 @@ interface UseTableProps<T> {
   allColumns: Column<T>[];
   initialSort?: SortConfig<T>[];
   initialFilters?: FilterConfig<T>[];
+  initialFilterExpression?: FilterGroup<T>;
   initialPageSize?: number;
-  groupByKeys: (keyof T)[];
+  // Grouping levels; plain keys or GroupByLevel objects with ordering and blank options
+  groupByKeys: GroupByEntry<T>[];
+  // Server-side mode: when provided, filtering, sorting and pagination are delegated to the server
+  fetchData?: FetchDataFn<T>;
+  // Infinite scroll mode: rows are accumulated chunk by chunk from a cursor-based provider
+  infiniteScroll?: InfiniteScrollConfig<T>;
+  // Global search text; rows must contain it in one of searchableColumns (all filterable columns when empty)
+  searchQuery?: string;
+  searchableColumns?: string[];
+  searchMode?: GlobalSearchMode;
+  // Reads field:value terms, -exclusions and "phrases" in searchQuery
+  searchQueryLanguage?: boolean;
+  // Orders matching rows by relevance while no column is sorted
+  rankSearchResults?: boolean;
+  // Pivot layout; when set, pivotData holds the cross-tab of the filtered rows
+  pivot?: PivotConfig<T>;
+  // Controlled state: passing a value makes the caller own it; callbacks fire in both modes
+  sortConfig?: SortConfig<T>[];
+  onSortChange?: (sortConfig: SortConfig<T>[]) => void;
+  filters?: FilterConfig<T>[];
+  onFiltersChange?: (filters: FilterConfig<T>[]) => void;
+  page?: number;
+  pageSize?: number;
+  onPageChange?: (page: number, pageSize: number) => void;
+  collapsedGroups?: string[];
+  onCollapsedGroupsChange?: (collapsedGroups: string[]) => void;
+  // Tree data mode: rows nest under their parents instead of being grouped
+  treeData?: TreeDataConfig<T>;
+  getRowId?: (row: T, index: number) => RowId;
+  expandedTreeRows?: RowId[];
+  onExpandedTreeRowsChange?: (expandedTreeRows: RowId[]) => void;
+  // Rows shown outside the paginated rows, whatever the sort, filters and page
+  pinnedRows?: PinnedRows;
 }
 
+const NO_TREE_INFO = new Map<never, TreeRowInfo>();
+
 export const useTable = <T,>({
   data,
   allColumns,
   initialSort = [],
   initialFilters = [],
+  initialFilterExpression,
   initialPageSize = 10,
   groupByKeys = [],
+  fetchData,
+  infiniteScroll,
+  searchQuery = '',
+  searchableColumns,
+  searchMode,
+  searchQueryLanguage = false,
+  rankSearchResults = false,
+  pivot,
+  sortConfig: sortConfigProp,
+  onSortChange,
+  filters: filtersProp,
+  onFiltersChange,
+  page: pageProp,
+  pageSize: pageSizeProp,
+  onPageChange,
+  collapsedGroups: collapsedGroupsProp,
+  onCollapsedGroupsChange,
+  treeData,
+  getRowId,
+  expandedTreeRows: expandedTreeRowsProp,
+  onExpandedTreeRowsChange,
+  pinnedRows,
 }: UseTableProps<T>) => {
-  const [sortConfig, setSortConfig] = useState<SortConfig<T>[]>(initialSort);
-  const [filters, setFilters] = useState<FilterConfig<T>[]>(initialFilters);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(initialPageSize);
-  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
-
-  // Make hook reactive to changes in initial props from view switching
+  const isServerPaged = !!fetchData;
+  const isInfinite = !!infiniteScroll;
+  // In both remote modes the rows arrive already filtered and sorted
+  const isManual = isServerPaged || isInfinite;
+  const [sortConfig, setSortConfig, isSortControlled] = useControllableState<SortConfig<T>[]>({
+    value: sortConfigProp,
+    defaultValue: initialSort,
+    onChange: onSortChange,
+  });
+  const [filters, setFilters, isFiltersControlled] = useControllableState<FilterConfig<T>[]>({
+    value: filtersProp,
+    defaultValue: initialFilters,
+    onChange: onFiltersChange,
+  });
+  const [filterExpression, setFilterExpressionState] = useState<FilterGroup<T> | undefined>(initialFilterExpression);
+  // Page and page size report through one onPageChange, so their setters go through setPagination
+  const [currentPage, setCurrentPageState] = useControllableState<number>({ value: pageProp, defaultValue: 1 });
+  const [pageSize, setPageSizeState] = useControllableState<number>({ value: pageSizeProp, defaultValue: initialPageSize });
+  const [collapsedGroupPaths, setCollapsedGroupPaths] = useControllableState<string[]>({
+    value: collapsedGroupsProp,
+    defaultValue: [],
+    onChange: onCollapsedGroupsChange,
+  });
+  const collapsedGroups = useMemo(() => new Set(collapsedGroupPaths), [collapsedGroupPaths]);
+  const [expandedTreeRowIds, setExpandedTreeRowIds] = useControllableState<RowId[]>({
+    value: expandedTreeRowsProp,
+    defaultValue: [],
+    onChange: onExpandedTreeRowsChange,
+  });
+
+  const paginationRef = useRef({ currentPage, pageSize });
+  paginationRef.current = { currentPage, pageSize };
+  const onPageChangeRef = useRef(onPageChange);
+  onPageChangeRef.current = onPageChange;
+
+  const setPagination = useCallback((page: number, size: number) => {
+    const previous = paginationRef.current;
+    if (page === previous.currentPage && size === previous.pageSize) return;
+    paginationRef.current = { currentPage: page, pageSize: size };
+    setCurrentPageState(page);
+    setPageSizeState(size);
+    onPageChangeRef.current?.(page, size);
+  }, [setCurrentPageState, setPageSizeState]);
+
+  const setCurrentPage = useCallback(
+    (page: number) => setPagination(page, paginationRef.current.pageSize),
+    [setPagination]
+  );
+
+  // Make hook reactive to changes in initial props from view switching; controlled state is left alone
   useEffect(() => {
-    setSortConfig(initialSort);
+    if (!isSortControlled) setSortConfig(initialSort);
   }, [initialSort]);
 
   useEffect(() => {
-    setFilters(initialFilters);
+    if (!isFiltersControlled) setFilters(initialFilters);
   }, [initialFilters]);
 
-  // Reset pagination and collapsed groups when grouping changes
   useEffect(() => {
+    setFilterExpressionState(initialFilterExpression);
+  }, [initialFilterExpression]);
+
+  // Reset pagination and collapsed groups when grouping changes (not on mount, so restored state survives)
+  const groupingKey = JSON.stringify(groupByKeys);
+  const previousGroupingKey = useRef(groupingKey);
+  useEffect(() => {
+    if (previousGroupingKey.current === groupingKey) return;
+    previousGroupingKey.current = groupingKey;
     setCurrentPage(1);
-    setCollapsedGroups(new Set());
-  }, [JSON.stringify(groupByKeys)]);
+    setCollapsedGroupPaths([]);
+  }, [groupingKey]);
 
   const handleFilterChange = useCallback((key: keyof T, operator: FilterOperator, value: string, secondValue?: string, forceRemove?: boolean) => {
     setCurrentPage(1); // Reset to first page on filter change
     setFilters(prevFilters => {
       const existingFilterIndex = prevFilters.findIndex(f => f.key === key);
 
-      // For isEmpty operator, we don't need a value, so don't remove the filter
+      // For operators without a value (isEmpty, value-less custom operators), don't remove the filter unless forced
       // For range operators (between, dateRange), keep the filter even if first value is empty
       const isRangeOperator = operator === 'between' || operator === 'dateRange';
-      if (operator !== 'isEmpty' && !isRangeOperator && (value === '' || value === null)) {
+      const needsValue = operatorRequiresValue(operator);
+      if (needsValue && !isRangeOperator && (value === '' || value === null)) {
+        return prevFilters.filter(f => f.key !== key);
+      }
+      if (!needsValue && forceRemove) {
         return prevFilters.filter(f => f.key !== key);
       }
       
@@ -67,9 +192,10 @@ export const useTable = <T,>({
         return [...prevFilters, newFilter];
       }
     });
-  }, []);
+  }, [setFilters, setCurrentPage]);
 
   const handleSort = useCallback((key: keyof T, isMulti: boolean) => {
+    if (isManual) setCurrentPage(1); // The server returns a different first page for a new sort
     setSortConfig(prevConfig => {
         const existingSortIndex = prevConfig.findIndex(s => s.key === key);
 
@@ -97,291 +223,223 @@ export const useTable = <T,>({
             return [{ key, direction: 'ascending' }];
         }
     });
-  }, []);
+  }, [isManual, setSortConfig, setCurrentPage]);
+
 
+  const setFilterExpression = useCallback((expression: FilterGroup<T> | undefined) => {
+    setFilterExpressionState(expression);
+    setCurrentPage(1);
+  }, [setCurrentPage]);
 
   const clearFilters = useCallback(() => {
     setFilters([]);
+    setFilterExpressionState(undefined);
     setCurrentPage(1);
-  }, []);
+  }, [setFilters, setCurrentPage]);
 
-  const toggleGroup = useCallback((path: string) => {
-    setCollapsedGroups(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(path)) {
-        newSet.delete(path);
-      } else {
-        newSet.add(path);
-      }
-      return newSet;
+  // A new search starts from the first page (not on mount, so a restored page survives)
+  const previousSearchQuery = useRef(searchQuery);
+  useEffect(() => {
+    if (previousSearchQuery.current === searchQuery) return;
+    previousSearchQuery.current = searchQuery;
+    setCurrentPage(1);
+  }, [searchQuery]);
+
+  const toggleTreeRow = useCallback((id: RowId, expanded?: boolean) => {
+    setExpandedTreeRowIds(prev => {
+      const isExpanded = prev.includes(id);
+      if ((expanded ?? !isExpanded) === isExpanded) return prev;
+      return isExpanded ? prev.filter(rowId => rowId !== id) : [...prev, id];
     });
+  }, [setExpandedTreeRowIds]);
+
+  const toggleGroup = useCallback((path: string) => {
+    setCollapsedGroupPaths(prev => prev.includes(path) ? prev.filter(p => p !== path) : [...prev, path]);
     setCurrentPage(1);
-  }, []);
+  }, [setCollapsedGroupPaths, setCurrentPage]);
 
-  const filteredData = useMemo(() => {
-    if (filters.length === 0) {
-      return data;
+  // Memoize groupByKeys to prevent unnecessary re-renders due to array reference changes
+  const memoizedGroupByKeys = useMemo(() => groupByKeys, [JSON.stringify(groupByKeys)]);
+
+  // Query language terms, compiled once for the fetch params and the client-side search
+  const compiledSearchQuery = useMemo(
+    () => searchQueryLanguage && searchQuery.trim() !== ''
+      ? compileSearchQuery(searchQuery, allColumns, { searchableColumns, mode: searchMode })
+      : null,
+    [searchQueryLanguage, searchQuery, allColumns, searchableColumns, searchMode]
+  );
+  // Servers get the field terms as filters and the rest of the query as search text
+  const remoteSearch = compiledSearchQuery ? compiledSearchQuery.remainingQuery : searchQuery;
+  const searchFilters = compiledSearchQuery?.filters;
+
+  const server = useServerData<T>({
+    fetchData,
+    params: {
+      sortConfig,
+      filters,
+      filterExpression,
+      page: currentPage,
+      pageSize,
+      groupBy: getGroupByKeys(memoizedGroupByKeys),
+      search: remoteSearch,
+      searchFilters,
+    },
+  });
+
+  const infinite = useInfiniteLoader<T>({
+    config: infiniteScroll,
+    params: { sortConfig, filters, filterExpression, search: remoteSearch, searchFilters },
+  });
+
+  // In server mode the current page of rows comes straight from fetchData
+  const sourceData = isServerPaged ? server.rows : isInfinite ? infinite.rows : data;
+
+  // Relevance of each row for the global search, worked out once per row
+  const searchScore = useMemo(() => {
+    if (isManual || searchQuery.trim() === '') return null;
+    const searchColumns = getSearchableColumns(allColumns, searchableColumns);
+    const scoreRow = compiledSearchQuery
+      ? compiledSearchQuery.score
+      : (item: T) => scoreSearchMatch(item, searchColumns, searchQuery, searchMode);
+    const scores = new Map<T, number>();
+    return (item: T) => {
+      let score = scores.get(item);
+      if (score === undefined) {
+        score = scoreRow(item);
+        scores.set(item, score);
+      }
+      return score;
+    };
+  }, [isManual, allColumns, searchQuery, searchableColumns, searchMode, compiledSearchQuery]);
+
+  // Search and filters apply before sorting and grouping
+  const rowFilter = useMemo(() => {
+    if (isManual || (filters.length === 0 && !filterExpression && !searchScore)) {
+      return null;
     }
     const columnMap = new Map(allColumns.map(c => [c.accessor, c]));
 
-    return data.filter(item => {
-      return filters.every(filter => {
-        const itemValue = item[filter.key];
-        const filterValue = filter.value;
-        const column = columnMap.get(filter.key);
-
-        // Check for isEmpty filter (applies to all data types)
-        if (filter.operator === 'isEmpty') {
-          return itemValue === null || itemValue === undefined || itemValue === '';
-        }
+    return (item: T) => {
+      return (!searchScore || searchScore(item) > 0)
+        && filters.every(filter => matchesFilter(item, filter, columnMap.get(filter.key)))
+        && (!filterExpression || evaluateFilterNode(item, filterExpression, columnMap));
+    };
+  }, [isManual, filters, filterExpression, allColumns, searchScore]);
 
-        // Date/DateTime filtering
-        if ((column?.dataType === 'date' || column?.dataType === 'datetime') && typeof itemValue === 'string' && filterValue) {
-          try {
-              let itemDateMs, filterDateMs;
-
-              if (column.dataType === 'date') {
-                  // Compare dates by UTC midnight to ignore time
-                  itemDateMs = new Date(itemValue).setUTCHours(0, 0, 0, 0);
-                  filterDateMs = new Date(filterValue).setUTCHours(0, 0, 0, 0);
-              } else { // datetime
-                  itemDateMs = new Date(itemValue).getTime();
-                  filterDateMs = new Date(filterValue).getTime();
-              }
-              
-              if (isNaN(itemDateMs) || isNaN(filterDateMs)) return true;
-
-              switch (filter.operator as DateFilterOperator) {
-                  case 'is': return itemDateMs === filterDateMs;
-                  case 'isNot': return itemDateMs !== filterDateMs;
-                  case 'isBefore': return itemDateMs < filterDateMs;
-                  case 'isAfter': return itemDateMs > filterDateMs;
-                  case 'dateRange':
-                    if (filter.secondValue) {
-                      let secondDateMs;
-                      if (column.dataType === 'date') {
-                        secondDateMs = new Date(filter.secondValue).setUTCHours(0, 0, 0, 0);
-                      } else {
-                        secondDateMs = new Date(filter.secondValue).getTime();
-                      }
-                      if (!isNaN(secondDateMs)) {
-                        return itemDateMs >= filterDateMs && itemDateMs <= secondDateMs;
-                      }
-                    }
-                    return true;
-                  default: return true;
-              }
-          } catch (e) { return true; }
-        }
+  // An explicit sort wins over relevance
+  const rowComparator = useMemo(() => {
+    if (isManual) return null;
+    if (sortConfig.length > 0) return createRowComparator(sortConfig, allColumns);
+    return rankSearchResults && searchScore ? (a: T, b: T) => searchScore(b) - searchScore(a) : null;
+  }, [isManual, sortConfig, allColumns, rankSearchResults, searchScore]);
 
-        // String filtering
-        if (typeof itemValue === 'string') {
-            const itemStr = itemValue.toLowerCase();
-            const filterStr = filterValue.toLowerCase();
-            switch (filter.operator as StringFilterOperator) {
-                case 'contains': return itemStr.includes(filterStr);
-                case 'doesNotContain': return !itemStr.includes(filterStr);
-                case 'equals': return itemStr === filterStr;
-                case 'startsWith': return itemStr.startsWith(filterStr);
-                case 'endsWith': return itemStr.endsWith(filterStr);
-                default: return true;
-            }
-        }
+  const tree = useMemo(
+    () => treeData ? buildTree(sourceData, treeData, getRowId) : null,
+    [sourceData, treeData, getRowId]
+  );
 
-        // Number filtering
-        if (typeof itemValue === 'number') {
-            const itemNum = itemValue;
-            const filterNum = parseFloat(filterValue);
-            if (isNaN(filterNum)) return true; 
-
-            switch (filter.operator as NumberFilterOperator) {
-                case 'eq': return itemNum === filterNum;
-                case 'neq': return itemNum !== filterNum;
-                case 'gt': return itemNum > filterNum;
-                case 'lt': return itemNum < filterNum;
-                case 'gte': return itemNum >= filterNum;
-                case 'lte': return itemNum <= filterNum;
-                case 'between':
-                  if (filter.secondValue) {
-                    const secondNum = parseFloat(filter.secondValue);
-                    if (!isNaN(secondNum)) {
-                      return itemNum >= filterNum && itemNum <= secondNum;
-                    }
-                  }
-                  return true;
-                default: return true;
-            }
-        }
-        
-        if (typeof itemValue === 'boolean') {
-            const filterBool = filterValue.toLowerCase();
-            if (filterBool === 'true') return itemValue === true;
-            if (filterBool === 'false') return itemValue === false;
-            return true;
-        }
+  const allTreeRows = useMemo(() => tree ? flattenTree(tree.roots).rows : sourceData, [tree, sourceData]);
 
-        // Collection filtering
-        if (column?.dataType === 'collection') {
-          const collectionValue = Array.isArray(itemValue) ? itemValue : 
-                                   (itemValue ? [itemValue] : []);
-          
-          switch (filter.operator as CollectionFilterOperator) {
-            case 'contains':
-              return collectionValue.includes(filterValue as any);
-            case 'doesNotContain':
-              return !collectionValue.includes(filterValue as any);
-            case 'containsAny': {
-              const searchValues = filterValue.split(',').map(v => v.trim()).filter(Boolean);
-              return searchValues.some(searchVal => collectionValue.includes(searchVal as any));
-            }
-            case 'containsAll': {
-              const searchValues = filterValue.split(',').map(v => v.trim()).filter(Boolean);
-              return searchValues.every(searchVal => collectionValue.includes(searchVal as any));
-            }
-            case 'isEmpty':
-              return collectionValue.length === 0;
-            default: 
-              return true;
-          }
-        }
+  // Rows passing the search and every filter except the column's own, so a facet still lists the values it unchecked.
+  // Worked out once per column until the rows or filters change, so an open facet can memoize on the result.
+  const getFacetRows = useMemo(() => {
+    const columnMap = new Map(allColumns.map(c => [c.accessor, c]));
+    const facetRows = new Map<keyof T, T[]>();
+    return (key: keyof T): T[] => {
+      if (isManual) return allTreeRows;
+      let rows = facetRows.get(key);
+      if (!rows) {
+        const otherFilters = filters.filter(filter => filter.key !== key);
+        rows = allTreeRows.filter(item =>
+          (!searchScore || searchScore(item) > 0)
+          && otherFilters.every(filter => matchesFilter(item, filter, columnMap.get(filter.key)))
+          && (!filterExpression || evaluateFilterNode(item, filterExpression, columnMap))
+        );
+        facetRows.set(key, rows);
+      }
+      return rows;
+    };
+  }, [isManual, allTreeRows, allColumns, filters, filterExpression, searchScore]);
+
+  // Row ids: tree ids in tree mode, else getRowId or the row's index in the source rows
+  const rowIds = useMemo(
+    () => new Map<T, RowId>(allTreeRows.map((row, index) => [row, tree?.nodes.get(row)?.id ?? (getRowId ? getRowId(row, index) : index)])),
+    [allTreeRows, tree, getRowId]
+  );
+  const getRowIdOf = useCallback((row: T): RowId => rowIds.get(row) ?? -1, [rowIds]);
+
+  const pinned = useMemo(() => {
+    const rowsById = new Map(Array.from(rowIds, ([row, id]) => [id, row]));
+    const resolve = (ids: RowId[] = []) => ids.map(id => rowsById.get(id)).filter((row): row is T => row !== undefined);
+    const top = resolve(pinnedRows?.top);
+    const bottom = resolve(pinnedRows?.bottom);
+    return { top, bottom, rows: new Set([...top, ...bottom]) };
+  }, [rowIds, pinnedRows]);
+
+  // Tree mode filters and sorts each level, keeping the ancestors of matching rows
+  const visibleTree = useMemo(() => {
+    if (!tree) return null;
+    const filtered = rowFilter ? filterTree(tree.roots, rowFilter) : tree.roots;
+    return rowComparator ? sortTree(filtered, rowComparator) : filtered;
+  }, [tree, rowFilter, rowComparator]);
 
-        return true; 
-      });
-    });
-  }, [data, filters, allColumns]);
+  const filteredData = useMemo(() => {
+    return rowFilter ? sourceData.filter(rowFilter) : sourceData;
+  }, [sourceData, rowFilter]);
 
   const sortedAndFilteredData = useMemo(() => {
+    // Every row left in the tree, expanded or not
+    if (visibleTree) return flattenTree(visibleTree).rows;
     const dataToSort = [...filteredData];
-    if (sortConfig.length > 0) {
-        const columnMap = new Map(allColumns.map(c => [c.accessor, c]));
-        dataToSort.sort((a, b) => {
-            for (const config of sortConfig) {
-                const { key, direction } = config;
-                const column = columnMap.get(key);
-                const aValue = a[key];
-                const bValue = b[key];
-
-                let comparison = 0;
-                if (column?.dataType === 'number' || column?.dataType === 'currency') {
-                    if (typeof aValue === 'number' && typeof bValue === 'number') {
-                        comparison = aValue - bValue;
-                    }
-                } else if ((column?.dataType === 'date' || column?.dataType === 'datetime') && typeof aValue === 'string' && typeof bValue === 'string') {
-                    const dateA = new Date(aValue).getTime();
-                    const dateB = new Date(bValue).getTime();
-                    if (!isNaN(dateA) && !isNaN(dateB)) {
-                        comparison = dateA - dateB;
-                    }
-                } else if (column?.dataType === 'collection') {
-                    // Collection sorting: first by count, then alphabetically by first value
-                    const aCollection = Array.isArray(aValue) ? aValue : (aValue ? [aValue] : []);
-                    const bCollection = Array.isArray(bValue) ? bValue : (bValue ? [bValue] : []);
-                    
-                    // Sort by count first
-                    if (aCollection.length !== bCollection.length) {
-                        comparison = aCollection.length - bCollection.length;
-                    } else {
-                        // If counts are equal, sort alphabetically by first value
-                        const aFirst = aCollection[0] || '';
-                        const bFirst = bCollection[0] || '';
-                        const strA = String(aFirst).toLowerCase();
-                        const strB = String(bFirst).toLowerCase();
-                        if (strA < strB) comparison = -1;
-                        if (strA > strB) comparison = 1;
-                    }
-                } else {
-                    const strA = String(aValue).toLowerCase();
-                    const strB = String(bValue).toLowerCase();
-                    if (strA < strB) comparison = -1;
-                    if (strA > strB) comparison = 1;
-                }
-                
-                if (comparison !== 0) {
-                    return direction === 'ascending' ? comparison : -comparison;
-                }
-            }
-            return 0;
-        });
+    if (rowComparator) {
+        dataToSort.sort(rowComparator);
     }
     return dataToSort;
-  }, [filteredData, sortConfig, allColumns]);
+  }, [visibleTree, filteredData, rowComparator]);
 
-  // Memoize groupByKeys to prevent unnecessary re-renders due to array reference changes
-  const memoizedGroupByKeys = useMemo(() => groupByKeys, [JSON.stringify(groupByKeys)]);
+  // Rows below collapsed parents are hidden, except while filtering so that matches show
+  const flatTree = useMemo(() => {
+    if (!visibleTree) return null;
+    const expandedIds = new Set(expandedTreeRowIds);
+    return flattenTree(visibleTree, id => !!rowFilter || expandedIds.has(id));
+  }, [visibleTree, expandedTreeRowIds, rowFilter]);
+
+  // Columns with an aggregate, summarised per group and for the whole filtered set
+  const aggregateColumns = useMemo(() => allColumns.filter(column => !!column.aggregate), [allColumns]);
+
+  const aggregates = useMemo<AggregateValues<T>>(
+    () => aggregateColumns.length > 0 ? computeAggregates(aggregateColumns, sortedAndFilteredData) : {},
+    [aggregateColumns, sortedAndFilteredData]
+  );
 
+  // Pinned rows are shown separately, so they are left out of the rows that are grouped and paginated
   const displayData = useMemo(() => {
+    const unpin = (rows: T[]) => pinned.rows.size > 0 ? rows.filter(row => !pinned.rows.has(row)) : rows;
+    if (flatTree) return unpin(flatTree.rows);
     if (memoizedGroupByKeys.length === 0) {
-      return sortedAndFilteredData;
+      return unpin(sortedAndFilteredData);
     }
+    return groupRows(unpin(sortedAndFilteredData), memoizedGroupByKeys, { collapsedGroups, aggregateColumns, columns: allColumns });
+  }, [flatTree, pinned, sortedAndFilteredData, memoizedGroupByKeys, collapsedGroups, aggregateColumns, allColumns]);
 
-    const groupDataRecursively = (
-        items: T[], 
-        groupKeys: (keyof T)[], 
-        level: number, 
-        parentPath: string
-    ): DisplayRow<T>[] => {
-        if (groupKeys.length === 0) {
-            return items;
-        }
-
-        const [currentGroupKey, ...restGroupKeys] = groupKeys;
+  const pivotData = useMemo(
+    () => pivot ? buildPivot(sortedAndFilteredData, pivot, allColumns) : null,
+    [pivot, sortedAndFilteredData, allColumns]
+  );
 
-        const groups = items.reduce((acc, item) => {
-            const groupValue = String(item[currentGroupKey]);
-            if (!acc[groupValue]) {
-                acc[groupValue] = [];
-            }
-            acc[groupValue].push(item);
-            return acc;
-        }, {} as Record<string, T[]>);
-        
-        const result: DisplayRow<T>[] = [];
-
-        // Sort group values before processing
-        const sortedGroupValues = Object.keys(groups).sort((a, b) => {
-          // A simple alphanumeric sort for group headers
-          if (a < b) return -1;
-          if (a > b) return 1;
-          return 0;
-        });
-
-        for (const groupValue of sortedGroupValues) {
-            const groupItems = groups[groupValue];
-            const path = parentPath ? `${parentPath}|${groupValue}` : groupValue;
-
-            const groupHeader: GroupHeaderRow<T> = {
-                isGroupHeader: true,
-                level,
-                path,
-                groupKey: currentGroupKey,
-                groupValue,
-                count: groupItems.length,
-            };
-
-            result.push(groupHeader);
-
-            if (!collapsedGroups.has(path)) {
-                result.push(...groupDataRecursively(groupItems, restGroupKeys, level + 1, path));
-            }
-        }
-        return result;
-    };
-
-    return groupDataRecursively(sortedAndFilteredData, memoizedGroupByKeys, 0, '');
-  }, [sortedAndFilteredData, memoizedGroupByKeys, collapsedGroups]);
-
-  const totalItems = displayData.length;
+  const totalItems = isServerPaged ? server.totalCount : displayData.length;
   const totalPages = Math.ceil(totalItems / pageSize);
 
   const paginatedData = useMemo(() => {
+    // The server already returned exactly one page; infinite mode shows everything loaded so far
+    if (isManual) return displayData;
     const startIndex = (currentPage - 1) * pageSize;
     return displayData.slice(startIndex, startIndex + pageSize);
-  }, [displayData, currentPage, pageSize]);
+  }, [displayData, isManual, currentPage, pageSize]);
 
   const handlePageSizeChange = useCallback((size: number) => {
-    setPageSize(size);
-    setCurrentPage(1);
-  }, []);
+    setPagination(1, size);
+  }, [setPagination]);
 
 
   const getSortDirection = useCallback((key: keyof T): SortDirection | undefined => {
@@ -396,15 +454,40 @@ export const useTable = <T,>({
 
   return {
     paginatedItems: paginatedData,
+    displayItems: displayData, // Every row (group headers included) before pagination
     originalItems: sortedAndFilteredData, // Used for export
+    aggregates, // Column aggregates over every filtered row
+    pivotData, // Cross-tab of the filtered rows when a pivot config is given
+    sourceData,
+    sortConfig,
+    setSortConfig,
     handleSort,
     handleFilterChange,
     getSortDirection,
     getSortOrder,
     filters,
+    setFilters,
+    filterExpression,
+    setFilterExpression,
     clearFilters,
     toggleGroup,
     collapsedGroups,
+    // Tree mode: position of each displayed row, plus every row (nested ones included) in tree order
+    treeRows: flatTree?.info ?? (NO_TREE_INFO as Map<T, TreeRowInfo>),
+    allTreeRows,
+    toggleTreeRow,
+    expandedTreeRows: expandedTreeRowIds,
+    getDescendantRows: (row: T) => getDescendantRows(tree?.nodes.get(row)),
+    getRowId: getRowIdOf,
+    getFacetRows,
+    compiledSearchQuery, // Null unless searchQueryLanguage is on and there is a query
+    pinnedTopRows: pinned.top, // Found among all rows, so they ignore sorting, filters and the page
+    pinnedBottomRows: pinned.bottom,
+    isLoading: isServerPaged ? server.isLoading : isInfinite && infinite.isLoading,
+    error: isServerPaged ? server.error : isInfinite ? infinite.error : null,
+    refetch: isInfinite ? infinite.loadNext : server.refetch,
+    hasMore: isInfinite && infinite.hasMore,
+    loadMore: infinite.loadNext,
     pagination: {
         currentPage,
         pageSize,
@@ -0,0 +1,119 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import type { Column, FilterConfig, GroupByEntry, SortConfig, UrlTableState, ViewConfiguration } from '../types';
+import { parseTableState, mergeTableStateIntoQuery } from '../utils/urlStateUtils';
+import { normalizeGroupBy } from '../utils/groupingUtils';
+
+interface UseTableUrlStateProps<T> {
+  columns: Column<T>[];
+  // View supplying the defaults for anything the URL doesn't specify
+  viewConfig: ViewConfiguration<T>;
+  // Parameter name prefix, for pages that sync several tables
+  prefix?: string;
+  // 'replace' (default) keeps one history entry; 'push' makes every change navigable with Back
+  historyMode?: 'replace' | 'push';
+  defaultPageSize?: number;
+}
+
+const readLocationState = <T,>(columns: Column<T>[], prefix: string): UrlTableState<T> =>
+  typeof window === 'undefined' ? {} : parseTableState(window.location.search, { columns, prefix });
+
+/**
+ * Keeps ReusableTable's sort, filters, page, page size, visible columns and
+ * grouping in sync with window.location. Spread `tableProps` on the table:
+ * values come from the URL (falling back to the view), and every change in the
+ * table rewrites the query string. Back/forward navigation restores the state.
+ */
+export const useTableUrlState = <T,>({
+  columns,
+  viewConfig,
+  prefix = '',
+  historyMode = 'replace',
+  defaultPageSize = 10,
+}: UseTableUrlStateProps<T>) => {
+  const [urlState, setUrlState] = useState<UrlTableState<T>>(() => readLocationState(columns, prefix));
+
+  // Latest state for the change handlers, which can fire several times in one event
+  const urlStateRef = useRef(urlState);
+  urlStateRef.current = urlState;
+
+  useEffect(() => {
+    const handlePopState = () => setUrlState(readLocationState(columns, prefix));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [columns, prefix]);
+
+  const state = useMemo(() => {
+    // The URL stores group keys only; options of matching view levels are kept
+    const viewLevels = normalizeGroupBy(viewConfig.groupBy);
+    const groupBy: GroupByEntry<T>[] | undefined = urlState.groupBy?.map(
+      key => viewConfig.groupBy?.[viewLevels.findIndex(level => level.key === key)] ?? key
+    );
+    return {
+      sortConfig: urlState.sortConfig ?? viewConfig.sortConfig ?? [],
+      filters: urlState.filters ?? viewConfig.filterConfig ?? [],
+      page: urlState.page ?? 1,
+      pageSize: urlState.pageSize ?? defaultPageSize,
+      visibleColumns: urlState.visibleColumns?.length ? urlState.visibleColumns : viewConfig.visibleColumns,
+      groupBy: groupBy ?? viewConfig.groupBy ?? [],
+    };
+  }, [urlState, viewConfig, defaultPageSize]);
+
+  const resolvedStateRef = useRef(state);
+  resolvedStateRef.current = state;
+
+  /**
+   * Merges a change into the state and writes the full state to the URL
+   */
+  const update = useCallback((change: Partial<UrlTableState<T>>) => {
+    const current = resolvedStateRef.current;
+    const next: UrlTableState<T> = {
+      ...urlStateRef.current,
+      ...change,
+    };
+    urlStateRef.current = next;
+    setUrlState(next);
+
+    // Sort and filters set in the URL are kept even when empty, so clearing a
+    // view default sticks; the default page size isn't written
+    const pageSize = next.pageSize ?? current.pageSize;
+    const search = mergeTableStateIntoQuery(window.location.search, {
+      sortConfig: next.sortConfig ?? (current.sortConfig.length ? current.sortConfig : undefined),
+      filters: next.filters ?? (current.filters.length ? current.filters : undefined),
+      page: next.page ?? current.page,
+      pageSize: pageSize === defaultPageSize ? undefined : pageSize,
+      visibleColumns: next.visibleColumns ?? current.visibleColumns,
+      groupBy: next.groupBy ?? normalizeGroupBy(current.groupBy).map(level => level.key),
+    }, prefix);
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+    if (historyMode === 'push') {
+      window.history.pushState(window.history.state, '', url);
+    } else {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [prefix, historyMode, defaultPageSize]);
+
+  const tableViewConfig = useMemo(
+    () => ({ ...viewConfig, visibleColumns: state.visibleColumns }),
+    [viewConfig, state.visibleColumns]
+  );
+
+  const tableProps = {
+    viewConfig: tableViewConfig,
+    sortConfig: state.sortConfig,
+    onSortChange: (sortConfig: SortConfig<T>[]) => update({ sortConfig }),
+    filters: state.filters,
+    onFiltersChange: (filters: FilterConfig<T>[]) => update({ filters }),
+    page: state.page,
+    pageSize: state.pageSize,
+    onPageChange: (page: number, pageSize: number) => update({ page, pageSize }),
+    groupBy: state.groupBy,
+    onGroupingChange: (groupBy: GroupByEntry<T>[]) => update({ groupBy: normalizeGroupBy(groupBy).map(level => level.key) }),
+  };
+
+  return {
+    tableProps,
+    state,
+    // Applies a change outside the table, e.g. from a column picker
+    setState: update,
+  };
+};
@@ -0,0 +1,192 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { StoredViews, ViewConfiguration, ViewMigration, ViewStorageAdapter } from '../types';
+import { migrateStoredViews } from '../utils/viewStorage';
+
+interface UseViewManagerProps<T> {
+  // Views to start with when storage is empty or not given; must not be empty
+  initialViews: ViewConfiguration<T>[];
+  storage?: ViewStorageAdapter<T>;
+  // Current schema version of the app's views; bump it together with a migration
+  schemaVersion?: number;
+  // migrations[n] upgrades stored views from version n to n + 1
+  migrations?: Record<number, ViewMigration<T>>;
+}
+
+interface ViewCollection<T> {
+  views: ViewConfiguration<T>[];
+  defaultViewId?: string;
+}
+
+let viewIdCounter = 0;
+const createViewId = () => `view_${Date.now()}_${++viewIdCounter}`;
+
+/**
+ * Keeps a list of saved views with one active and one default view, and
+ * persists every change through a storage adapter. Stored views are migrated
+ * to the current schema version when they are loaded; edits are ignored
+ * until that load has succeeded.
+ */
+export const useViewManager = <T,>({
+  initialViews,
+  storage,
+  schemaVersion = 1,
+  migrations,
+}: UseViewManagerProps<T>) => {
+  if (!Array.isArray(initialViews) || initialViews.length === 0) {
+    throw new Error(
+      '[ReusableTable] useViewManager needs at least one view in "initialViews". ' +
+      'Example: initialViews: [{ id: "default", name: "Default", visibleColumns: ["name"] }]'
+    );
+  }
+
+  const [collection, setCollection] = useState<ViewCollection<T>>({ views: initialViews });
+  const [activeViewId, setActiveViewId] = useState(initialViews[0].id);
+  const [isLoading, setIsLoading] = useState(!!storage);
+  const [error, setError] = useState<Error | null>(null);
+  // Edits are held back until storage has loaded, so they never overwrite views that weren't read;
+  // after a failed load they stay disabled
+  const [canEdit, setCanEdit] = useState(!storage);
+  const canEditRef = useRef(canEdit);
+  canEditRef.current = canEdit;
+
+  // Latest collection for mutations fired in quick succession
+  const collectionRef = useRef(collection);
+  collectionRef.current = collection;
+  const storageRef = useRef(storage);
+  storageRef.current = storage;
+
+  const persist = useCallback((next: ViewCollection<T>) => {
+    const adapter = storageRef.current;
+    if (!adapter) return;
+    const stored: StoredViews<T> = { schemaVersion, views: next.views, defaultViewId: next.defaultViewId };
+    Promise.resolve()
+      .then(() => adapter.save(stored))
+      .catch((saveError: unknown) => setError(saveError instanceof Error ? saveError : new Error(String(saveError))));
+  }, [schemaVersion]);
+
+  useEffect(() => {
+    if (!storage) {
+      canEditRef.current = true;
+      setCanEdit(true);
+      return;
+    }
+    let isCurrent = true;
+    setIsLoading(true);
+    canEditRef.current = false;
+    setCanEdit(false);
+
+    Promise.resolve()
+      .then(() => storage.load())
+      .then(stored => {
+        if (!isCurrent) return;
+        if (stored && Array.isArray(stored.views) && stored.views.length > 0) {
+          const migrated = migrateStoredViews(stored, schemaVersion, migrations);
+          const next = { views: migrated.views, defaultViewId: migrated.defaultViewId };
+          collectionRef.current = next;
+          setCollection(next);
+          setActiveViewId(next.defaultViewId ?? next.views[0].id);
+          // Write the upgraded views back so the migration runs only once
+          if (stored.schemaVersion !== migrated.schemaVersion) persist(next);
+        }
+        canEditRef.current = true;
+        setCanEdit(true);
+      })
+      .catch((loadError: unknown) => {
+        if (isCurrent) setError(loadError instanceof Error ? loadError : new Error(String(loadError)));
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [storage, schemaVersion]);
+
+  // Applies and persists an edit; returns null while edits are disabled
+  const commit = useCallback((update: (current: ViewCollection<T>) => ViewCollection<T>) => {
+    if (!canEditRef.current) return null;
+    const next = update(collectionRef.current);
+    collectionRef.current = next;
+    setCollection(next);
+    persist(next);
+    return next;
+  }, [persist]);
+
+  /**
+   * Adds a view, or replaces the view with the same id, and makes it active
+   */
+  const saveView = useCallback((view: ViewConfiguration<T>) => {
+    const saved = view.id ? view : { ...view, id: createViewId() };
+    const next = commit(current => {
+      const exists = current.views.some(v => v.id === saved.id);
+      return {
+        ...current,
+        views: exists ? current.views.map(v => (v.id === saved.id ? saved : v)) : [...current.views, saved],
+      };
+    });
+    if (!next) return undefined;
+    setActiveViewId(saved.id);
+    return saved;
+  }, [commit]);
+
+  const renameView = useCallback((id: string, name: string) => {
+    commit(current => ({
+      ...current,
+      views: current.views.map(v => (v.id === id ? { ...v, name } : v)),
+    }));
+  }, [commit]);
+
+  /**
+   * Copies a view under a new id and makes the copy active
+   */
+  const duplicateView = useCallback((id: string, name?: string) => {
+    const source = collectionRef.current.views.find(v => v.id === id);
+    if (!source) return undefined;
+    const copy = { ...source, id: createViewId(), name: name ?? `${source.name ?? 'Untitled View'} (copy)` };
+    if (!commit(current => ({ ...current, views: [...current.views, copy] }))) return undefined;
+    setActiveViewId(copy.id);
+    return copy;
+  }, [commit]);
+
+  /**
+   * Removes a view. The last remaining view can't be deleted.
+   */
+  const deleteView = useCallback((id: string) => {
+    if (collectionRef.current.views.length <= 1) return;
+    const next = commit(current => ({
+      views: current.views.filter(v => v.id !== id),
+      defaultViewId: current.defaultViewId === id ? undefined : current.defaultViewId,
+    }));
+    if (!next) return;
+    setActiveViewId(activeId => (activeId === id ? next.defaultViewId ?? next.views[0].id : activeId));
+  }, [commit]);
+
+  const setDefaultView = useCallback((id: string | undefined) => {
+    commit(current => ({ ...current, defaultViewId: id }));
+  }, [commit]);
+
+  const activeView = useMemo(
+    () => collection.views.find(v => v.id === activeViewId) ?? collection.views[0],
+    [collection.views, activeViewId]
+  );
+
+  return {
+    views: collection.views,
+    activeView,
+    activeViewId: activeView.id,
+    defaultViewId: collection.defaultViewId,
+    isLoading,
+    error,
+    // False while views load and after loading failed; edits are ignored then
+    canEdit,
+    selectView: setActiveViewId,
+    saveView,
+    renameView,
+    duplicateView,
+    deleteView,
+    setDefaultView,
+  };
+};
+
+export type ViewManagerState<T> = ReturnType<typeof useViewManager<T>>;
@@ -0,0 +1,123 @@
+import { useState, useMemo, useRef, useCallback } from 'react';
+
+interface UseVirtualRowsProps {
+  enabled: boolean;
+  count: number;
+  viewportHeight: number;
+  // Estimated (or fixed) height for the row at an index
+  estimateSize: (index: number) => number;
+  // Stable identity for the row at an index, used to cache measured heights
+  getItemKey: (index: number) => unknown;
+  overscan?: number;
+  measure?: boolean;
+}
+
+export interface VirtualRow {
+  index: number;
+  start: number;
+  size: number;
+}
+
+/**
+ * Windowed rendering for long row lists. Keeps a prefix sum of row heights
+ * (estimated, or measured once a row has rendered) and returns only the rows
+ * intersecting the viewport plus an overscan margin, together with the padding
+ * needed above and below them to preserve the scroll height.
+ */
+export const useVirtualRows = ({
+  enabled,
+  count,
+  viewportHeight,
+  estimateSize,
+  getItemKey,
+  overscan = 5,
+  measure = false,
+}: UseVirtualRowsProps) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const measuredSizes = useRef(new Map<unknown, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+
+  // offsets[i] is the top of row i; offsets[count] is the total height
+  const offsets = useMemo(() => {
+    if (!enabled) return [0];
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    for (let i = 0; i < count; i++) {
+      const measured = measure ? measuredSizes.current.get(getItemKey(i)) : undefined;
+      result[i + 1] = result[i] + (measured ?? estimateSize(i));
+    }
+    return result;
+  }, [enabled, count, estimateSize, getItemKey, measure, measureVersion]);
+
+  const totalHeight = offsets[offsets.length - 1];
+
+  const virtualRows = useMemo((): VirtualRow[] => {
+    if (!enabled || count === 0) return [];
+
+    // Binary search for the first row whose bottom edge is below scrollTop
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (offsets[mid + 1] <= scrollTop) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    const firstVisible = low;
+
+    let lastVisible = firstVisible;
+    const viewportBottom = scrollTop + viewportHeight;
+    while (lastVisible < count - 1 && offsets[lastVisible + 1] < viewportBottom) {
+      lastVisible++;
+    }
+
+    const startIndex = Math.max(0, firstVisible - overscan);
+    const endIndex = Math.min(count - 1, lastVisible + overscan);
+    const rows: VirtualRow[] = [];
+    for (let i = startIndex; i <= endIndex; i++) {
+      rows.push({ index: i, start: offsets[i], size: offsets[i + 1] - offsets[i] });
+    }
+    return rows;
+  }, [enabled, count, offsets, scrollTop, viewportHeight, overscan]);
+
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom = virtualRows.length > 0
+    ? totalHeight - (virtualRows[virtualRows.length - 1].start + virtualRows[virtualRows.length - 1].size)
+    : 0;
+
+  const handleScroll = useCallback((event: React.UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  // Ref callback factory: records the rendered height of a row when measuring is on
+  const measureElement = useCallback((index: number) => (element: HTMLElement | null) => {
+    if (!measure || !element) return;
+    // An expanded row's detail panel (a following [data-row-detail] row) counts towards its height
+    let height = element.getBoundingClientRect().height;
+    for (let next = element.nextElementSibling; next instanceof HTMLElement && next.dataset.rowDetail !== undefined; next = next.nextElementSibling) {
+      height += next.getBoundingClientRect().height;
+    }
+    if (!height) return; // Not laid out (e.g. hidden or in a test environment)
+    const key = getItemKey(index);
+    if (measuredSizes.current.get(key) !== height) {
+      measuredSizes.current.set(key, height);
+      setMeasureVersion(version => version + 1);
+    }
+  }, [measure, getItemKey]);
+
+  const getOffsetForIndex = useCallback((index: number) => {
+    return offsets[Math.max(0, Math.min(index, count))] ?? 0;
+  }, [offsets, count]);
+
+  return {
+    virtualRows,
+    totalHeight,
+    paddingTop,
+    paddingBottom,
+    handleScroll,
+    measureElement,
+    getOffsetForIndex,
+  };
+};
@@ -6,17 +6,34 @@ export { ReusableTable } from './components/ReusableTable';
 export { Pagination } from './components/Pagination';
 export { ToggleSwitch } from './components/ToggleSwitch';
 export { ViewEditor } from './components/ViewEditor';
-export { GlobalSearch } from './components/GlobalSearch';
+export { GlobalSearch, type GlobalSearchSuggestion } from './components/GlobalSearch';
+export { HighlightedText, SearchHighlightContext, type SearchHighlight } from './components/HighlightedText';
+export { FacetFilter } from './components/FacetFilter';
 export { ThemeProvider, useTheme, useThemeClasses } from './components/ThemeProvider';
 export { CollectionCell, CollectionUtils } from './components/CollectionCell';
 export { CheckboxCollectionInput } from './components/CheckboxCollectionInput';
 export { RadioCollectionInput } from './components/RadioCollectionInput';
+export { FilterGroupBuilder } from './components/FilterGroupBuilder';
+export { PivotTable } from './components/PivotTable';
+export { PivotConfigEditor } from './components/PivotConfigEditor';
+export { ViewManager } from './components/ViewManager';
+export { ColumnMenu } from './components/ColumnMenu';
 
 // Export hooks
 export { useTable } from './hooks/useTable';
 export { useDndList } from './hooks/useDndList';
 export { useRowSelection } from './hooks/useRowSelection';
 export { useGlobalSearch } from './hooks/useGlobalSearch';
+export { useServerData } from './hooks/useServerData';
+export { useInfiniteLoader } from './hooks/useInfiniteLoader';
+export { useControllableState } from './hooks/useControllableState';
+export { useTableUrlState } from './hooks/useTableUrlState';
+export { useColumnResize, DEFAULT_MIN_COLUMN_WIDTH } from './hooks/useColumnResize';
+export { usePinnedColumns } from './hooks/usePinnedColumns';
+export { useRowExpansion, type RowDetailState } from './hooks/useRowExpansion';
+export { useRowPinning } from './hooks/useRowPinning';
+export { useViewManager, type ViewManagerState } from './hooks/useViewManager';
+export { useVirtualRows, type VirtualRow } from './hooks/useVirtualRows';
 export { useTableSelection, useSimpleTableSelection, type TableSelectionReturn } from './hooks/useTableSelection';
 
 // Export types
@@ -24,7 +41,15 @@ export type {
   Column,
   SortConfig,
   FilterConfig,
+  FilterCombinator,
+  FilterGroup,
+  FilterNode,
+  FilterType,
+  CustomFilterOperator,
+  FilterOperatorDefinition,
+  FilterValueEditorProps,
   SortDirection,
+  SortMode,
   FilterOperator,
   StringFilterOperator,
   NumberFilterOperator,
@@ -32,8 +57,27 @@ export type {
   CurrencyOptions,
   DateOptions,
   GroupHeaderRow,
+  GroupByEntry,
+  GroupByLevel,
+  GroupSort,
   DisplayRow,
   ViewConfiguration,
+  ColumnWidths,
+  ColumnPinSide,
+  PinnedColumns,
+  ColumnGroup,
+  RowId,
+  RowDetailRenderer,
+  TreeDataConfig,
+  TreeRowInfo,
+  RowPinSide,
+  PinnedRows,
+  TableState,
+  UrlTableState,
+  StoredViews,
+  ViewStorageAdapter,
+  ViewMigration,
+  ReusableTableHandle,
   SelectionMode,
   RowSelectionState,
   RowSelectionConfig,
@@ -44,6 +88,25 @@ export type {
   TableThemeSpacing,
   TableThemeTypography,
   GlobalSearchConfig,
+  GlobalSearchMode,
+  // Server-side data types
+  FetchDataParams,
+  FetchDataResult,
+  FetchDataFn,
+  InfiniteCursor,
+  LoadMoreParams,
+  LoadMoreResult,
+  InfiniteScrollConfig,
+  VirtualizationConfig,
+  // Aggregation types
+  AggregationType,
+  AggregationFn,
+  ColumnAggregation,
+  AggregateValues,
+  // Pivot types
+  PivotConfig,
+  PivotRow,
+  PivotResult,
   // Collection types
   CollectionConfig,
   CollectionOption,
@@ -52,6 +115,7 @@ export type {
   CollectionValue,
   CollectionValidationResult,
   CollectionFilterOperator,
+  ValueListFilterOperator,
   CollectionFilterConfig,
   CheckboxCollectionConfig,
   RadioCollectionConfig,
@@ -76,7 +140,8 @@ export {
   StringOperatorLabels,
   NumberOperatorLabels,
   DateOperatorLabels,
-  CollectionOperatorLabels
+  CollectionOperatorLabels,
+  ValueListOperatorLabels
 } from './types';
 
 // Export icons (in case users want to customize)
@@ -87,10 +152,79 @@ export { SortDownIcon } from './components/icons/SortDownIcon';
 export { PencilIcon } from './components/icons/PencilIcon';
 export { PlusIcon } from './components/icons/PlusIcon';
 export { XIcon } from './components/icons/XIcon';
+export { ChevronRightIcon } from './components/icons/ChevronRightIcon';
+export { PinIcon } from './components/icons/PinIcon';
+export { CalendarIcon } from './components/icons/CalendarIcon';
 
 // Export collection utilities
 export { CollectionDataManager, CommonCollectionOptions } from './utils/collectionUtils';
 
+// Export filter expression utilities
+export {
+  isFilterGroup,
+  matchesFilter,
+  evaluateFilterNode,
+  isFilterConditionComplete,
+  countFilterConditions,
+  getOperatorOptions,
+  parseOperatorFromInput,
+  type ParsedFilterInput
+} from './utils/filterUtils';
+
+// Export custom filter operator registry
+export {
+  registerFilterOperator,
+  unregisterFilterOperator,
+  getFilterOperator,
+  getFilterOperatorsForType
+} from './utils/filterOperatorRegistry';
+export { getRelativeDateRange, isRelativeDateOperator, type RelativeDateOperator } from './utils/relativeDateUtils';
+
+// Export aggregation utilities
+export {
+  computeAggregate,
+  computeAggregates,
+  formatAggregateValue
+} from './utils/aggregationUtils';
+export { buildPivot } from './utils/pivotUtils';
+export { groupRows, normalizeGroupBy, getGroupByKeys } from './utils/groupingUtils';
+export { buildTree, filterTree, sortTree, flattenTree, getDescendantRows, type TreeNode, type Tree } from './utils/treeUtils';
+export { getSearchableColumns, matchesSearch, scoreSearchMatch, getMatchRanges, tokenizeQuery, editDistance } from './utils/globalSearchUtils';
+export {
+  parseSearchQuery,
+  compileSearchQuery,
+  getSearchFieldSuggestions,
+  applySearchFieldSuggestion,
+  type SearchQueryTerm,
+  type SearchQueryError,
+  type ParsedSearchQuery,
+  type CompiledSearchQuery
+} from './utils/searchQueryUtils';
+export { getFacetValues, getFacetKeys, parseValueList, serializeValueList, BLANK_FACET_LABEL, type FacetValue } from './utils/facetUtils';
+export {
+  serializeTableState,
+  parseTableState,
+  mergeTableStateIntoQuery,
+  getTableQueryParamNames,
+  TABLE_QUERY_VERSION,
+  type TableQueryOptions,
+} from './utils/urlStateUtils';
+export {
+  createLocalStorageAdapter,
+  createIndexedDBAdapter,
+  migrateStoredViews,
+  renameViewColumns,
+  createColumnRenameMigration,
+} from './utils/viewStorage';
+export {
+  getColumnGroupPaths,
+  buildHeaderRows,
+  moveColumnWithGroup,
+  insertColumnInGroup,
+  type HeaderCell,
+} from './utils/columnGroupUtils';
+export { createRowComparator, compareSortValues } from './utils/sortUtils';
+
 // Export cell rendering utilities
 export { 
   resolveCellRenderer, 
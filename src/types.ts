@@ -8,9 +8,18 @@ export interface SortConfig<T> {
 // New filter operator types
 export type StringFilterOperator = 'contains' | 'doesNotContain' | 'equals' | 'startsWith' | 'endsWith' | 'isEmpty';
 export type NumberFilterOperator = 'eq' | 'neq' | 'gt' | 'lt' | 'gte' | 'lte' | 'isEmpty' | 'between';
-export type DateFilterOperator = 'is' | 'isNot' | 'isBefore' | 'isAfter' | 'isEmpty' | 'dateRange';
+export type DateFilterOperator =
+  | 'is' | 'isNot' | 'isBefore' | 'isAfter' | 'isEmpty' | 'dateRange'
+  // Relative operators, resolved against the current date whenever the filter runs
+  | 'today' | 'yesterday' | 'thisWeek' | 'thisMonth' | 'lastMonth' | 'quarterToDate' | 'yearToDate'
+  // Relative operators taking N as the filter value
+  | 'lastNDays' | 'nextNDays' | 'lastNWeeks' | 'nextNWeeks' | 'lastNMonths' | 'nextNMonths';
 export type CollectionFilterOperator = 'contains' | 'doesNotContain' | 'containsAny' | 'containsAll' | 'isEmpty';
-export type FilterOperator = StringFilterOperator | NumberFilterOperator | DateFilterOperator | CollectionFilterOperator;
+// Value list filter for every data type; the value is a JSON array of the accepted cell values
+export type ValueListFilterOperator = 'isAnyOf';
+// Custom operators are identified by the id they were registered under (see registerFilterOperator)
+export type CustomFilterOperator = string & {};
+export type FilterOperator = StringFilterOperator | NumberFilterOperator | DateFilterOperator | CollectionFilterOperator | ValueListFilterOperator | CustomFilterOperator;
 
 // Map for display names in the UI
 export const StringOperatorLabels: Record<StringFilterOperator, string> = {
@@ -40,6 +49,19 @@ export const DateOperatorLabels: Record<DateFilterOperator, string> = {
   isAfter: 'Is After',
   isEmpty: 'Is Empty',
   dateRange: 'Date Range',
+  today: 'Today',
+  yesterday: 'Yesterday',
+  thisWeek: 'This Week',
+  thisMonth: 'This Month',
+  lastMonth: 'Last Month',
+  quarterToDate: 'Quarter to Date',
+  yearToDate: 'Year to Date',
+  lastNDays: 'Last N Days',
+  nextNDays: 'Next N Days',
+  lastNWeeks: 'Last N Weeks',
+  nextNWeeks: 'Next N Weeks',
+  lastNMonths: 'Last N Months',
+  nextNMonths: 'Next N Months',
 };
 
 export const CollectionOperatorLabels: Record<CollectionFilterOperator, string> = {
@@ -50,6 +72,10 @@ export const CollectionOperatorLabels: Record<CollectionFilterOperator, string>
   isEmpty: 'Is Empty',
 };
 
+export const ValueListOperatorLabels: Record<ValueListFilterOperator, string> = {
+  isAnyOf: 'Is Any Of',
+};
+
 // Updated FilterConfig to include an operator
 export interface FilterConfig<T> {
   key: keyof T;
@@ -59,6 +85,42 @@ export interface FilterConfig<T> {
   secondValue?: string;
 }
 
+// Boolean filter expression trees: nested AND/OR groups of FilterConfig conditions.
+// Unlike the flat filterConfig array, a group may hold several conditions on the same column.
+export type FilterCombinator = 'and' | 'or';
+
+export interface FilterGroup<T> {
+  combinator: FilterCombinator;
+  children: FilterNode<T>[];
+}
+
+export type FilterNode<T> = FilterConfig<T> | FilterGroup<T>;
+
+// Filter type of a column, explicit via Column.filterType or inferred from its dataType
+export type FilterType = 'text' | 'select' | 'date' | 'number' | 'boolean' | 'collection';
+
+// Props passed to a custom operator's value editor
+export interface FilterValueEditorProps<T = any> {
+  column: Column<T>;
+  value: string;
+  secondValue?: string;
+  onChange: (value: string, secondValue?: string) => void;
+}
+
+// A user-defined filter operator, registered once with registerFilterOperator
+export interface FilterOperatorDefinition<T = any> {
+  id: string;
+  label: string;
+  // Filter types the operator is offered for
+  dataTypes: FilterType[];
+  // Called with the cell value; return true to keep the row
+  predicate: (cellValue: any, filter: FilterConfig<T>, row: T, column?: Column<T>) => boolean;
+  // Replaces the default text input wherever the operator's value is edited
+  valueEditor?: React.ComponentType<FilterValueEditorProps<T>>;
+  // Set to false for operators that take no value (like isEmpty). Default: true
+  requiresValue?: boolean;
+}
+
 export interface CurrencyOptions {
   locale: string;
   currency: string;
@@ -203,7 +265,7 @@ export interface Column<T, K extends keyof T = keyof T> {
   accessor: K;
   sortable?: boolean;
   filterable?: boolean;
-  filterType?: 'text' | 'select' | 'date' | 'number' | 'boolean' | 'collection'; // NEW: Filter type configuration
+  filterType?: FilterType; // NEW: Filter type configuration
   dataType?: 'string' | 'number' | 'currency' | 'date' | 'datetime' | 'collection';
   currencyOptions?: CurrencyOptions;
   dateOptions?: DateOptions;
@@ -213,11 +275,44 @@ export interface Column<T, K extends keyof T = keyof T> {
   cellType?: 'checkbox' | 'toggle';
   groupable?: boolean;
   align?: 'left' | 'center' | 'right';
+  // Widths in pixels; a width from the view (ViewConfiguration.columnWidths) overrides `width`
+  width?: number;
+  minWidth?: number; // Default: 50
+  maxWidth?: number;
+  resizable?: boolean; // Shows a drag handle on the header cell
+  // Keeps the column visible at the left or right edge while scrolling horizontally
+  pinned?: ColumnPinSide;
+  pinnable?: boolean; // Offers pin/unpin actions in the header menu
+  // Summarises the column in group headers and the table footer
+  aggregate?: ColumnAggregation<T, K>;
+
+  // Sorting (client-side only)
+  sortFn?: (a: T, b: T) => number; // Full ascending comparator; replaces every other sort option
+  sortValue?: (row: T) => unknown; // Derived value to sort by, e.g. for custom-rendered cells
+  sortMode?: SortMode; // How strings are compared (default: 'basic')
+  sortLocale?: string; // Locale for 'natural' and 'locale' modes (default: browser locale)
+  collatorOptions?: Intl.CollatorOptions; // Extra Intl.Collator options for 'natural' and 'locale'
+  sortNulls?: 'first' | 'last'; // Where empty values go regardless of direction (default: 'last')
 
   // Dynamic cell rendering function
   renderCell?: (context: CellRenderContext<T>) => CellRenderDecision | React.ReactNode;
 }
 
+// String comparison for sorting: 'basic' compares lowercased strings, 'natural'
+// orders embedded numbers numerically ("item 2" < "item 10"), 'locale' uses Intl.Collator
+export type SortMode = 'basic' | 'natural' | 'locale';
+
+// Built-in column aggregations; count/countDistinct count (unique) non-empty values
+export type AggregationType = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'countDistinct';
+
+// Custom reducer, called with the non-empty cell values and the rows they came from
+export type AggregationFn<T, K extends keyof T = keyof T> = (values: T[K][], rows: T[]) => unknown;
+
+export type ColumnAggregation<T, K extends keyof T = keyof T> = AggregationType | AggregationFn<T, K>;
+
+// Aggregated value per column accessor (only columns with an aggregate are present)
+export type AggregateValues<T> = Partial<Record<keyof T, unknown>>;
+
 // Helper type to extract accessor keys from a column array
 // This is useful for validating ViewConfiguration keys against actual columns
 export type ColumnAccessor<T, C> = C extends Column<T, infer K> ? K : never;
@@ -239,8 +334,8 @@ export type TypedViewConfiguration<T, Cols extends readonly Column<T, any>[]> =
   'visibleColumns' | 'groupBy' | 'groupByKeys'
 > & {
   visibleColumns?: ExtractAccessors<T, Cols>[];
-  groupBy?: ExtractAccessors<T, Cols>[];
-  groupByKeys?: ExtractAccessors<T, Cols>[];
+  groupBy?: (ExtractAccessors<T, Cols> | (GroupByLevel<T> & { key: ExtractAccessors<T, Cols> }))[];
+  groupByKeys?: (ExtractAccessors<T, Cols> | (GroupByLevel<T> & { key: ExtractAccessors<T, Cols> }))[];
 };
 
 // New type for a group header row, supporting nesting
@@ -249,13 +344,62 @@ export interface GroupHeaderRow<T> {
   level: number; // Indentation level
   path: string; // Unique path for this group, e.g., "Electronics" or "Electronics|true"
   groupKey: keyof T; // The accessor key for this group level, e.g., 'category'
-  groupValue: any; // The value of the group, e.g., 'Electronics'
+  groupValue: any; // The value of the group, e.g., 'Electronics'; the blank label for blank groups
   count: number; // Number of items in this group
+  isBlank?: boolean; // True for the group of null/undefined/empty values
+  aggregates?: AggregateValues<T>; // Column aggregates over this group's rows
 }
 
 // A row in the display list can be a data item or a group header
 export type DisplayRow<T> = T | GroupHeaderRow<T>;
 
+// Tree data: rows with child rows, from getSubRows (nested data) or from
+// parentIdAccessor (a flat list where each row names its parent's id)
+export interface TreeDataConfig<T> {
+  getSubRows?: (row: T) => T[] | undefined;
+  parentIdAccessor?: keyof T;
+  // Field that parentIdAccessor refers to; defaults to 'id'. getRowId takes precedence.
+  idAccessor?: keyof T;
+  // Selecting or deselecting a row does the same to all of its descendants
+  cascadeSelection?: boolean;
+}
+
+export type RowPinSide = 'top' | 'bottom';
+
+// Ids of rows pinned above and below the other rows, in display order
+export interface PinnedRows {
+  top?: RowId[];
+  bottom?: RowId[];
+}
+
+// Where a displayed row sits in the tree
+export interface TreeRowInfo {
+  id: RowId;
+  depth: number; // 0 for top-level rows
+  subRowCount: number; // Child rows left after filtering
+  isExpanded: boolean;
+}
+
+// How the groups of one grouping level are ordered
+export type GroupSort<T> =
+  | { by: 'value'; direction?: SortDirection } // Group value, natural order (default ascending)
+  | { by: 'count'; direction?: SortDirection } // Number of rows (default descending)
+  | { by: 'aggregate'; column: keyof T; aggregate?: AggregationType; direction?: SortDirection } // Aggregate of a column over the group (default descending)
+  | { by: 'custom'; order: string[] }; // Listed values first in this order, the rest ascending
+
+// One grouping level with its ordering and blank handling
+export interface GroupByLevel<T> {
+  key: keyof T;
+  sort?: GroupSort<T>;
+  // Label of the group holding null/undefined/empty values (default '(Blank)')
+  blankLabel?: string;
+  // Where the blank group goes (default 'last')
+  blankPosition?: 'first' | 'last';
+}
+
+// A grouping level given as a plain key uses the default options
+export type GroupByEntry<T> = keyof T | GroupByLevel<T>;
+
 // New interface for saved table views
 export interface ViewConfiguration<T> {
   id?: string;
@@ -263,13 +407,128 @@ export interface ViewConfiguration<T> {
   // Defines which columns are visible and in what order
   visibleColumns?: (keyof T)[];
   // Defines the multi-level grouping and order
-  groupBy?: (keyof T)[];
+  groupBy?: GroupByEntry<T>[];
   // NEW: Alternative name for groupBy for API compatibility
-  groupByKeys?: (keyof T)[];
+  groupByKeys?: GroupByEntry<T>[];
   // Defines the default sorting for the view
   sortConfig?: SortConfig<T>[];
   // Defines the default filters for the view
   filterConfig?: FilterConfig<T>[];
+  // Nested AND/OR filter expression, combined with filterConfig using AND
+  filterExpression?: FilterGroup<T>;
+  // When set, the table renders a cross-tab instead of rows
+  pivot?: PivotConfig<T>;
+  // Column widths in pixels, e.g. as left by the user resizing columns
+  columnWidths?: ColumnWidths<T>;
+  // Columns pinned to the left or right edge
+  pinnedColumns?: PinnedColumns<T>;
+}
+
+export type ColumnWidths<T> = Partial<Record<keyof T, number>>;
+
+// Header cell spanning several columns, e.g. "Q1" over Jan, Feb and Mar.
+// Children are column accessors or nested groups; column order still comes from the view.
+export interface ColumnGroup<T> {
+  header: string;
+  children: (keyof T | ColumnGroup<T>)[];
+}
+
+export type ColumnPinSide = 'left' | 'right';
+
+// Pinned column keys per side. When set, it replaces every Column.pinned
+export interface PinnedColumns<T> {
+  left?: (keyof T)[];
+  right?: (keyof T)[];
+}
+
+// Snapshot of a table's interactive state, e.g. for persisting or syncing it
+export interface TableState<T> {
+  sortConfig: SortConfig<T>[];
+  filters: FilterConfig<T>[];
+  filterExpression?: FilterGroup<T>;
+  page: number; // 1-based
+  pageSize: number;
+  groupBy: GroupByEntry<T>[];
+  collapsedGroups: string[]; // Paths of collapsed group headers
+  columnWidths: ColumnWidths<T>;
+  pinnedColumns?: PinnedColumns<T>;
+}
+
+// Saved views as persisted by a ViewStorageAdapter
+export interface StoredViews<T = any> {
+  schemaVersion: number;
+  views: ViewConfiguration<T>[];
+  defaultViewId?: string;
+}
+
+// Persistence for saved views: localStorage, IndexedDB or a backend. Methods may be async.
+export interface ViewStorageAdapter<T = any> {
+  // Resolves to null when nothing has been stored yet
+  load: () => StoredViews<T> | null | Promise<StoredViews<T> | null>;
+  save: (stored: StoredViews<T>) => void | Promise<void>;
+}
+
+// Upgrades stored views from one schema version to the next
+export type ViewMigration<T = any> = (stored: StoredViews<T>) => StoredViews<T>;
+
+// Table state that can be encoded in a URL query string
+export interface UrlTableState<T> {
+  sortConfig?: SortConfig<T>[];
+  filters?: FilterConfig<T>[];
+  page?: number;
+  pageSize?: number;
+  visibleColumns?: (keyof T)[];
+  groupBy?: (keyof T)[]; // Keys only; level options stay in the view
+}
+
+// Stable row identity, from ReusableTable's getRowId prop (defaults to the row's index in data)
+export type RowId = string | number;
+
+// Content of an expanded row's detail panel. A promise is awaited once per row
+// object, so details can be fetched when a row is first expanded.
+export type RowDetailRenderer<T> = (row: T) => React.ReactNode | Promise<React.ReactNode>;
+
+// Imperative API of ReusableTable, available through its ref
+export interface ReusableTableHandle<T> {
+  // Removes every filter, including the filter expression
+  resetFilters: () => void;
+  setSort: (sortConfig: SortConfig<T>[]) => void;
+  setGrouping: (groupBy: GroupByEntry<T>[]) => void;
+  // Brings a row (or the row at an index of data) into view, switching pages if needed.
+  // Returns false when the row isn't displayed, e.g. filtered out or in a collapsed group.
+  scrollToRow: (row: T | number) => boolean;
+  // Expands or collapses a row's detail panel; expands when `expanded` is omitted and the row is collapsed
+  toggleRowExpanded: (rowId: RowId, expanded?: boolean) => void;
+  // Expands or collapses a tree row's child rows (tree data mode)
+  toggleTreeRow: (rowId: RowId, expanded?: boolean) => void;
+  // Pins a row above (default) or below the other rows; pinning again moves it to the end of that side
+  pinRow: (rowId: RowId, side?: RowPinSide) => void;
+  unpinRow: (rowId: RowId) => void;
+  getState: () => TableState<T>;
+}
+
+// Pivot (cross-tab) layout: one row per combination of row key values, one
+// column per combination of column key values, cells aggregate the value column
+export interface PivotConfig<T> {
+  rows: (keyof T)[];
+  columns: (keyof T)[];
+  value: keyof T;
+  aggregate: ColumnAggregation<T>;
+}
+
+export interface PivotRow {
+  key: string; // JSON-encoded row key values (null for a blank value), unique per row
+  values: string[]; // One value per row key
+  cells: unknown[]; // Aggregate per pivot column, in PivotResult.columnKeys order
+  total: unknown; // Aggregate over the whole row
+}
+
+export interface PivotResult<T> {
+  config: PivotConfig<T>;
+  columnKeys: string[][]; // Distinct column key value combinations, sorted
+  rows: PivotRow[];
+  columnTotals: unknown[];
+  grandTotal: unknown;
 }
 
 // Row selection types
@@ -343,10 +602,75 @@ export type PredefinedTheme = 'light' | 'dark';
 // NEW: Theme configuration that accepts both strings and objects
 export type ThemeConfig = PredefinedTheme | Partial<TableTheme>;
 
+// How global search matches: the whole query as one substring, each word of it
+// somewhere in the row, or each word allowing a typo or two
+export type GlobalSearchMode = 'contains' | 'tokens' | 'fuzzy';
+
 // Global search configuration
 export interface GlobalSearchConfig {
   enabled: boolean;
   placeholder?: string;
   debounceMs?: number;
   searchableColumns?: string[]; // If empty, search all columns
-}
\ No newline at end of file
+  mode?: GlobalSearchMode; // Defaults to 'contains'
+  rankByRelevance?: boolean; // Best matches first while no column is sorted
+  highlightMatches?: boolean; // Marks matched text in cells; defaults to true
+  queryLanguage?: boolean; // Accepts field:value terms, -exclusions and "quoted phrases"
+}
+
+// Server-side data mode types
+// Parameters passed to a fetchData callback whenever the table state changes
+export interface FetchDataParams<T> {
+  sortConfig: SortConfig<T>[];
+  filters: FilterConfig<T>[];
+  filterExpression?: FilterGroup<T>;
+  page: number; // 1-based page number
+  pageSize: number;
+  groupBy: (keyof T)[];
+  search: string;
+  // With globalSearch.queryLanguage: the query's field terms (without a `-`); search holds the rest of the query
+  searchFilters?: FilterConfig<T>[];
+}
+
+export interface FetchDataResult<T> {
+  rows: T[];
+  totalCount: number; // Total number of rows on the server matching the filters
+}
+
+export type FetchDataFn<T> = (params: FetchDataParams<T>) => Promise<FetchDataResult<T>>;
+
+// Infinite scroll / cursor-based loading types
+export type InfiniteCursor = string | number | null;
+
+// Parameters passed to loadMore alongside the cursor; a change in any of them resets the cursor
+export interface LoadMoreParams<T> {
+  sortConfig: SortConfig<T>[];
+  filters: FilterConfig<T>[];
+  filterExpression?: FilterGroup<T>;
+  search: string;
+  // With globalSearch.queryLanguage: the query's field terms (without a `-`); search holds the rest of the query
+  searchFilters?: FilterConfig<T>[];
+}
+
+export interface LoadMoreResult<T> {
+  rows: T[];
+  nextCursor?: InfiniteCursor;
+  hasMore: boolean; // false signals the end of the data
+}
+
+export interface InfiniteScrollConfig<T> {
+  // Called with null for the first chunk, then with the nextCursor of the previous result
+  loadMore: (cursor: InfiniteCursor, params: LoadMoreParams<T>) => Promise<LoadMoreResult<T>>;
+  threshold?: number; // Distance in px from the bottom that triggers the next load (default: 200)
+  height?: number | string; // Height of the scroll container (default: 600)
+}
+
+// Row virtualization (windowed rendering) configuration
+export interface VirtualizationConfig {
+  enabled: boolean;
+  height?: number; // Height of the scrollable viewport in px (default: 600)
+  rowHeight?: number; // Fixed (or, when measuring, estimated) data row height in px (default: 53)
+  groupHeaderHeight?: number; // Height of GroupHeaderRow rows in px (default: 41)
+  measureRows?: boolean; // Measure rendered rows and use their real heights
+  overscan?: number; // Rows rendered above and below the viewport (default: 5)
+}
@@ -0,0 +1,77 @@
+/**
+ * Test Suite: Column Group Utilities
+ *
+ * Verifies header row layout for nested groups, moving grouped columns as a
+ * block and placing newly shown columns inside their group.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getColumnGroupPaths,
+  buildHeaderRows,
+  moveColumnWithGroup,
+  insertColumnInGroup,
+} from '../columnGroupUtils';
+import type { Column, ColumnGroup } from '../../types';
+
+interface Sale {
+  region: string;
+  jan: number;
+  feb: number;
+  mar: number;
+  apr: number;
+  total: number;
+}
+
+const column = (accessor: keyof Sale): Column<Sale> => ({ header: String(accessor), accessor });
+const columns = (['region', 'jan', 'feb', 'mar', 'apr', 'total'] as (keyof Sale)[]).map(column);
+
+const q1: ColumnGroup<Sale> = { header: 'Q1', children: ['jan', 'feb', 'mar'] };
+const groups: ColumnGroup<Sale>[] = [{ header: '2024', children: [q1, 'apr'] }];
+
+const describeRow = (row: ReturnType<typeof buildHeaderRows<Sale>>[number]) =>
+  row.map(cell => cell.kind === 'group'
+    ? `${cell.group.header}:${cell.colSpan}`
+    : `${String(cell.column.accessor)}/${cell.rowSpan}`);
+
+describe('columnGroupUtils', () => {
+  it('maps each column to its groups, outermost first', () => {
+    const paths = getColumnGroupPaths(groups);
+    expect(paths.get('feb')!.map(g => g.header)).toEqual(['2024', 'Q1']);
+    expect(paths.get('apr')!.map(g => g.header)).toEqual(['2024']);
+    expect(paths.has('region')).toBe(false);
+  });
+
+  it('rejects a column listed in two groups', () => {
+    expect(() => getColumnGroupPaths<Sale>([q1, { header: 'Early', children: ['jan'] }]))
+      .toThrow('[ReusableTable] Column "jan" appears in more than one column group');
+  });
+
+  it('builds one header row per group level with spans', () => {
+    const rows = buildHeaderRows(columns, groups);
+    expect(rows.map(describeRow)).toEqual([
+      ['region/3', '2024:4', 'total/3'],
+      ['Q1:3', 'apr/2'],
+      ['jan/1', 'feb/1', 'mar/1'],
+    ]);
+  });
+
+  it('splits a group around columns that are not in it and at run key changes', () => {
+    const visible = (['jan', 'region', 'feb', 'mar'] as (keyof Sale)[]).map(column);
+    expect(describeRow(buildHeaderRows(visible, [q1])[0])).toEqual(['Q1:1', 'region/2', 'Q1:2']);
+    expect(describeRow(buildHeaderRows(columns.slice(1, 4), [q1], c => c.accessor === 'jan')[0])).toEqual(['Q1:1', 'Q1:2']);
+  });
+
+  it('moves a grouped column within its group or the whole group past other columns', () => {
+    const keys: (keyof Sale)[] = ['region', 'jan', 'feb', 'mar', 'apr', 'total'];
+    expect(moveColumnWithGroup(keys, 3, 1, groups)).toEqual(['region', 'mar', 'jan', 'feb', 'apr', 'total']);
+    expect(moveColumnWithGroup(keys, 1, 4, groups)).toEqual(['region', 'apr', 'jan', 'feb', 'mar', 'total']);
+    expect(moveColumnWithGroup(keys, 2, 5, groups)).toEqual(['region', 'total', 'jan', 'feb', 'mar', 'apr']);
+    expect(moveColumnWithGroup(keys, 5, 2, groups)).toEqual(['region', 'total', 'jan', 'feb', 'mar', 'apr']);
+  });
+
+  it('inserts a shown column next to its group', () => {
+    expect(insertColumnInGroup<Sale>(['region', 'jan', 'apr', 'total'], 'feb', groups)).toEqual(['region', 'jan', 'feb', 'apr', 'total']);
+    expect(insertColumnInGroup<Sale>(['region', 'total'], 'feb', groups)).toEqual(['region', 'total', 'feb']);
+  });
+});
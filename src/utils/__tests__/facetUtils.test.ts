@@ -0,0 +1,78 @@
+/**
+ * Test Suite: Value List Filters
+ *
+ * Verifies facet values and counts for plain and collection columns, reading
+ * isAnyOf filter values and evaluating isAnyOf filters for every data type.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getFacetValues, parseValueList, serializeValueList } from '../facetUtils';
+import { matchesFilter } from '../filterUtils';
+import type { Column } from '../../types';
+
+interface Ticket {
+  status: string | null;
+  points: number;
+  labels: string[];
+  open: boolean;
+}
+
+const statusColumn: Column<Ticket> = { header: 'Status', accessor: 'status', filterType: 'select' };
+const pointsColumn: Column<Ticket> = { header: 'Points', accessor: 'points', dataType: 'number' };
+const labelsColumn: Column<Ticket> = {
+  header: 'Labels',
+  accessor: 'labels',
+  dataType: 'collection',
+  collectionConfig: {
+    type: 'chip',
+    options: [
+      { value: 'fe', label: 'Frontend' },
+      { value: 'be', label: 'Backend' },
+    ],
+  },
+};
+
+const tickets: Ticket[] = [
+  { status: 'open', points: 3, labels: ['fe', 'be'], open: true },
+  { status: 'closed', points: 10, labels: ['fe'], open: false },
+  { status: 'open', points: 3, labels: [], open: true },
+  { status: null, points: 5, labels: ['be'], open: false },
+];
+
+describe('getFacetValues', () => {
+  it('counts rows per distinct value with blanks last', () => {
+    expect(getFacetValues(tickets, statusColumn)).toEqual([
+      { value: 'closed', label: 'closed', count: 1 },
+      { value: 'open', label: 'open', count: 2 },
+      { value: '', label: '(Blanks)', count: 1 },
+    ]);
+    expect(getFacetValues(tickets, pointsColumn).map(facet => facet.value)).toEqual(['3', '5', '10']);
+  });
+
+  it('counts each value of a collection cell and labels it by its option', () => {
+    expect(getFacetValues(tickets, labelsColumn)).toEqual([
+      { value: 'be', label: 'Backend', count: 2 },
+      { value: 'fe', label: 'Frontend', count: 2 },
+      { value: '', label: '(Blanks)', count: 1 },
+    ]);
+  });
+});
+
+describe('isAnyOf filters', () => {
+  it('reads JSON arrays and comma separated values', () => {
+    expect(parseValueList(serializeValueList(['a, b', '']))).toEqual(['a, b', '']);
+    expect(parseValueList('open, closed')).toEqual(['open', 'closed']);
+  });
+
+  it('matches rows holding any of the values, for every data type', () => {
+    const matching = (column: Column<Ticket>, values: string[]) =>
+      tickets.filter(ticket => matchesFilter(ticket, { key: column.accessor, operator: 'isAnyOf', value: serializeValueList(values) }, column));
+
+    expect(matching(statusColumn, ['closed', ''])).toEqual([tickets[1], tickets[3]]);
+    expect(matching(pointsColumn, ['3'])).toEqual([tickets[0], tickets[2]]);
+    expect(matching(labelsColumn, ['be'])).toEqual([tickets[0], tickets[3]]);
+    expect(matching(labelsColumn, [''])).toEqual([tickets[2]]);
+    expect(matching(statusColumn, [])).toEqual([]);
+    expect(tickets.filter(ticket => matchesFilter(ticket, { key: 'open', operator: 'isAnyOf', value: '["true"]' }))).toEqual([tickets[0], tickets[2]]);
+  });
+});
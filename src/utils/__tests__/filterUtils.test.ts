@@ -0,0 +1,46 @@
+/**
+ * Test Suite: Filter Input Shorthand
+ *
+ * Verifies that shorthand typed into filter inputs is read as the matching
+ * number, text or date operator, and that plain or unfinished input is not.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseOperatorFromInput } from '../filterUtils';
+
+describe('parseOperatorFromInput', () => {
+  it('reads number comparisons and ranges', () => {
+    expect(parseOperatorFromInput('>=10', 'number')).toEqual({ operator: 'gte', value: '10', secondValue: '' });
+    expect(parseOperatorFromInput('!= 3', 'number')).toEqual({ operator: 'neq', value: '3', secondValue: '' });
+    expect(parseOperatorFromInput('20<>50', 'number')).toEqual({ operator: 'between', value: '20', secondValue: '50' });
+    expect(parseOperatorFromInput('1.5..2', 'number')).toEqual({ operator: 'between', value: '1.5', secondValue: '2' });
+    expect(parseOperatorFromInput('>=', 'number')).toBeNull();
+    expect(parseOperatorFromInput('42', 'number')).toBeNull();
+  });
+
+  it('reads text shorthand', () => {
+    expect(parseOperatorFromInput('^abc', 'text')).toEqual({ operator: 'startsWith', value: 'abc', secondValue: '' });
+    expect(parseOperatorFromInput('abc$', 'text')).toEqual({ operator: 'endsWith', value: 'abc', secondValue: '' });
+    expect(parseOperatorFromInput('!abc', 'text')).toEqual({ operator: 'doesNotContain', value: 'abc', secondValue: '' });
+    expect(parseOperatorFromInput('=abc', 'text')).toEqual({ operator: 'equals', value: 'abc', secondValue: '' });
+    expect(parseOperatorFromInput('""', 'text')).toEqual({ operator: 'isEmpty', value: '', secondValue: '' });
+    expect(parseOperatorFromInput('^', 'text')).toBeNull();
+    expect(parseOperatorFromInput('abc', 'text')).toBeNull();
+  });
+
+  it('reads date comparisons, ranges and relative windows', () => {
+    expect(parseOperatorFromInput('>2024-01-01', 'date')).toEqual({ operator: 'isAfter', value: '2024-01-01', secondValue: '' });
+    expect(parseOperatorFromInput('!=2024-01-01', 'date')).toEqual({ operator: 'isNot', value: '2024-01-01', secondValue: '' });
+    expect(parseOperatorFromInput('2024-01..2024-02', 'date')).toEqual({ operator: 'dateRange', value: '2024-01-01', secondValue: '2024-02-29' });
+    expect(parseOperatorFromInput('2023..2024-03-15', 'date')).toEqual({ operator: 'dateRange', value: '2023-01-01', secondValue: '2024-03-15' });
+    expect(parseOperatorFromInput('-7d', 'date')).toEqual({ operator: 'lastNDays', value: '7', secondValue: '' });
+    expect(parseOperatorFromInput('+2w', 'date')).toEqual({ operator: 'nextNWeeks', value: '2', secondValue: '' });
+    expect(parseOperatorFromInput('>2024-01', 'date')).toBeNull();
+    expect(parseOperatorFromInput('2024-13..2024-14', 'date')).toBeNull();
+  });
+
+  it('leaves other filter types alone', () => {
+    expect(parseOperatorFromInput('^abc', 'collection')).toBeNull();
+    expect(parseOperatorFromInput('>5', 'select')).toBeNull();
+  });
+});
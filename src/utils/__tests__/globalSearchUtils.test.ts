@@ -0,0 +1,68 @@
+/**
+ * Test Suite: Global Search Utilities
+ *
+ * Verifies substring, tokenized and fuzzy matching, relevance scores,
+ * searching collection option labels and the ranges used for highlighting.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scoreSearchMatch, matchesSearch, getMatchRanges, editDistance } from '../globalSearchUtils';
+import type { Column } from '../../types';
+
+interface Person {
+  name: string;
+  role: string;
+  skills: string[];
+}
+
+const columns: Column<Person>[] = [
+  { header: 'Name', accessor: 'name' },
+  { header: 'Role', accessor: 'role' },
+  {
+    header: 'Skills',
+    accessor: 'skills',
+    dataType: 'collection',
+    collectionConfig: { type: 'checkbox', options: [{ value: 'fe', label: 'Frontend' }, { value: 'db', label: 'Databases' }] },
+  },
+];
+
+const ada: Person = { name: 'Ada Lovelace', role: 'Senior engineer', skills: ['fe', 'db'] };
+
+describe('globalSearchUtils', () => {
+  it('matches the whole query as one substring in contains mode', () => {
+    expect(matchesSearch(ada, columns, 'love')).toBe(true);
+    expect(matchesSearch(ada, columns, 'ada engineer')).toBe(false);
+  });
+
+  it('requires every word somewhere in the row in tokens mode', () => {
+    expect(matchesSearch(ada, columns, 'engineer ada', 'tokens')).toBe(true);
+    expect(matchesSearch(ada, columns, 'engineer grace', 'tokens')).toBe(false);
+  });
+
+  it('tolerates typos in longer words in fuzzy mode', () => {
+    expect(matchesSearch(ada, columns, 'lovelcae', 'fuzzy')).toBe(true);
+    expect(matchesSearch(ada, columns, 'enginer', 'fuzzy')).toBe(true);
+    expect(matchesSearch(ada, columns, 'adx', 'fuzzy')).toBe(false);
+    expect(editDistance('lovelcae', 'lovelace')).toBe(1);
+  });
+
+  it('scores whole words above prefixes, substrings and typos', () => {
+    const score = (query: string) => scoreSearchMatch(ada, columns, query, 'fuzzy');
+    expect(score('senior')).toBeGreaterThan(score('sen'));
+    expect(score('sen')).toBeGreaterThan(score('enior'));
+    expect(score('enior')).toBeGreaterThan(score('senoir'));
+    expect(score('ada senior')).toBeGreaterThan(score('senior'));
+  });
+
+  it('searches collection option labels as well as raw values', () => {
+    expect(matchesSearch(ada, columns, 'frontend')).toBe(true);
+    expect(matchesSearch(ada, columns, 'db')).toBe(true);
+  });
+
+  it('returns merged ranges to highlight', () => {
+    expect(getMatchRanges('Ada Lovelace', 'love')).toEqual([[4, 8]]);
+    expect(getMatchRanges('Ada Lovelace', 'ada lace', 'tokens')).toEqual([[0, 3], [8, 12]]);
+    expect(getMatchRanges('Senior engineer', 'enginer', 'fuzzy')).toEqual([[7, 15]]);
+    expect(getMatchRanges('aaaa', 'aa aaa', 'tokens')).toEqual([[0, 4]]);
+  });
+});
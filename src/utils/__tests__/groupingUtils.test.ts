@@ -0,0 +1,116 @@
+/**
+ * Test Suite: Group Ordering
+ *
+ * Verifies per-level group ordering (value, count, aggregate, custom list),
+ * the blank group for null/undefined/empty values and collapsed paths.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { groupRows, normalizeGroupBy, getGroupByKeys } from '../groupingUtils';
+import type { Column, DisplayRow, GroupByEntry, GroupHeaderRow } from '../../types';
+
+interface Ticket {
+  id: number;
+  status: string | null | undefined;
+  team: string;
+  estimate: number;
+}
+
+const tickets: Ticket[] = [
+  { id: 1, status: 'Done', team: 'Core', estimate: 1 },
+  { id: 2, status: 'Open', team: 'Core', estimate: 8 },
+  { id: 3, status: 'In progress', team: 'Web', estimate: 3 },
+  { id: 4, status: 'Open', team: 'Web', estimate: 2 },
+  { id: 5, status: null, team: 'Web', estimate: 5 },
+  { id: 6, status: undefined, team: 'Core', estimate: 1 },
+  { id: 7, status: '', team: 'Web', estimate: 1 },
+  { id: 8, status: 'Open', team: 'Web', estimate: 1 },
+];
+
+const columns: Column<Ticket>[] = [
+  { header: 'ID', accessor: 'id', dataType: 'number' },
+  { header: 'Status', accessor: 'status' },
+  { header: 'Team', accessor: 'team' },
+  { header: 'Estimate', accessor: 'estimate', dataType: 'number' },
+];
+
+const headers = (rows: DisplayRow<Ticket>[]) =>
+  rows.filter((row): row is GroupHeaderRow<Ticket> => 'isGroupHeader' in row);
+
+const groupLabels = (groupBy: GroupByEntry<Ticket>[]) =>
+  headers(groupRows(tickets, groupBy, { columns })).map(header => header.groupValue);
+
+describe('groupRows', () => {
+  it('puts null, undefined and empty values in one blank group at the end', () => {
+    const groups = headers(groupRows(tickets, ['status']));
+
+    expect(groups.map(g => g.groupValue)).toEqual(['Done', 'In progress', 'Open', '(Blank)']);
+    expect(groups[3]).toMatchObject({ isBlank: true, count: 3, path: '' });
+    expect(groups.some(g => g.groupValue === 'null' || g.groupValue === 'undefined')).toBe(false);
+  });
+
+  it('uses a custom blank label and position', () => {
+    expect(groupLabels([{ key: 'status', blankLabel: 'No status', blankPosition: 'first' }]))
+      .toEqual(['No status', 'Done', 'In progress', 'Open']);
+  });
+
+  it('orders groups by value descending', () => {
+    expect(groupLabels([{ key: 'status', sort: { by: 'value', direction: 'descending' } }]))
+      .toEqual(['Open', 'In progress', 'Done', '(Blank)']);
+  });
+
+  it('orders groups by row count, most rows first by default', () => {
+    expect(groupLabels([{ key: 'status', sort: { by: 'count' } }]))
+      .toEqual(['Open', 'Done', 'In progress', '(Blank)']);
+    expect(groupLabels([{ key: 'team', sort: { by: 'count', direction: 'ascending' } }]))
+      .toEqual(['Core', 'Web']);
+  });
+
+  it('orders groups by an aggregate of another column', () => {
+    // Core: 1 + 8 + 1 = 10, Web: 3 + 2 + 5 + 1 + 1 = 12
+    expect(groupLabels([{ key: 'team', sort: { by: 'aggregate', column: 'estimate' } }]))
+      .toEqual(['Web', 'Core']);
+    expect(groupLabels([{ key: 'team', sort: { by: 'aggregate', column: 'estimate', aggregate: 'max', direction: 'ascending' } }]))
+      .toEqual(['Web', 'Core']);
+  });
+
+  it('follows a custom order list and appends unlisted values', () => {
+    expect(groupLabels([{ key: 'status', sort: { by: 'custom', order: ['Open', 'In progress'] } }]))
+      .toEqual(['Open', 'In progress', 'Done', '(Blank)']);
+  });
+
+  it('applies options per level and keeps blank paths distinct when nested', () => {
+    const rows = groupRows(tickets, [{ key: 'status', blankPosition: 'first' }, { key: 'team', sort: { by: 'value', direction: 'descending' } }]);
+    const paths = headers(rows).map(header => header.path);
+
+    expect(paths.slice(0, 3)).toEqual(['', '|Web', '|Core']);
+    expect(new Set(paths).size).toBe(paths.length);
+  });
+
+  it('leaves out the rows of collapsed groups', () => {
+    const rows = groupRows(tickets, ['status'], { collapsedGroups: new Set(['', 'Open']) });
+    const openIndex = rows.findIndex(row => 'isGroupHeader' in row && row.groupValue === 'Open');
+
+    expect('isGroupHeader' in rows[openIndex + 1]).toBe(true);
+    expect(rows[rows.length - 1]).toMatchObject({ isBlank: true });
+  });
+
+  it('sorts numeric group values numerically', () => {
+    const items = [9, 10, 2].map(estimate => ({ ...tickets[0], estimate }));
+    expect(headers(groupRows(items, ['estimate'])).map(g => g.groupValue)).toEqual(['2', '9', '10']);
+  });
+
+  it('throws for an aggregate sort on an unknown column', () => {
+    expect(() => groupRows(tickets, [{ key: 'team', sort: { by: 'aggregate', column: 'missing' as keyof Ticket } }], { columns }))
+      .toThrow(/unknown column "missing"/);
+  });
+});
+
+describe('normalizeGroupBy', () => {
+  it('accepts plain keys and level objects', () => {
+    const groupBy: GroupByEntry<Ticket>[] = ['team', { key: 'status', sort: { by: 'count' } }];
+
+    expect(normalizeGroupBy(groupBy)).toEqual([{ key: 'team' }, { key: 'status', sort: { by: 'count' } }]);
+    expect(getGroupByKeys(groupBy)).toEqual(['team', 'status']);
+  });
+});
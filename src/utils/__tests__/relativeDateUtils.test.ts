@@ -0,0 +1,71 @@
+/**
+ * Test Suite: Relative Date Filters
+ *
+ * Verifies that relative operators (today, last N days, quarter to date, ...)
+ * resolve to the right inclusive ranges and are applied at filter time.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRelativeDateRange, parseCellDate, isRelativeDateOperator } from '../relativeDateUtils';
+import { matchesFilter } from '../filterUtils';
+import type { Column } from '../../types';
+
+// Wednesday, 14 May 2025, mid-afternoon local time
+const now = new Date(2025, 4, 14, 15, 30);
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date);
+const endOf = (year: number, month: number, date: number) => new Date(year, month - 1, date, 23, 59, 59, 999);
+
+describe('getRelativeDateRange', () => {
+  it('resolves fixed periods around the current date', () => {
+    expect(getRelativeDateRange('today', '', now)).toEqual({ start: day(2025, 5, 14), end: endOf(2025, 5, 14) });
+    expect(getRelativeDateRange('yesterday', '', now)).toEqual({ start: day(2025, 5, 13), end: endOf(2025, 5, 13) });
+    expect(getRelativeDateRange('thisWeek', '', now)).toEqual({ start: day(2025, 5, 12), end: endOf(2025, 5, 18) });
+    expect(getRelativeDateRange('thisMonth', '', now)).toEqual({ start: day(2025, 5, 1), end: endOf(2025, 5, 31) });
+    expect(getRelativeDateRange('lastMonth', '', now)).toEqual({ start: day(2025, 4, 1), end: endOf(2025, 4, 30) });
+    expect(getRelativeDateRange('quarterToDate', '', now)).toEqual({ start: day(2025, 4, 1), end: endOf(2025, 5, 14) });
+    expect(getRelativeDateRange('yearToDate', '', now)).toEqual({ start: day(2025, 1, 1), end: endOf(2025, 5, 14) });
+  });
+
+  it('resolves rolling windows of N days, weeks and months', () => {
+    expect(getRelativeDateRange('lastNDays', '7', now)).toEqual({ start: day(2025, 5, 8), end: endOf(2025, 5, 14) });
+    expect(getRelativeDateRange('nextNDays', '3', now)).toEqual({ start: day(2025, 5, 14), end: endOf(2025, 5, 16) });
+    expect(getRelativeDateRange('lastNWeeks', '2', now)).toEqual({ start: day(2025, 5, 1), end: endOf(2025, 5, 14) });
+    expect(getRelativeDateRange('lastNMonths', '3', now)).toEqual({ start: day(2025, 2, 14), end: endOf(2025, 5, 14) });
+    expect(getRelativeDateRange('nextNMonths', '1', new Date(2025, 0, 31))).toEqual({ start: day(2025, 1, 31), end: endOf(2025, 2, 28) });
+  });
+
+  it('returns null for a missing or invalid count', () => {
+    expect(getRelativeDateRange('lastNDays', '', now)).toBeNull();
+    expect(getRelativeDateRange('lastNDays', '-2', now)).toBeNull();
+    expect(getRelativeDateRange('nextNWeeks', '1.5', now)).toBeNull();
+  });
+});
+
+describe('relative date filters', () => {
+  const column: Column<{ due: string }> = { header: 'Due', accessor: 'due', dataType: 'date' };
+  const isoDay = (offset: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() + offset);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  };
+
+  it('evaluates against the current date when the filter runs', () => {
+    expect(matchesFilter({ due: isoDay(0) }, { key: 'due', operator: 'today', value: '' }, column)).toBe(true);
+    expect(matchesFilter({ due: isoDay(-1) }, { key: 'due', operator: 'today', value: '' }, column)).toBe(false);
+    expect(matchesFilter({ due: isoDay(-6) }, { key: 'due', operator: 'lastNDays', value: '7' }, column)).toBe(true);
+    expect(matchesFilter({ due: isoDay(-7) }, { key: 'due', operator: 'lastNDays', value: '7' }, column)).toBe(false);
+  });
+
+  it('excludes rows without a date but ignores an incomplete count', () => {
+    expect(matchesFilter({ due: '' }, { key: 'due', operator: 'yesterday', value: '' }, column)).toBe(false);
+    expect(matchesFilter({ due: '' }, { key: 'due', operator: 'lastNDays', value: '' }, column)).toBe(true);
+  });
+
+  it('reads date-only strings as local calendar days', () => {
+    expect(parseCellDate('2025-05-14')).toEqual(day(2025, 5, 14));
+    expect(parseCellDate('not a date')).toBeNull();
+    expect(isRelativeDateOperator('lastNMonths')).toBe(true);
+    expect(isRelativeDateOperator('isBefore')).toBe(false);
+  });
+});
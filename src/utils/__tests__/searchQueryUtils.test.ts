@@ -0,0 +1,97 @@
+/**
+ * Test Suite: Search Query Language
+ *
+ * Verifies parsing field terms, exclusions and phrases, compiling them into
+ * filters and a row scorer, syntax errors and field name completion.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSearchQuery, compileSearchQuery, getSearchFieldSuggestions, applySearchFieldSuggestion } from '../searchQueryUtils';
+import type { Column } from '../../types';
+
+interface Product {
+  name: string;
+  status: string;
+  unitPrice: number;
+  notes: string;
+}
+
+const columns: Column<Product>[] = [
+  { header: 'Name', accessor: 'name' },
+  { header: 'Status', accessor: 'status' },
+  { header: 'Unit Price', accessor: 'unitPrice', dataType: 'currency' },
+  { header: 'Notes', accessor: 'notes' },
+];
+
+const products: Product[] = [
+  { name: 'Anvil', status: 'active', unitPrice: 150, notes: 'Ships in a wooden crate' },
+  { name: 'Rocket', status: 'active', unitPrice: 90, notes: 'Archived catalogue item' },
+  { name: 'Magnet', status: 'retired', unitPrice: 300, notes: 'Ships in a wooden crate' },
+];
+
+describe('searchQueryUtils', () => {
+  it('parses field terms, exclusions and quoted phrases', () => {
+    const { terms, errors } = parseSearchQuery('status:active price:>100 -archived "wooden crate"', [
+      ...columns,
+      { header: 'Price', accessor: 'unitPrice', dataType: 'number' },
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(terms).toEqual([
+      expect.objectContaining({ kind: 'field', filter: { key: 'status', operator: 'contains', value: 'active' }, negated: false }),
+      expect.objectContaining({ kind: 'field', filter: { key: 'unitPrice', operator: 'gt', value: '100', secondValue: '' }, negated: false }),
+      { kind: 'text', text: 'archived', phrase: false, negated: true },
+      { kind: 'text', text: 'wooden crate', phrase: true, negated: false },
+    ]);
+  });
+
+  it('matches fields by accessor or header, ignoring case and spaces', () => {
+    const { terms } = parseSearchQuery('UNITPRICE:10..20 unit_price:=5', columns);
+    expect(terms.map(term => term.kind === 'field' && term.filter)).toEqual([
+      { key: 'unitPrice', operator: 'between', value: '10', secondValue: '20' },
+      { key: 'unitPrice', operator: 'eq', value: '5', secondValue: '' },
+    ]);
+  });
+
+  it('compiles to filters and a scorer that applies every term', () => {
+    const compiled = compileSearchQuery('status:active unitprice:>100 -archived "wooden crate"', columns);
+    expect(compiled.filters).toEqual([
+      { key: 'status', operator: 'contains', value: 'active' },
+      { key: 'unitPrice', operator: 'gt', value: '100', secondValue: '' },
+    ]);
+    expect(products.filter(product => compiled.score(product) > 0).map(product => product.name)).toEqual(['Anvil']);
+    expect(compiled.textQuery).toBe('wooden crate');
+    expect(compiled.remainingQuery).toBe('-archived "wooden crate"');
+
+    const excluding = compileSearchQuery('-status:active ships', columns);
+    expect(products.filter(product => excluding.score(product) > 0).map(product => product.name)).toEqual(['Magnet']);
+    expect(excluding.remainingQuery).toBe('-status:active ships');
+  });
+
+  it('reports bad values and open quotes', () => {
+    const { terms, errors } = parseSearchQuery('unitprice:cheap anvil "open', columns);
+    expect(errors).toEqual([
+      { message: '"unitprice" needs a number, e.g. unitprice:>100 or unitprice:10..20', start: 0, end: 15 },
+      { message: 'Missing closing quote', start: 22, end: 27 },
+    ]);
+    expect(terms).toEqual([{ kind: 'text', text: 'anvil', phrase: false, negated: false }]);
+    expect(parseSearchQuery('status:', columns)).toEqual({ terms: [], errors: [] });
+  });
+
+  it('reads prefixes that name no column as text, e.g. times and URLs', () => {
+    const { terms, errors } = parseSearchQuery('10:30 -https://example.com colour:red', columns);
+    expect(errors).toEqual([]);
+    expect(terms).toEqual([
+      { kind: 'text', text: '10:30', phrase: false, negated: false },
+      { kind: 'text', text: 'https://example.com', phrase: false, negated: true },
+      { kind: 'text', text: 'colour:red', phrase: false, negated: false },
+    ]);
+  });
+
+  it('suggests field names for the word being typed', () => {
+    expect(getSearchFieldSuggestions('anvil -st', columns)).toEqual([{ value: 'status:', description: 'Status' }]);
+    expect(getSearchFieldSuggestions('un', columns)).toEqual([{ value: 'unitPrice:', description: 'Unit Price' }]);
+    expect(getSearchFieldSuggestions('status:', columns)).toEqual([]);
+    expect(applySearchFieldSuggestion('anvil -st', 'status:')).toBe('anvil -status:');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Test Suite: Row Sorting
+ *
+ * Verifies per-column sort options: natural and locale-aware string modes,
+ * derived sort values, custom comparators and the empty value policy.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRowComparator } from '../sortUtils';
+import type { Column, SortConfig } from '../../types';
+
+interface Item {
+  name: string | null;
+  label: string;
+  score?: number | null;
+}
+
+const sortBy = (items: Item[], columns: Column<Item>[], sortConfig: SortConfig<Item>[]) =>
+  [...items].sort(createRowComparator(sortConfig, columns));
+
+describe('createRowComparator', () => {
+  it('orders embedded numbers naturally in natural mode', () => {
+    const items = ['item 10', 'Item 2', 'item 1'].map(name => ({ name, label: '' }));
+    const columns: Column<Item>[] = [{ header: 'Name', accessor: 'name', sortMode: 'natural' }];
+
+    expect(sortBy(items, columns, [{ key: 'name', direction: 'ascending' }]).map(i => i.name))
+      .toEqual(['item 1', 'Item 2', 'item 10']);
+    // Basic mode keeps the plain string comparison
+    expect(sortBy(items, [{ header: 'Name', accessor: 'name' }], [{ key: 'name', direction: 'ascending' }]).map(i => i.name))
+      .toEqual(['item 1', 'item 10', 'Item 2']);
+  });
+
+  it('uses Intl.Collator in locale mode', () => {
+    const items = ['Zoe', 'Émile', 'Eve', 'Ängel'].map(name => ({ name, label: '' }));
+    const german: Column<Item>[] = [{ header: 'Name', accessor: 'name', sortMode: 'locale', sortLocale: 'de' }];
+    const swedish: Column<Item>[] = [{ header: 'Name', accessor: 'name', sortMode: 'locale', sortLocale: 'sv' }];
+
+    expect(sortBy(items, german, [{ key: 'name', direction: 'ascending' }]).map(i => i.name))
+      .toEqual(['Ängel', 'Émile', 'Eve', 'Zoe']);
+    // Swedish sorts Ä after Z
+    expect(sortBy(items, swedish, [{ key: 'name', direction: 'ascending' }]).map(i => i.name))
+      .toEqual(['Émile', 'Eve', 'Zoe', 'Ängel']);
+  });
+
+  it('sorts by a derived sortValue or a custom sortFn', () => {
+    const items: Item[] = [
+      { name: 'a', label: 'Priority: low' },
+      { name: 'b', label: 'Priority: high' },
+      { name: 'c', label: 'Priority: medium' },
+    ];
+    const rank: Record<string, number> = { 'Priority: high': 0, 'Priority: medium': 1, 'Priority: low': 2 };
+
+    const byValue: Column<Item>[] = [{ header: 'Label', accessor: 'label', sortValue: row => rank[row.label] }];
+    expect(sortBy(items, byValue, [{ key: 'label', direction: 'ascending' }]).map(i => i.name)).toEqual(['b', 'c', 'a']);
+
+    const byFn: Column<Item>[] = [{ header: 'Label', accessor: 'label', sortFn: (a, b) => rank[a.label] - rank[b.label] }];
+    expect(sortBy(items, byFn, [{ key: 'label', direction: 'descending' }]).map(i => i.name)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('keeps empty values last by default and first when configured, in both directions', () => {
+    const items: Item[] = [
+      { name: 'a', label: '', score: 2 },
+      { name: 'b', label: '', score: null },
+      { name: 'c', label: '', score: 1 },
+      { name: 'd', label: '' },
+    ];
+    const last: Column<Item>[] = [{ header: 'Score', accessor: 'score', dataType: 'number' }];
+    const first: Column<Item>[] = [{ header: 'Score', accessor: 'score', dataType: 'number', sortNulls: 'first' }];
+
+    expect(sortBy(items, last, [{ key: 'score', direction: 'ascending' }]).map(i => i.name)).toEqual(['c', 'a', 'b', 'd']);
+    expect(sortBy(items, last, [{ key: 'score', direction: 'descending' }]).map(i => i.name)).toEqual(['a', 'c', 'b', 'd']);
+    expect(sortBy(items, first, [{ key: 'score', direction: 'descending' }]).map(i => i.name)).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('falls through to the next sort key on ties', () => {
+    const items: Item[] = [
+      { name: 'x', label: 'B', score: 1 },
+      { name: 'y', label: 'A', score: 1 },
+      { name: 'z', label: 'C', score: 0 },
+    ];
+    const columns: Column<Item>[] = [
+      { header: 'Score', accessor: 'score', dataType: 'number' },
+      { header: 'Label', accessor: 'label' },
+    ];
+
+    expect(sortBy(items, columns, [{ key: 'score', direction: 'descending' }, { key: 'label', direction: 'ascending' }]).map(i => i.name))
+      .toEqual(['y', 'x', 'z']);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Test Suite: Tree Data Utilities
+ *
+ * Verifies building trees from nested rows and parent ids, filtering that
+ * keeps ancestors, per-level sorting and flattening below expanded rows.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTree, filterTree, sortTree, flattenTree, getDescendantRows } from '../treeUtils';
+
+interface Part {
+  name: string;
+  parts?: Part[];
+}
+
+interface Employee {
+  id: number;
+  name: string;
+  managerId: number | null;
+}
+
+const bike: Part[] = [
+  { name: 'Frame' },
+  {
+    name: 'Wheel',
+    parts: [{ name: 'Spoke' }, { name: 'Rim', parts: [{ name: 'Tape' }] }],
+  },
+];
+
+const staff: Employee[] = [
+  { id: 3, name: 'Cleo', managerId: 1 },
+  { id: 1, name: 'Ada', managerId: null },
+  { id: 2, name: 'Bob', managerId: 1 },
+  { id: 4, name: 'Dan', managerId: 2 },
+];
+
+const names = <T extends { name: string }>(rows: T[]) => rows.map(row => row.name);
+
+describe('treeUtils', () => {
+  it('builds nested rows with index path ids', () => {
+    const { roots, nodes } = buildTree(bike, { getSubRows: part => part.parts });
+
+    expect(roots.map(node => node.id)).toEqual(['0', '1']);
+    const tape = bike[1].parts![1].parts![0];
+    expect(nodes.get(tape)).toMatchObject({ id: '1.1.0', depth: 2 });
+    expect(names(flattenTree(roots).rows)).toEqual(['Frame', 'Wheel', 'Spoke', 'Rim', 'Tape']);
+  });
+
+  it('builds a flat list through parent ids', () => {
+    const { roots, nodes } = buildTree(staff, { parentIdAccessor: 'managerId' });
+
+    expect(names(roots.map(node => node.row))).toEqual(['Ada']);
+    expect(names(getDescendantRows(nodes.get(staff[1])))).toEqual(['Cleo', 'Bob', 'Dan']);
+    expect(nodes.get(staff[3])).toMatchObject({ id: 4, depth: 2 });
+  });
+
+  it('rejects parent cycles', () => {
+    const cyclic: Employee[] = [
+      { id: 1, name: 'Ada', managerId: 2 },
+      { id: 2, name: 'Bob', managerId: 1 },
+    ];
+    expect(() => buildTree(cyclic, { parentIdAccessor: 'managerId' }))
+      .toThrow('[ReusableTable] Tree rows form a cycle through "managerId" (row id "1")');
+  });
+
+  it('keeps the ancestors of matching rows when filtering', () => {
+    const { roots } = buildTree(bike, { getSubRows: part => part.parts });
+    const filtered = filterTree(roots, part => part.name === 'Tape');
+    expect(names(flattenTree(filtered).rows)).toEqual(['Wheel', 'Rim', 'Tape']);
+  });
+
+  it('sorts within each level and lists only rows below expanded parents', () => {
+    const { roots } = buildTree(staff, { parentIdAccessor: 'managerId' });
+    const sorted = sortTree(roots, (a, b) => b.name.localeCompare(a.name));
+
+    expect(names(flattenTree(sorted).rows)).toEqual(['Ada', 'Cleo', 'Bob', 'Dan']);
+    const { rows, info } = flattenTree(sorted, id => id === 1);
+    expect(names(rows)).toEqual(['Ada', 'Cleo', 'Bob']);
+    expect(info.get(staff[2])).toEqual({ id: 2, depth: 1, subRowCount: 1, isExpanded: false });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Test Suite: URL Table State
+ *
+ * Verifies the versioned query-string format: round trips, escaping, prefixes,
+ * unknown columns and unsupported versions.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { serializeTableState, parseTableState, mergeTableStateIntoQuery } from '../urlStateUtils';
+import type { Column, UrlTableState } from '../../types';
+
+interface Product {
+  name: string;
+  price: number;
+  'odd:key,-name': string;
+}
+
+const columns: Column<Product>[] = [
+  { header: 'Name', accessor: 'name' },
+  { header: 'Price', accessor: 'price', dataType: 'number' },
+  { header: 'Odd', accessor: 'odd:key,-name' },
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('serializeTableState / parseTableState', () => {
+  it('round-trips sort, filters with ranges, paging, columns and grouping', () => {
+    const state: UrlTableState<Product> = {
+      sortConfig: [{ key: 'name', direction: 'ascending' }, { key: 'price', direction: 'descending' }],
+      filters: [
+        { key: 'name', operator: 'contains', value: 'Desk lamp' },
+        { key: 'price', operator: 'between', value: '10', secondValue: '20' },
+      ],
+      page: 3,
+      pageSize: 25,
+      visibleColumns: ['name', 'price'],
+      groupBy: ['name'],
+    };
+
+    const query = serializeTableState(state);
+
+    expect(query).toBe('v=1&sort=name,-price&filter=name:contains:Desk%20lamp,price:between:10:20&page=3&size=25&cols=name,price&group=name');
+    expect(parseTableState(query, { columns })).toEqual(state);
+  });
+
+  it('escapes separators inside keys and values', () => {
+    const state: UrlTableState<Product> = {
+      sortConfig: [{ key: 'odd:key,-name', direction: 'descending' }],
+      filters: [{ key: 'odd:key,-name', operator: 'equals', value: 'a:b,c~d' }],
+    };
+
+    expect(parseTableState(`?${serializeTableState(state)}`, { columns })).toEqual(state);
+  });
+
+  it('leaves out empty state and page 1', () => {
+    expect(serializeTableState({ visibleColumns: [], groupBy: [], page: 1 })).toBe('');
+  });
+
+  it('keeps an explicitly empty sort and filter list', () => {
+    const state: UrlTableState<Product> = { sortConfig: [], filters: [] };
+    const query = serializeTableState(state);
+
+    expect(query).toBe('v=1&sort=&filter=');
+    expect(parseTableState(query, { columns })).toEqual(state);
+  });
+
+  it('uses the prefix for every parameter', () => {
+    const query = serializeTableState<Product>({ page: 2 }, 'orders.');
+
+    expect(query).toBe('orders.v=1&orders.page=2');
+    expect(parseTableState(query, { columns, prefix: 'orders.' })).toEqual({ page: 2 });
+    expect(parseTableState(query, { columns })).toEqual({});
+  });
+
+  it('drops unknown columns with a warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const state = parseTableState<Product>('v=1&sort=-legacy,name&filter=gone:equals:x&cols=name,gone', { columns });
+
+    expect(state).toEqual({
+      sortConfig: [{ key: 'name', direction: 'ascending' }],
+      filters: [],
+      visibleColumns: ['name'],
+    });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('"legacy", "gone"');
+  });
+
+  it('ignores queries from an unsupported version', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(parseTableState('v=2&page=4', { columns })).toEqual({});
+    expect(warn.mock.calls[0][0]).toContain('version "2"');
+  });
+
+  it('ignores invalid page numbers', () => {
+    expect(parseTableState('page=0&size=abc', { columns })).toEqual({});
+  });
+});
+
+describe('mergeTableStateIntoQuery', () => {
+  it('replaces the table parameters and keeps the others', () => {
+    expect(mergeTableStateIntoQuery<Product>('?tab=2&page=5&sort=price', { page: 2 })).toBe('tab=2&v=1&page=2');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Test Suite: Saved View Storage
+ *
+ * Verifies schema migrations, column renames across every part of a view and
+ * the localStorage adapter.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  migrateStoredViews,
+  renameViewColumns,
+  createColumnRenameMigration,
+  createLocalStorageAdapter,
+} from '../viewStorage';
+import type { StoredViews, ViewConfiguration } from '../../types';
+
+interface Order {
+  id: number;
+  customer: string;
+  total: number;
+  region: string;
+}
+
+const legacyView = {
+  id: 'big',
+  name: 'Big orders',
+  visibleColumns: ['id', 'client', 'amount'],
+  groupBy: ['area', { key: 'client', sort: { by: 'aggregate', column: 'amount' } }],
+  sortConfig: [{ key: 'amount', direction: 'descending' }],
+  filterConfig: [{ key: 'amount', operator: 'gt', value: '100' }],
+  filterExpression: {
+    combinator: 'or',
+    children: [
+      { key: 'client', operator: 'contains', value: 'acme' },
+      { combinator: 'and', children: [{ key: 'area', operator: 'equals', value: 'EU' }] },
+    ],
+  },
+  pivot: { rows: ['area'], columns: ['client'], value: 'amount', aggregate: 'sum' },
+  columnWidths: { id: 80, client: 240 },
+  pinnedColumns: { left: ['client'], right: ['amount'] },
+} as unknown as ViewConfiguration<Order>;
+
+const renames = { client: 'customer', amount: 'total', area: 'region' };
+
+afterEach(() => {
+  window.localStorage.clear();
+});
+
+describe('renameViewColumns', () => {
+  it('renames keys in columns, grouping, sorting, filters, expressions, pivot, widths and pins', () => {
+    expect(renameViewColumns(legacyView, renames)).toEqual({
+      id: 'big',
+      name: 'Big orders',
+      visibleColumns: ['id', 'customer', 'total'],
+      groupBy: ['region', { key: 'customer', sort: { by: 'aggregate', column: 'total' } }],
+      sortConfig: [{ key: 'total', direction: 'descending' }],
+      filterConfig: [{ key: 'total', operator: 'gt', value: '100' }],
+      filterExpression: {
+        combinator: 'or',
+        children: [
+          { key: 'customer', operator: 'contains', value: 'acme' },
+          { combinator: 'and', children: [{ key: 'region', operator: 'equals', value: 'EU' }] },
+        ],
+      },
+      pivot: { rows: ['region'], columns: ['customer'], value: 'total', aggregate: 'sum' },
+      columnWidths: { id: 80, customer: 240 },
+      pinnedColumns: { left: ['customer'], right: ['total'] },
+    });
+  });
+});
+
+describe('migrateStoredViews', () => {
+  const stored: StoredViews<Order> = { schemaVersion: 1, views: [legacyView], defaultViewId: 'big' };
+
+  it('applies each migration up to the current version', () => {
+    const migrated = migrateStoredViews(stored, 3, {
+      1: createColumnRenameMigration(renames),
+      2: s => ({ ...s, views: s.views.map(v => ({ ...v, name: v.name!.toUpperCase() })) }),
+    });
+
+    expect(migrated.schemaVersion).toBe(3);
+    expect(migrated.defaultViewId).toBe('big');
+    expect(migrated.views[0].name).toBe('BIG ORDERS');
+    expect(migrated.views[0].visibleColumns).toEqual(['id', 'customer', 'total']);
+  });
+
+  it('treats unversioned data as version 1 and leaves current data alone', () => {
+    const unversioned = { views: [legacyView] } as unknown as StoredViews<Order>;
+
+    expect(migrateStoredViews(unversioned, 1)).toEqual({ schemaVersion: 1, views: [legacyView] });
+  });
+
+  it('throws for a missing migration step or a newer schema', () => {
+    expect(() => migrateStoredViews(stored, 2)).toThrow(/No migration for saved views from schema version 1 to 2/);
+    expect(() => migrateStoredViews({ ...stored, schemaVersion: 5 }, 2)).toThrow(/newer than the supported version 2/);
+  });
+});
+
+describe('createLocalStorageAdapter', () => {
+  it('round-trips views as JSON under its key', () => {
+    const adapter = createLocalStorageAdapter<Order>('orders-views');
+    expect(adapter.load()).toBeNull();
+
+    adapter.save({ schemaVersion: 2, views: [legacyView] });
+
+    expect(JSON.parse(window.localStorage.getItem('orders-views')!).schemaVersion).toBe(2);
+    expect(adapter.load()).toEqual({ schemaVersion: 2, views: [legacyView] });
+  });
+
+  it('reports corrupt data', () => {
+    window.localStorage.setItem('orders-views', '{oops');
+    expect(() => createLocalStorageAdapter('orders-views').load()).toThrow(/not valid JSON/);
+  });
+});
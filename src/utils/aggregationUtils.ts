@@ -0,0 +1,129 @@
+import type { Column, AggregateValues, AggregationType } from '../types';
+
+/**
+ * Column aggregation utilities
+ *
+ * Computes Column.aggregate over a set of rows (a group, or the whole filtered
+ * table) and formats the results the same way the column's cells are formatted.
+ */
+
+const isEmptyValue = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+const toTime = (value: unknown): number => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string') return new Date(value).getTime();
+  return NaN;
+};
+
+// Stable key for distinct counting; collections compare by their sorted values
+const toDistinctKey = (value: unknown): string => {
+  if (Array.isArray(value)) return JSON.stringify([...value].map(String).sort());
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Aggregates one column over rows. Empty cells are skipped; sum/avg only use
+ * numbers, min/max also compare dates and return the original cell value.
+ * Returns null when nothing could be aggregated.
+ */
+export const computeAggregate = <T,>(column: Column<T>, rows: T[]): unknown => {
+  const aggregate = column.aggregate;
+  if (!aggregate) return null;
+
+  const values = rows.map(row => row[column.accessor]).filter(value => !isEmptyValue(value));
+
+  if (typeof aggregate === 'function') {
+    return aggregate(values, rows);
+  }
+
+  switch (aggregate) {
+    case 'count':
+      return values.length;
+    case 'countDistinct':
+      return new Set(values.map(toDistinctKey)).size;
+    case 'sum':
+    case 'avg': {
+      const numbers = values.filter((value): value is T[keyof T] & number => typeof value === 'number' && !isNaN(value));
+      if (numbers.length === 0) return null;
+      const sum = numbers.reduce((total, value) => total + value, 0);
+      return aggregate === 'sum' ? sum : sum / numbers.length;
+    }
+    case 'min':
+    case 'max': {
+      const isDate = column.dataType === 'date' || column.dataType === 'datetime';
+      const comparable = values
+        .map(value => ({ value, key: isDate ? toTime(value) : typeof value === 'number' ? value : NaN }))
+        .filter(entry => !isNaN(entry.key));
+      if (comparable.length === 0) return null;
+      return comparable.reduce((best, entry) =>
+        (aggregate === 'min' ? entry.key < best.key : entry.key > best.key) ? entry : best
+      ).value;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Aggregates every column that defines an aggregate
+ */
+export const computeAggregates = <T,>(columns: Column<T>[], rows: T[]): AggregateValues<T> => {
+  const result: AggregateValues<T> = {};
+  for (const column of columns) {
+    if (column.aggregate) {
+      result[column.accessor] = computeAggregate(column, rows);
+    }
+  }
+  return result;
+};
+
+// Display names for the built-in aggregations
+export const AggregationLabels: Record<AggregationType, string> = {
+  sum: 'Sum',
+  avg: 'Avg',
+  min: 'Min',
+  max: 'Max',
+  count: 'Count',
+  countDistinct: 'Distinct',
+};
+
+/**
+ * Short label for a column's aggregation; empty for custom reducers
+ */
+export const getAggregationLabel = <T,>(column: Column<T>): string => {
+  return typeof column.aggregate === 'string' ? AggregationLabels[column.aggregate] : '';
+};
+
+/**
+ * Formats an aggregate for display using the column's currencyOptions/dateOptions.
+ * Counts are always plain numbers.
+ */
+export const formatAggregateValue = <T,>(value: unknown, column: Column<T>): string => {
+  if (value === null || value === undefined) return '';
+  if (column.aggregate === 'count' || column.aggregate === 'countDistinct') return Number(value).toLocaleString();
+
+  if (typeof value === 'number') {
+    if (column.dataType === 'currency' && column.currencyOptions) {
+      return new Intl.NumberFormat(column.currencyOptions.locale, {
+        style: 'currency',
+        currency: column.currencyOptions.currency,
+      }).format(value);
+    }
+    return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+
+  if ((column.dataType === 'date' || column.dataType === 'datetime') && column.dateOptions && !isNaN(toTime(value))) {
+    try {
+      return new Intl.DateTimeFormat(column.dateOptions.locale, {
+        dateStyle: column.dateOptions.dateStyle,
+        timeStyle: column.dateOptions.timeStyle,
+        timeZone: 'UTC',
+      }).format(new Date(toTime(value)));
+    } catch {
+      return String(value);
+    }
+  }
+
+  return String(value);
+};
@@ -183,34 +183,43 @@ export class CollectionDataManager {
   }
   
   /**
-   * Extract unique values from collection data for filtering
+   * Extract unique values from column data for filtering, labelled by their
+   * collection option where there is one. Empty cells are skipped.
    */
   static extractUniqueValues<T>(
     data: T[],
     column: Column<T>
   ): CollectionOption[] {
-    if (!column.collectionConfig) return [];
-    
     const valuesSet = new Set<string>();
-    const config = column.collectionConfig;
     
     data.forEach(item => {
-      const value = item[column.accessor];
-      const normalized = this.normalizeCollectionValue(value, config);
-      
-      if (config.type === 'radio') {
-        const stringValue = typeof normalized === 'string' ? normalized : '';
-        if (stringValue) valuesSet.add(stringValue);
-      } else {
-        const arrayValue = Array.isArray(normalized) ? normalized : [];
-        arrayValue.forEach(v => valuesSet.add(v));
-      }
+      this.getCellValues(item, column).forEach(value => {
+        if (value) valuesSet.add(value);
+      });
     });
     
-    return Array.from(valuesSet).sort().map(value => ({
-      value,
-      label: value
-    }));
+    const config = column.collectionConfig;
+    const options = config ? (typeof config.options === 'function' ? config.options() : config.options) : [];
+    return Array.from(valuesSet)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .map(value => ({
+        value,
+        label: options.find(option => option.value === value)?.label ?? value
+      }));
+  }
+  
+  /**
+   * Values of one cell as strings: each selected value of a collection
+   * cell, or the cell value itself ('' when empty)
+   */
+  static getCellValues<T>(item: T, column: Column<T>): string[] {
+    const value = item[column.accessor];
+    if (column.collectionConfig) {
+      const normalized = this.normalizeCollectionValue(value, column.collectionConfig);
+      return Array.isArray(normalized) ? normalized : normalized ? [normalized] : [];
+    }
+    if (Array.isArray(value)) return value.map(String);
+    return value === null || value === undefined ? [''] : [String(value)];
   }
   
   /**
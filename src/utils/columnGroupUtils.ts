@@ -0,0 +1,118 @@
+import type { Column, ColumnGroup } from '../types';
+
+export type HeaderCell<T> =
+  | { kind: 'group'; group: ColumnGroup<T>; columns: Column<T>[]; colSpan: number }
+  | { kind: 'column'; column: Column<T>; index: number; rowSpan: number };
+
+const isColumnGroup = <T,>(child: keyof T | ColumnGroup<T>): child is ColumnGroup<T> =>
+  typeof child === 'object' && child !== null && Array.isArray((child as ColumnGroup<T>).children);
+
+/**
+ * Maps every grouped column accessor to its groups, outermost first
+ */
+export const getColumnGroupPaths = <T,>(groups: ColumnGroup<T>[] = []): Map<keyof T, ColumnGroup<T>[]> => {
+  const paths = new Map<keyof T, ColumnGroup<T>[]>();
+  const visit = (group: ColumnGroup<T>, ancestors: ColumnGroup<T>[]) => {
+    const path = [...ancestors, group];
+    group.children.forEach(child => {
+      if (isColumnGroup(child)) {
+        visit(child, path);
+        return;
+      }
+      if (paths.has(child)) {
+        throw new Error(
+          `[ReusableTable] Column "${String(child)}" appears in more than one column group. ` +
+          'Nest groups instead, e.g. { header: "2024", children: [{ header: "Q1", children: ["jan", "feb", "mar"] }] }'
+        );
+      }
+      paths.set(child, path);
+    });
+  };
+  groups.forEach(group => visit(group, []));
+  return paths;
+};
+
+/**
+ * Header rows for the given columns: one row per group level plus the column
+ * row. Adjacent columns under the same group share one cell; `getRunKey` can
+ * split a run, e.g. where pinned columns meet unpinned ones. Columns with fewer
+ * groups than the deepest column span the remaining rows.
+ */
+export const buildHeaderRows = <T,>(
+  columns: Column<T>[],
+  groups: ColumnGroup<T>[] = [],
+  getRunKey: (column: Column<T>) => unknown = () => undefined
+): HeaderCell<T>[][] => {
+  const paths = getColumnGroupPaths(groups);
+  const columnPaths = columns.map(column => paths.get(column.accessor) ?? []);
+  const depth = Math.max(0, ...columnPaths.map(path => path.length));
+
+  return Array.from({ length: depth + 1 }, (_, level) => {
+    const row: HeaderCell<T>[] = [];
+    columns.forEach((column, index) => {
+      const path = columnPaths[index];
+      if (level === path.length) {
+        row.push({ kind: 'column', column, index, rowSpan: depth - level + 1 });
+      } else if (level < path.length) {
+        const group = path[level];
+        const previous = row[row.length - 1];
+        const continuesRun = previous?.kind === 'group'
+          && previous.group === group
+          && columnPaths[index - 1]?.[level] === group
+          && getRunKey(previous.columns[previous.columns.length - 1]) === getRunKey(column);
+        if (continuesRun) {
+          previous.columns.push(column);
+          previous.colSpan += 1;
+        } else {
+          row.push({ kind: 'group', group, columns: [column], colSpan: 1 });
+        }
+      }
+    });
+    return row;
+  });
+};
+
+/**
+ * Moves the column at fromIndex to toIndex, taking its group along: the
+ * outermost group of the moved column that doesn't contain the target column
+ * moves as a block, and it lands beside (not inside) the target's group.
+ * Within a shared group this is a plain move.
+ */
+export const moveColumnWithGroup = <T,>(
+  keys: (keyof T)[],
+  fromIndex: number,
+  toIndex: number,
+  groups: ColumnGroup<T>[] = []
+): (keyof T)[] => {
+  if (fromIndex === toIndex || toIndex < 0 || toIndex >= keys.length) return keys;
+  const paths = getColumnGroupPaths(groups);
+  const movedPath = paths.get(keys[fromIndex]) ?? [];
+  const targetPath = paths.get(keys[toIndex]) ?? [];
+  const movingGroup = movedPath.find(group => !targetPath.includes(group));
+  const targetGroup = targetPath.find(group => !movedPath.includes(group));
+
+  const block = movingGroup ? keys.filter(key => paths.get(key)?.includes(movingGroup)) : [keys[fromIndex]];
+  const targetBlock = targetGroup ? keys.filter(key => paths.get(key)?.includes(targetGroup)) : [keys[toIndex]];
+  const rest = keys.filter(key => !block.includes(key));
+  const insertAt = toIndex > fromIndex
+    ? rest.indexOf(targetBlock[targetBlock.length - 1]) + 1
+    : rest.indexOf(targetBlock[0]);
+  return [...rest.slice(0, insertAt), ...block, ...rest.slice(insertAt)];
+};
+
+/**
+ * Adds a column next to the visible columns of its innermost group that has
+ * any, or at the end
+ */
+export const insertColumnInGroup = <T,>(keys: (keyof T)[], key: keyof T, groups: ColumnGroup<T>[] = []): (keyof T)[] => {
+  const paths = getColumnGroupPaths(groups);
+  const path = paths.get(key) ?? [];
+  for (const group of [...path].reverse()) {
+    let lastIndex = -1;
+    keys.forEach((k, index) => {
+      if (paths.get(k)?.includes(group)) lastIndex = index;
+    });
+    if (lastIndex !== -1) return [...keys.slice(0, lastIndex + 1), key, ...keys.slice(lastIndex + 1)];
+  }
+  return [...keys, key];
+};
@@ -0,0 +1,58 @@
+import type { Column } from '../types';
+import { CollectionDataManager } from './collectionUtils';
+
+/**
+ * Value list ("is any of") filters
+ *
+ * A column's facet lists its distinct values with how many rows hold each;
+ * an isAnyOf filter keeps the rows holding any of the checked values. Empty
+ * cells are listed as a value of their own, ''.
+ */
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export const BLANK_FACET_LABEL = '(Blanks)';
+
+/** Values a row is listed under: its cell values, or '' when it has none. */
+export const getFacetKeys = <T,>(item: T, column: Column<T>): string[] => {
+  const values = CollectionDataManager.getCellValues(item, column).filter(Boolean);
+  return values.length > 0 ? Array.from(new Set(values)) : [''];
+};
+
+/**
+ * Distinct values of a column with their row counts, in the order of
+ * CollectionDataManager.extractUniqueValues and blanks last.
+ */
+export const getFacetValues = <T,>(data: T[], column: Column<T>): FacetValue[] => {
+  const counts = new Map<string, number>();
+  data.forEach(item => {
+    getFacetKeys(item, column).forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+  });
+
+  const values = CollectionDataManager.extractUniqueValues(data, column)
+    .map(option => ({ value: option.value, label: option.label, count: counts.get(option.value) ?? 0 }));
+  const blanks = counts.get('');
+  return blanks ? [...values, { value: '', label: BLANK_FACET_LABEL, count: blanks }] : values;
+};
+
+/**
+ * Reads the value of an isAnyOf filter: a JSON array, or comma separated
+ * values as typed into a plain input.
+ */
+export const parseValueList = (value: string): string[] => {
+  if (value.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed.map(String);
+    } catch {
+      // Not JSON after all; read it as a comma separated list
+    }
+  }
+  return value.split(',').map(part => part.trim()).filter(Boolean);
+};
+
+export const serializeValueList = (values: string[]): string => JSON.stringify(values);
@@ -0,0 +1,80 @@
+import type { FilterOperatorDefinition, FilterType } from '../types';
+import { StringOperatorLabels, NumberOperatorLabels, DateOperatorLabels, CollectionOperatorLabels, ValueListOperatorLabels } from '../types';
+import { isRelativeDateOperator, relativeDateOperatorTakesCount } from './relativeDateUtils';
+
+/**
+ * Custom filter operator registry
+ *
+ * Operators registered here are evaluated by useTable and listed next to the
+ * built-in operators in FilterControl, ViewEditor and FilterGroupBuilder for
+ * every column whose filter type is in the operator's dataTypes.
+ */
+
+const BUILT_IN_OPERATORS = new Set<string>([
+  ...Object.keys(StringOperatorLabels),
+  ...Object.keys(NumberOperatorLabels),
+  ...Object.keys(DateOperatorLabels),
+  ...Object.keys(CollectionOperatorLabels),
+  ...Object.keys(ValueListOperatorLabels),
+]);
+
+const registry = new Map<string, FilterOperatorDefinition>();
+
+/**
+ * Registers a custom filter operator. Registering an id again replaces the
+ * previous definition. Returns a function that unregisters it.
+ */
+export const registerFilterOperator = <T = any>(definition: FilterOperatorDefinition<T>): (() => void) => {
+  if (!definition || typeof definition.id !== 'string' || !definition.id.trim()) {
+    throw new Error('[ReusableTable] Custom filter operators need a non-empty string id.');
+  }
+  if (BUILT_IN_OPERATORS.has(definition.id)) {
+    throw new Error(
+      `[ReusableTable] Cannot register filter operator "${definition.id}": the id is used by a built-in operator.`
+    );
+  }
+  if (typeof definition.predicate !== 'function') {
+    throw new Error(
+      `[ReusableTable] Filter operator "${definition.id}" must have a predicate function.`
+    );
+  }
+  if (!Array.isArray(definition.dataTypes) || definition.dataTypes.length === 0) {
+    throw new Error(
+      `[ReusableTable] Filter operator "${definition.id}" must list at least one data type in dataTypes.`
+    );
+  }
+
+  registry.set(definition.id, definition as FilterOperatorDefinition);
+  return () => {
+    if (registry.get(definition.id) === definition) {
+      registry.delete(definition.id);
+    }
+  };
+};
+
+export const unregisterFilterOperator = (id: string): void => {
+  registry.delete(id);
+};
+
+/**
+ * Looks up a custom operator by id. Built-in operators are not in the registry.
+ */
+export const getFilterOperator = (id: string): FilterOperatorDefinition | undefined => {
+  return registry.get(id);
+};
+
+/**
+ * Lists the custom operators offered for a filter type, in registration order
+ */
+export const getFilterOperatorsForType = (filterType: FilterType): FilterOperatorDefinition[] => {
+  return Array.from(registry.values()).filter(definition => definition.dataTypes.includes(filterType));
+};
+
+/**
+ * Whether a filter with this operator needs a value before it narrows the rows
+ */
+export const operatorRequiresValue = (operator: string): boolean => {
+  if (operator === 'isEmpty') return false;
+  if (isRelativeDateOperator(operator)) return relativeDateOperatorTakesCount(operator);
+  return registry.get(operator)?.requiresValue !== false;
+};
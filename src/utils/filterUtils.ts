@@ -0,0 +1,352 @@
+import type { Column, FilterConfig, FilterGroup, FilterNode, FilterOperator, FilterType, StringFilterOperator, NumberFilterOperator, DateFilterOperator, CollectionFilterOperator } from '../types';
+import { StringOperatorLabels, NumberOperatorLabels, DateOperatorLabels, CollectionOperatorLabels, ValueListOperatorLabels } from '../types';
+import { getFilterOperator, getFilterOperatorsForType, operatorRequiresValue } from './filterOperatorRegistry';
+import { isRelativeDateOperator, getRelativeDateRange, parseCellDate } from './relativeDateUtils';
+import { getFacetKeys, parseValueList } from './facetUtils';
+
+/**
+ * Filter evaluation utilities
+ *
+ * Shared by useTable and anything else that needs to test rows against
+ * FilterConfig conditions or nested AND/OR FilterGroup expressions.
+ */
+
+/**
+ * Type guard distinguishing a FilterGroup from a single FilterConfig condition
+ */
+export const isFilterGroup = <T,>(node: FilterNode<T>): node is FilterGroup<T> => {
+  return !!node && typeof node === 'object' && 'combinator' in node && Array.isArray((node as FilterGroup<T>).children);
+};
+
+/**
+ * Tests a single row against a single filter condition.
+ * Unparseable filter values never exclude rows.
+ */
+export const matchesFilter = <T,>(item: T, filter: FilterConfig<T>, column?: Column<T>): boolean => {
+  const itemValue = item[filter.key];
+  const filterValue = filter.value;
+
+  // Registered custom operators
+  const customOperator = getFilterOperator(filter.operator);
+  if (customOperator) {
+    if (customOperator.requiresValue !== false && !filterValue) return true;
+    return customOperator.predicate(itemValue, filter, item, column);
+  }
+
+  // Check for isEmpty filter (applies to all data types)
+  if (filter.operator === 'isEmpty') {
+    return itemValue === null || itemValue === undefined || itemValue === '';
+  }
+
+  // Value list filtering (applies to all data types); blank cells match ''
+  if (filter.operator === 'isAnyOf') {
+    if (!filterValue.trim()) return true;
+    const accepted = parseValueList(filterValue);
+    return getFacetKeys(item, column ?? { header: String(filter.key), accessor: filter.key })
+      .some(key => accepted.includes(key));
+  }
+
+  // Relative date filtering (today, last N days, ...), resolved against the current date
+  if (isRelativeDateOperator(filter.operator)) {
+    const range = getRelativeDateRange(filter.operator, filterValue);
+    if (!range) return true;
+    const itemDate = parseCellDate(itemValue);
+    if (!itemDate) return false;
+    return itemDate >= range.start && itemDate <= range.end;
+  }
+
+  // Date/DateTime filtering
+  if ((column?.dataType === 'date' || column?.dataType === 'datetime') && typeof itemValue === 'string' && filterValue) {
+    try {
+        let itemDateMs, filterDateMs;
+
+        if (column.dataType === 'date') {
+            // Compare dates by UTC midnight to ignore time
+            itemDateMs = new Date(itemValue).setUTCHours(0, 0, 0, 0);
+            filterDateMs = new Date(filterValue).setUTCHours(0, 0, 0, 0);
+        } else { // datetime
+            itemDateMs = new Date(itemValue).getTime();
+            filterDateMs = new Date(filterValue).getTime();
+        }
+        
+        if (isNaN(itemDateMs) || isNaN(filterDateMs)) return true;
+
+        switch (filter.operator as DateFilterOperator) {
+            case 'is': return itemDateMs === filterDateMs;
+            case 'isNot': return itemDateMs !== filterDateMs;
+            case 'isBefore': return itemDateMs < filterDateMs;
+            case 'isAfter': return itemDateMs > filterDateMs;
+            case 'dateRange':
+              if (filter.secondValue) {
+                let secondDateMs;
+                if (column.dataType === 'date') {
+                  secondDateMs = new Date(filter.secondValue).setUTCHours(0, 0, 0, 0);
+                } else {
+                  secondDateMs = new Date(filter.secondValue).getTime();
+                }
+                if (!isNaN(secondDateMs)) {
+                  return itemDateMs >= filterDateMs && itemDateMs <= secondDateMs;
+                }
+              }
+              return true;
+            default: return true;
+        }
+    } catch (e) { return true; }
+  }
+
+  // String filtering
+  if (typeof itemValue === 'string') {
+      const itemStr = itemValue.toLowerCase();
+      const filterStr = filterValue.toLowerCase();
+      switch (filter.operator as StringFilterOperator) {
+          case 'contains': return itemStr.includes(filterStr);
+          case 'doesNotContain': return !itemStr.includes(filterStr);
+          case 'equals': return itemStr === filterStr;
+          case 'startsWith': return itemStr.startsWith(filterStr);
+          case 'endsWith': return itemStr.endsWith(filterStr);
+          default: return true;
+      }
+  }
+
+  // Number filtering
+  if (typeof itemValue === 'number') {
+      const itemNum = itemValue;
+      const filterNum = parseFloat(filterValue);
+      if (isNaN(filterNum)) return true; 
+
+      switch (filter.operator as NumberFilterOperator) {
+          case 'eq': return itemNum === filterNum;
+          case 'neq': return itemNum !== filterNum;
+          case 'gt': return itemNum > filterNum;
+          case 'lt': return itemNum < filterNum;
+          case 'gte': return itemNum >= filterNum;
+          case 'lte': return itemNum <= filterNum;
+          case 'between':
+            if (filter.secondValue) {
+              const secondNum = parseFloat(filter.secondValue);
+              if (!isNaN(secondNum)) {
+                return itemNum >= filterNum && itemNum <= secondNum;
+              }
+            }
+            return true;
+          default: return true;
+      }
+  }
+  
+  if (typeof itemValue === 'boolean') {
+      const filterBool = filterValue.toLowerCase();
+      if (filterBool === 'true') return itemValue === true;
+      if (filterBool === 'false') return itemValue === false;
+      return true;
+  }
+
+  // Collection filtering
+  if (column?.dataType === 'collection') {
+    const collectionValue = Array.isArray(itemValue) ? itemValue : 
+                             (itemValue ? [itemValue] : []);
+    
+    switch (filter.operator as CollectionFilterOperator) {
+      case 'contains':
+        return collectionValue.includes(filterValue as any);
+      case 'doesNotContain':
+        return !collectionValue.includes(filterValue as any);
+      case 'containsAny': {
+        const searchValues = filterValue.split(',').map(v => v.trim()).filter(Boolean);
+        return searchValues.some(searchVal => collectionValue.includes(searchVal as any));
+      }
+      case 'containsAll': {
+        const searchValues = filterValue.split(',').map(v => v.trim()).filter(Boolean);
+        return searchValues.every(searchVal => collectionValue.includes(searchVal as any));
+      }
+      case 'isEmpty':
+        return collectionValue.length === 0;
+      default: 
+        return true;
+    }
+  }
+
+  return true;
+};
+
+export interface ParsedFilterInput {
+  operator: FilterOperator;
+  value: string;
+  secondValue: string;
+}
+
+// Whole dates for comparisons; ranges may also use a month or a year
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_RANGE = /^(\d{4}(?:-\d{2}){0,2})\s*\.\.\s*(\d{4}(?:-\d{2}){0,2})$/;
+const RELATIVE_DATE = /^([-+])(\d+)([dwm])$/;
+const RELATIVE_DATE_OPERATORS: Record<string, DateFilterOperator> = {
+  '-d': 'lastNDays', '+d': 'nextNDays',
+  '-w': 'lastNWeeks', '+w': 'nextNWeeks',
+  '-m': 'lastNMonths', '+m': 'nextNMonths',
+};
+
+const isValidDate = (value: string) => !isNaN(new Date(value).getTime());
+
+// First or last day of a year ("2024") or month ("2024-03"), so ranges include the whole period
+const expandPartialDate = (value: string, end: boolean): string => {
+  const [year, month, day] = value.split('-');
+  if (day) return value;
+  if (!month) return end ? `${year}-12-31` : `${year}-01-01`;
+  if (!end) return `${year}-${month}-01`;
+  const lastDay = new Date(Date.UTC(Number(year), Number(month), 0)).getUTCDate();
+  return `${year}-${month}-${String(lastDay).padStart(2, '0')}`;
+};
+
+const parseNumberInput = (input: string): ParsedFilterInput | null => {
+  // Range operators (20><50, 20<>50, or 20..50), only once both ends are typed
+  const rangeMatch = input.match(/^(\d+\.?\d*)\s*(><|<>|\.\.)\s*(\d+\.?\d*)\s*$/);
+  if (rangeMatch) return { operator: 'between', value: rangeMatch[1], secondValue: rangeMatch[3] };
+
+  // Comparison operators, only once there's a value after them
+  const comparisons: [string, NumberFilterOperator][] = [['>=', 'gte'], ['<=', 'lte'], ['!=', 'neq'], ['>', 'gt'], ['<', 'lt'], ['=', 'eq']];
+  const comparison = comparisons.find(([prefix]) => input.startsWith(prefix));
+  const value = comparison ? input.slice(comparison[0].length).trim() : '';
+  return comparison && value ? { operator: comparison[1], value, secondValue: '' } : null;
+};
+
+const parseTextInput = (input: string): ParsedFilterInput | null => {
+  if (input.trim() === '""') return { operator: 'isEmpty', value: '', secondValue: '' };
+  if (input.startsWith('^') && input.length > 1) return { operator: 'startsWith', value: input.slice(1), secondValue: '' };
+  if (input.endsWith('$') && input.length > 1) return { operator: 'endsWith', value: input.slice(0, -1), secondValue: '' };
+  if (input.startsWith('!') && input.length > 1) return { operator: 'doesNotContain', value: input.slice(1), secondValue: '' };
+  if (input.startsWith('=') && input.length > 1) return { operator: 'equals', value: input.slice(1), secondValue: '' };
+  return null;
+};
+
+const parseDateInput = (input: string): ParsedFilterInput | null => {
+  const trimmed = input.trim();
+
+  const relativeMatch = trimmed.match(RELATIVE_DATE);
+  if (relativeMatch) {
+    return { operator: RELATIVE_DATE_OPERATORS[relativeMatch[1] + relativeMatch[3]], value: relativeMatch[2], secondValue: '' };
+  }
+
+  const rangeMatch = trimmed.match(DATE_RANGE);
+  if (rangeMatch) {
+    const from = expandPartialDate(rangeMatch[1], false);
+    const to = expandPartialDate(rangeMatch[2], true);
+    return isValidDate(from) && isValidDate(to) ? { operator: 'dateRange', value: from, secondValue: to } : null;
+  }
+
+  const comparisons: [string, DateFilterOperator][] = [['!=', 'isNot'], ['>', 'isAfter'], ['<', 'isBefore'], ['=', 'is']];
+  for (const [prefix, operator] of comparisons) {
+    const value = trimmed.slice(prefix.length).trim();
+    if (trimmed.startsWith(prefix) && DATE.test(value) && isValidDate(value)) {
+      return { operator, value, secondValue: '' };
+    }
+  }
+  return null;
+};
+
+/**
+ * Detects shorthand typed into a filter input: ">=10" or "20..50" for
+ * numbers, "^abc", "abc$", "!abc", "=abc" or '""' for text, and
+ * ">2024-01-01", "2024-01..2024-03" or "-7d" for dates. Returns null when the
+ * input has no shorthand.
+ */
+export const parseOperatorFromInput = (input: string, filterType: FilterType): ParsedFilterInput | null => {
+  if (!input.trim()) return null;
+  switch (filterType) {
+    case 'number': return parseNumberInput(input);
+    case 'date': return parseDateInput(input);
+    case 'text': return parseTextInput(input);
+    default: return null;
+  }
+};
+
+/**
+ * Evaluates a filter expression tree for a row. Empty groups match everything,
+ * so a half-built group in the editor never hides the whole table.
+ */
+export const evaluateFilterNode = <T,>(
+  item: T,
+  node: FilterNode<T>,
+  columnMap: Map<keyof T, Column<T>>
+): boolean => {
+  if (!isFilterGroup(node)) {
+    return matchesFilter(item, node, columnMap.get(node.key));
+  }
+
+  // Conditions still being edited don't take part; a group of only those is empty
+  const children = node.children.filter(child => countFilterConditions(child) > 0);
+  if (children.length === 0) return true;
+
+  return node.combinator === 'or'
+    ? children.some(child => evaluateFilterNode(item, child, columnMap))
+    : children.every(child => evaluateFilterNode(item, child, columnMap));
+};
+
+/**
+ * Whether a condition has everything its operator needs - a value, and for
+ * range operators a second value too
+ */
+export const isFilterConditionComplete = <T,>(filter: FilterConfig<T>): boolean => {
+  if (!operatorRequiresValue(filter.operator)) return true;
+  if (!String(filter.value ?? '').trim()) return false;
+  if (filter.operator === 'between' || filter.operator === 'dateRange') {
+    return Boolean(String(filter.secondValue ?? '').trim());
+  }
+  return true;
+};
+
+/**
+ * Counts the complete leaf conditions in a filter expression tree
+ */
+export const countFilterConditions = <T,>(node?: FilterNode<T> | null): number => {
+  if (!node) return 0;
+  if (!isFilterGroup(node)) return isFilterConditionComplete(node) ? 1 : 0;
+  return node.children.reduce((total, child) => total + countFilterConditions(child), 0);
+};
+
+/**
+ * Resolves the filter type of a column - the explicit filterType, or one inferred from dataType
+ */
+export const getEffectiveFilterType = <T,>(column: Column<T>): FilterType => {
+  if (column.filterType) return column.filterType;
+  switch (column.dataType) {
+    case 'number':
+    case 'currency':
+      return 'number';
+    case 'date':
+    case 'datetime':
+      return 'date';
+    case 'collection':
+      return 'collection';
+    default:
+      return 'text';
+  }
+};
+
+const getBuiltInOperatorOptions = <T,>(column: Column<T>, filterType: FilterType): [FilterOperator, string][] => {
+  if (filterType === 'number' || column.dataType === 'currency') {
+    return Object.entries(NumberOperatorLabels) as [FilterOperator, string][];
+  }
+  if (filterType === 'date' || column.dataType === 'datetime') {
+    return Object.entries(DateOperatorLabels) as [FilterOperator, string][];
+  }
+  if (filterType === 'collection' || column.dataType === 'collection') {
+    return [...Object.entries(ValueListOperatorLabels), ...Object.entries(CollectionOperatorLabels)] as [FilterOperator, string][];
+  }
+  if (filterType === 'boolean') {
+    return [['equals', 'Equals'], ['isEmpty', 'Is Empty']];
+  }
+  if (filterType === 'select') {
+    return [['isAnyOf', ValueListOperatorLabels.isAnyOf], ['equals', 'Equals'], ['doesNotContain', 'Does Not Equal'], ['isEmpty', 'Is Empty']];
+  }
+  return Object.entries(StringOperatorLabels) as [FilterOperator, string][];
+};
+
+/**
+ * Lists the [operator, label] pairs that apply to a column, built-in operators first
+ */
+export const getOperatorOptions = <T,>(column: Column<T>): [FilterOperator, string][] => {
+  const filterType = getEffectiveFilterType(column);
+  const custom = getFilterOperatorsForType(filterType).map(
+    (definition): [FilterOperator, string] => [definition.id, definition.label]
+  );
+  return [...getBuiltInOperatorOptions(column, filterType), ...custom];
+};
@@ -0,0 +1,168 @@
+import type { Column, CollectionOption, GlobalSearchMode } from '../types';
+import { CollectionDataManager } from './collectionUtils';
+
+/**
+ * Columns a global search looks at: the listed accessors, or every column
+ * that isn't marked `filterable: false` when none are listed.
+ */
+export const getSearchableColumns = <T,>(columns: Column<T>[], searchableColumns?: string[]): Column<T>[] => {
+  if (searchableColumns && searchableColumns.length > 0) {
+    return columns.filter(col => searchableColumns.includes(String(col.accessor)));
+  }
+  return columns.filter(col => col.filterable !== false);
+};
+
+// Collection cells are searched by their option labels as well as their raw values
+const getCollectionText = <T,>(value: unknown, column: Column<T>): string => {
+  const config = column.collectionConfig!;
+  const normalized = CollectionDataManager.normalizeCollectionValue(value, config);
+  const values = Array.isArray(normalized) ? normalized : normalized ? [normalized] : [];
+  const options: CollectionOption[] = typeof config.options === 'function' ? config.options() : config.options;
+  return values
+    .flatMap(item => {
+      const label = options.find(option => option.value === item)?.label;
+      return label && label !== item ? [label, item] : [item];
+    })
+    .join(' ');
+};
+
+// Text a cell is searched by; dates match their formatted form
+const getSearchableText = <T,>(value: unknown, column: Column<T>): string => {
+  if (column.dataType === 'collection' && column.collectionConfig) return getCollectionText(value, column);
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return value.toString();
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+
+  if (column.dataType === 'date' || column.dataType === 'datetime') {
+    try {
+      if (column.dateOptions) {
+        return new Intl.DateTimeFormat(column.dateOptions.locale, {
+          dateStyle: column.dateOptions.dateStyle,
+          timeStyle: column.dateOptions.timeStyle,
+          timeZone: 'UTC',
+        }).format(new Date(String(value)));
+      }
+      return new Date(String(value)).toLocaleDateString();
+    } catch {
+      return String(value);
+    }
+  }
+
+  return String(value);
+};
+
+/** Lowercased words of a query, without duplicates. */
+export const tokenizeQuery = (query: string): string[] =>
+  Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+
+const splitWords = (text: string): { word: string; index: number }[] =>
+  Array.from(text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu), match => ({ word: match[0], index: match.index ?? 0 }));
+
+// Typos tolerated in a fuzzy token: none for short words, so "cat" doesn't match "car"
+const getMaxTypos = (token: string) => (token.length <= 3 ? 0 : token.length <= 6 ? 1 : 2);
+
+/**
+ * Edits (insertions, deletions, substitutions and swapped neighbours) between
+ * two strings, or max + 1 once it's clear there are more than max.
+ */
+export const editDistance = (a: string, b: string, max = Infinity): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// How well one query token matches a text: a whole word beats a word prefix beats a substring beats a typo
+const scoreToken = (text: string, token: string, fuzzy: boolean): number => {
+  const words = splitWords(text);
+  if (words.some(({ word }) => word === token)) return 3;
+  if (words.some(({ word }) => word.startsWith(token))) return 2;
+  if (text.toLowerCase().includes(token)) return 1;
+  if (!fuzzy) return 0;
+  const maxTypos = getMaxTypos(token);
+  if (maxTypos === 0) return 0;
+  const typos = Math.min(...words.map(({ word }) => editDistance(word, token, maxTypos)));
+  return typos <= maxTypos ? 0.5 / typos : 0;
+};
+
+/**
+ * Relevance of a row for a query, or 0 when it doesn't match. In 'contains'
+ * mode a column must contain the whole query; in 'tokens' and 'fuzzy' mode
+ * every word of the query must match some column.
+ */
+export const scoreSearchMatch = <T,>(item: T, columns: Column<T>[], query: string, mode: GlobalSearchMode = 'contains'): number => {
+  const texts = columns
+    .map(column => {
+      const value = item[column.accessor];
+      return value == null ? '' : getSearchableText(value, column);
+    })
+    .filter(Boolean);
+
+  if (mode === 'contains') {
+    const needle = query.toLowerCase().trim();
+    if (!needle) return 1;
+    return texts.some(text => text.toLowerCase().includes(needle)) ? 1 : 0;
+  }
+
+  const tokens = tokenizeQuery(query);
+  let score = 0;
+  for (const token of tokens) {
+    const best = Math.max(0, ...texts.map(text => scoreToken(text, token, mode === 'fuzzy')));
+    if (best === 0) return 0;
+    score += best;
+  }
+  return tokens.length === 0 ? 1 : score;
+};
+
+/**
+ * Whether any of the columns matches the query. An empty query matches every
+ * row.
+ */
+export const matchesSearch = <T,>(item: T, columns: Column<T>[], query: string, mode: GlobalSearchMode = 'contains'): boolean =>
+  scoreSearchMatch(item, columns, query, mode) > 0;
+
+/**
+ * Start and end offsets of the parts of a text that a query matches, sorted
+ * and merged, for highlighting.
+ */
+export const getMatchRanges = (text: string, query: string, mode: GlobalSearchMode = 'contains'): [number, number][] => {
+  const needles = mode === 'contains' ? [query.toLowerCase().trim()].filter(Boolean) : tokenizeQuery(query);
+  const lower = text.toLowerCase();
+  const ranges: [number, number][] = [];
+
+  for (const needle of needles) {
+    for (let index = lower.indexOf(needle); index !== -1; index = lower.indexOf(needle, index + needle.length)) {
+      ranges.push([index, index + needle.length]);
+    }
+    if (mode === 'fuzzy' && getMaxTypos(needle) > 0) {
+      for (const { word, index } of splitWords(text)) {
+        if (!word.includes(needle) && editDistance(word, needle, getMaxTypos(needle)) <= getMaxTypos(needle)) {
+          ranges.push([index, index + word.length]);
+        }
+      }
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  return ranges.reduce<[number, number][]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+    return merged;
+  }, []);
+};
@@ -0,0 +1,174 @@
+import type { Column, DisplayRow, GroupHeaderRow, GroupByEntry, GroupByLevel, GroupSort } from '../types';
+import { computeAggregate, computeAggregates } from './aggregationUtils';
+
+interface GroupRowsOptions<T> {
+  // Paths of groups whose rows (and subgroups) are left out
+  collapsedGroups?: Set<string>;
+  // Columns with an aggregate, computed for every group header
+  aggregateColumns?: Column<T>[];
+  // All table columns; needed to order groups by an aggregate
+  columns?: Column<T>[];
+}
+
+export const DEFAULT_BLANK_LABEL = '(Blank)';
+
+// null, undefined and '' all fall into the one blank group
+export const isBlankGroupValue = (value: unknown) => value === null || value === undefined || value === '';
+
+/**
+ * Converts groupBy entries (plain keys or GroupByLevel objects) to levels
+ */
+export const normalizeGroupBy = <T,>(entries: GroupByEntry<T>[] = []): GroupByLevel<T>[] =>
+  entries.map(entry => (typeof entry === 'object' && entry !== null ? entry : { key: entry as keyof T }));
+
+/**
+ * The accessor of every grouping level, in order
+ */
+export const getGroupByKeys = <T,>(entries: GroupByEntry<T>[] = []): (keyof T)[] =>
+  normalizeGroupBy(entries).map(level => level.key);
+
+interface Bucket<T> {
+  value: unknown; // First raw cell value of the group
+  label: string;
+  items: T[];
+}
+
+// Plain string order as before, but numbers compare numerically
+const compareGroupValues = (a: Bucket<unknown>, b: Bucket<unknown>) => {
+  if (typeof a.value === 'number' && typeof b.value === 'number') return a.value - b.value;
+  if (a.label < b.label) return -1;
+  if (a.label > b.label) return 1;
+  return 0;
+};
+
+const createBucketComparator = <T,>(sort: GroupSort<T>, columns: Column<T>[]) => {
+  switch (sort.by) {
+    case 'count': {
+      const sign = sort.direction === 'ascending' ? 1 : -1;
+      return (a: Bucket<T>, b: Bucket<T>) => sign * (a.items.length - b.items.length) || compareGroupValues(a, b);
+    }
+    case 'aggregate': {
+      const column = columns.find(c => c.accessor === sort.column);
+      if (!column) {
+        throw new Error(
+          `[ReusableTable] Cannot order groups by the aggregate of unknown column "${String(sort.column)}". ` +
+          'Pass a column accessor, e.g. { by: "aggregate", column: "amount", aggregate: "sum" }.'
+        );
+      }
+      const aggregateColumn = { ...column, aggregate: sort.aggregate ?? column.aggregate ?? 'sum' };
+      const sign = sort.direction === 'ascending' ? 1 : -1;
+      const cache = new Map<Bucket<T>, unknown>();
+      const valueOf = (bucket: Bucket<T>) => {
+        if (!cache.has(bucket)) cache.set(bucket, computeAggregate(aggregateColumn, bucket.items));
+        return cache.get(bucket);
+      };
+      return (a: Bucket<T>, b: Bucket<T>) => {
+        const aValue = valueOf(a);
+        const bValue = valueOf(b);
+        // Groups without an aggregate value go last in either direction
+        if (typeof aValue !== 'number' || typeof bValue !== 'number') {
+          if (typeof aValue === 'number') return -1;
+          if (typeof bValue === 'number') return 1;
+          return compareGroupValues(a, b);
+        }
+        return sign * (aValue - bValue) || compareGroupValues(a, b);
+      };
+    }
+    case 'custom': {
+      const rank = new Map(sort.order.map((value, index) => [String(value), index]));
+      return (a: Bucket<T>, b: Bucket<T>) => {
+        const aRank = rank.get(a.label) ?? Infinity;
+        const bRank = rank.get(b.label) ?? Infinity;
+        if (aRank !== bRank) return aRank < bRank ? -1 : 1;
+        return compareGroupValues(a, b);
+      };
+    }
+    default: {
+      const sign = sort.direction === 'descending' ? -1 : 1;
+      return (a: Bucket<T>, b: Bucket<T>) => sign * compareGroupValues(a, b);
+    }
+  }
+};
+
+/**
+ * Turns sorted rows into a flat list of group headers and rows for multi-level grouping.
+ * Each level is ordered by its GroupSort; null, undefined and '' values form a single
+ * blank group placed by blankPosition. Shared by useTable and CSV export.
+ */
+export const groupRows = <T,>(
+  items: T[],
+  groupBy: GroupByEntry<T>[],
+  { collapsedGroups, aggregateColumns = [], columns = [] }: GroupRowsOptions<T> = {}
+): DisplayRow<T>[] => {
+  const levels = normalizeGroupBy(groupBy);
+  const comparators = levels.map(level => createBucketComparator(level.sort ?? { by: 'value' }, columns));
+
+  const groupDataRecursively = (
+      items: T[],
+      level: number,
+      parentPath: string
+  ): DisplayRow<T>[] => {
+      if (level >= levels.length) {
+          return items;
+      }
+
+      const { key: currentGroupKey, blankLabel = DEFAULT_BLANK_LABEL, blankPosition = 'last' } = levels[level];
+
+      const buckets = new Map<string, Bucket<T>>();
+      const blankItems: T[] = [];
+      for (const item of items) {
+          const value = item[currentGroupKey];
+          if (isBlankGroupValue(value)) {
+              blankItems.push(item);
+              continue;
+          }
+          const label = String(value);
+          const bucket = buckets.get(label);
+          if (bucket) {
+              bucket.items.push(item);
+          } else {
+              buckets.set(label, { value, label, items: [item] });
+          }
+      }
+
+      const sortedBuckets = Array.from(buckets.values()).sort(comparators[level]);
+      const entries = sortedBuckets.map(bucket => ({ ...bucket, isBlank: false }));
+      if (blankItems.length > 0) {
+          const blank = { value: null, label: blankLabel, items: blankItems, isBlank: true };
+          if (blankPosition === 'first') entries.unshift(blank);
+          else entries.push(blank);
+      }
+
+      const result: DisplayRow<T>[] = [];
+
+      for (const { label, items: groupItems, isBlank } of entries) {
+          // Blank groups use an empty path segment so they can't clash with a real value
+          const segment = isBlank ? '' : label;
+          const path = level > 0 ? `${parentPath}|${segment}` : segment;
+
+          const groupHeader: GroupHeaderRow<T> = {
+              isGroupHeader: true,
+              level,
+              path,
+              groupKey: currentGroupKey,
+              groupValue: label,
+              count: groupItems.length,
+          };
+          if (isBlank) {
+              groupHeader.isBlank = true;
+          }
+          if (aggregateColumns.length > 0) {
+              groupHeader.aggregates = computeAggregates(aggregateColumns, groupItems);
+          }
+
+          result.push(groupHeader);
+
+          if (!collapsedGroups?.has(path)) {
+              result.push(...groupDataRecursively(groupItems, level + 1, path));
+          }
+      }
+      return result;
+  };
+
+  return groupDataRecursively(items, 0, '');
+};
@@ -0,0 +1,89 @@
+import type { Column, PivotConfig, PivotResult, PivotRow } from '../types';
+import { computeAggregate } from './aggregationUtils';
+import { DEFAULT_BLANK_LABEL, isBlankGroupValue } from './groupingUtils';
+
+/**
+ * Pivot (cross-tab) utilities
+ *
+ * Buckets rows by the String() of the pivot's row keys and column keys, orders
+ * the buckets by plain string comparison, and aggregates the value column for
+ * every cell, row, column and the grand total. As in row grouping, null,
+ * undefined and '' values share one "(Blank)" bucket, placed last; unlike it
+ * there is no numeric ordering.
+ */
+
+// Bucket values, with null for a blank value
+type BucketValues = (string | null)[];
+
+// Map key of a bucket; unlike a joined string it can't mix up ['a|b', 'c'] and ['a', 'b|c']
+const toBucketKey = (values: BucketValues) => JSON.stringify(values);
+
+const toLabels = (values: BucketValues) => values.map(value => value ?? DEFAULT_BLANK_LABEL);
+
+const compareKeyValues = (a: BucketValues, b: BucketValues) => {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    if (a[i] === null) return 1;
+    if (b[i] === null) return -1;
+    if ((a[i] ?? '') < (b[i] ?? '')) return -1;
+    if ((a[i] ?? '') > (b[i] ?? '')) return 1;
+  }
+  return 0;
+};
+
+/**
+ * The column used to aggregate and format pivot cells: the value column with the pivot's aggregate
+ */
+export const getPivotValueColumn = <T,>(config: PivotConfig<T>, allColumns: Column<T>[]): Column<T> => {
+  const column = allColumns.find(c => c.accessor === config.value);
+  return { ...(column ?? { header: String(config.value), accessor: config.value }), aggregate: config.aggregate };
+};
+
+export const buildPivot = <T,>(items: T[], config: PivotConfig<T>, allColumns: Column<T>[]): PivotResult<T> => {
+  const valueColumn = getPivotValueColumn(config, allColumns);
+  const valuesFor = (item: T, keys: (keyof T)[]): BucketValues =>
+    keys.map(key => isBlankGroupValue(item[key]) ? null : String(item[key]));
+
+  const rowBuckets = new Map<string, { values: BucketValues; items: T[] }>();
+  const columnBuckets = new Map<string, { values: BucketValues; items: T[] }>();
+  // Row key -> column key -> rows
+  const cellBuckets = new Map<string, Map<string, T[]>>();
+
+  for (const item of items) {
+    const rowValues = valuesFor(item, config.rows);
+    const columnValues = valuesFor(item, config.columns);
+    const rowKey = toBucketKey(rowValues);
+    const columnKey = toBucketKey(columnValues);
+
+    if (!rowBuckets.has(rowKey)) rowBuckets.set(rowKey, { values: rowValues, items: [] });
+    rowBuckets.get(rowKey)!.items.push(item);
+    if (!columnBuckets.has(columnKey)) columnBuckets.set(columnKey, { values: columnValues, items: [] });
+    columnBuckets.get(columnKey)!.items.push(item);
+
+    if (!cellBuckets.has(rowKey)) cellBuckets.set(rowKey, new Map());
+    const rowCells = cellBuckets.get(rowKey)!;
+    if (!rowCells.has(columnKey)) rowCells.set(columnKey, []);
+    rowCells.get(columnKey)!.push(item);
+  }
+
+  const sortedColumns = Array.from(columnBuckets.entries()).sort(([, a], [, b]) => compareKeyValues(a.values, b.values));
+  const sortedRows = Array.from(rowBuckets.entries()).sort(([, a], [, b]) => compareKeyValues(a.values, b.values));
+
+  const rows: PivotRow[] = sortedRows.map(([rowKey, bucket]) => ({
+    key: rowKey,
+    values: toLabels(bucket.values),
+    cells: sortedColumns.map(([columnKey]) => {
+      const cellItems = cellBuckets.get(rowKey)?.get(columnKey);
+      return cellItems ? computeAggregate(valueColumn, cellItems) : null;
+    }),
+    total: computeAggregate(valueColumn, bucket.items),
+  }));
+
+  return {
+    config,
+    columnKeys: sortedColumns.map(([, bucket]) => toLabels(bucket.values)),
+    rows,
+    columnTotals: sortedColumns.map(([, bucket]) => computeAggregate(valueColumn, bucket.items)),
+    grandTotal: computeAggregate(valueColumn, items),
+  };
+};
@@ -0,0 +1,148 @@
+import type { DateFilterOperator } from '../types';
+
+/**
+ * Relative date filter utilities
+ *
+ * Relative operators are stored in FilterConfig as-is and resolved against the
+ * current date each time the filter runs, so saved views keep rolling forward.
+ * All ranges use the local time zone and include both end days.
+ */
+
+export type RelativeDateOperator = Extract<
+  DateFilterOperator,
+  | 'today' | 'yesterday' | 'thisWeek' | 'thisMonth' | 'lastMonth' | 'quarterToDate' | 'yearToDate'
+  | 'lastNDays' | 'nextNDays' | 'lastNWeeks' | 'nextNWeeks' | 'lastNMonths' | 'nextNMonths'
+>;
+
+// Operators that take N (stored in FilterConfig.value)
+const OPERATORS_WITH_COUNT = new Set<string>([
+  'lastNDays', 'nextNDays', 'lastNWeeks', 'nextNWeeks', 'lastNMonths', 'nextNMonths',
+]);
+
+const OPERATORS_WITHOUT_COUNT = new Set<string>([
+  'today', 'yesterday', 'thisWeek', 'thisMonth', 'lastMonth', 'quarterToDate', 'yearToDate',
+]);
+
+export const isRelativeDateOperator = (operator: string): operator is RelativeDateOperator => {
+  return OPERATORS_WITH_COUNT.has(operator) || OPERATORS_WITHOUT_COUNT.has(operator);
+};
+
+/**
+ * Whether a relative operator takes a count (last/next N days, weeks, months)
+ */
+export const relativeDateOperatorTakesCount = (operator: string): boolean => {
+  return OPERATORS_WITH_COUNT.has(operator);
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Clamps the day so e.g. Mar 31 minus one month is Feb 28/29 rather than Mar 2/3
+const addMonths = (date: Date, months: number) => {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay));
+};
+
+/**
+ * Resolves a relative operator to an inclusive [start, end] range around `now`.
+ * Returns null when the operator needs a count and the value isn't a positive integer.
+ *
+ * - last/next N days: N calendar days ending/starting today
+ * - last/next N weeks: the same with 7 × N days
+ * - last/next N months: from the same day N months ago through today (or today through N months ahead)
+ * - this week starts on Monday
+ */
+export const getRelativeDateRange = (
+  operator: RelativeDateOperator,
+  value?: string,
+  now: Date = new Date()
+): { start: Date; end: Date } | null => {
+  const today = startOfDay(now);
+  let count = 0;
+  if (OPERATORS_WITH_COUNT.has(operator)) {
+    count = Number(value);
+    if (!Number.isInteger(count) || count < 1) return null;
+  }
+
+  switch (operator) {
+    case 'today':
+      return { start: today, end: endOfDay(today) };
+    case 'yesterday': {
+      const yesterday = addDays(today, -1);
+      return { start: yesterday, end: endOfDay(yesterday) };
+    }
+    case 'thisWeek': {
+      const monday = addDays(today, -((today.getDay() + 6) % 7));
+      return { start: monday, end: endOfDay(addDays(monday, 6)) };
+    }
+    case 'thisMonth':
+      return {
+        start: new Date(today.getFullYear(), today.getMonth(), 1),
+        end: endOfDay(new Date(today.getFullYear(), today.getMonth() + 1, 0)),
+      };
+    case 'lastMonth':
+      return {
+        start: new Date(today.getFullYear(), today.getMonth() - 1, 1),
+        end: endOfDay(new Date(today.getFullYear(), today.getMonth(), 0)),
+      };
+    case 'quarterToDate':
+      return {
+        start: new Date(today.getFullYear(), Math.floor(today.getMonth() / 3) * 3, 1),
+        end: endOfDay(today),
+      };
+    case 'yearToDate':
+      return { start: new Date(today.getFullYear(), 0, 1), end: endOfDay(today) };
+    case 'lastNDays':
+      return { start: addDays(today, -(count - 1)), end: endOfDay(today) };
+    case 'nextNDays':
+      return { start: today, end: endOfDay(addDays(today, count - 1)) };
+    case 'lastNWeeks':
+      return { start: addDays(today, -(count * 7 - 1)), end: endOfDay(today) };
+    case 'nextNWeeks':
+      return { start: today, end: endOfDay(addDays(today, count * 7 - 1)) };
+    case 'lastNMonths':
+      return { start: addMonths(today, -count), end: endOfDay(today) };
+    case 'nextNMonths':
+      return { start: today, end: endOfDay(addMonths(today, count)) };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parses a cell value for relative comparisons. Plain YYYY-MM-DD strings are read
+ * as local calendar days (new Date() would treat them as UTC midnight).
+ */
+export const parseCellDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = dateOnly
+    ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Human readable form of a relative filter, e.g. "last 7 days"
+ */
+export const describeRelativeDateFilter = (operator: RelativeDateOperator, value?: string): string => {
+  switch (operator) {
+    case 'today': return 'today';
+    case 'yesterday': return 'yesterday';
+    case 'thisWeek': return 'this week';
+    case 'thisMonth': return 'this month';
+    case 'lastMonth': return 'last month';
+    case 'quarterToDate': return 'quarter to date';
+    case 'yearToDate': return 'year to date';
+    case 'lastNDays': return `last ${value} days`;
+    case 'nextNDays': return `next ${value} days`;
+    case 'lastNWeeks': return `last ${value} weeks`;
+    case 'nextNWeeks': return `next ${value} weeks`;
+    case 'lastNMonths': return `last ${value} months`;
+    case 'nextNMonths': return `next ${value} months`;
+    default: return operator;
+  }
+};
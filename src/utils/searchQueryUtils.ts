@@ -0,0 +1,210 @@
+import type { Column, FilterConfig, GlobalSearchMode } from '../types';
+import { getEffectiveFilterType, matchesFilter, parseOperatorFromInput } from './filterUtils';
+import { getSearchableColumns, scoreSearchMatch } from './globalSearchUtils';
+
+/**
+ * Search query language
+ *
+ * `status:active price:>100 -archived "exact phrase"` - field terms filter
+ * one column (by accessor or header), free words and quoted phrases search
+ * the searchable columns, and a leading `-` excludes matching rows. A word
+ * whose prefix names no column, like `10:30`, is plain text.
+ */
+
+export type SearchQueryTerm<T> =
+  | { kind: 'field'; column: Column<T>; filter: FilterConfig<T>; negated: boolean }
+  | { kind: 'text'; text: string; phrase: boolean; negated: boolean };
+
+export interface SearchQueryError {
+  message: string;
+  start: number; // Offsets of the offending term in the query
+  end: number;
+}
+
+export interface ParsedSearchQuery<T> {
+  terms: SearchQueryTerm<T>[];
+  errors: SearchQueryError[];
+}
+
+export interface CompiledSearchQuery<T> {
+  // Field terms without a `-`, as filters a server or filter UI understands
+  filters: FilterConfig<T>[];
+  // The query without the terms in `filters`, for a server to search with
+  remainingQuery: string;
+  // Relevance of a row, 0 when any term rejects it
+  score: (item: T) => number;
+  errors: SearchQueryError[];
+  // Free words and phrases, for highlighting
+  textQuery: string;
+}
+
+const FIELD_NAME = /^([\p{L}\p{N}_]+):/u;
+
+// Field names ignore case, spaces and punctuation, so "unitprice:" finds the "Unit Price" column
+const normalizeFieldName = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const findColumn = <T,>(columns: Column<T>[], field: string) => {
+  const name = normalizeFieldName(field);
+  return columns.find(column => normalizeFieldName(String(column.accessor)) === name)
+    ?? columns.find(column => normalizeFieldName(column.header) === name);
+};
+
+// A field term's filter with the column's default operator, or a message saying what's wrong with the value
+const buildFieldFilter = <T,>(column: Column<T>, field: string, value: string): FilterConfig<T> | string => {
+  const key = column.accessor;
+  switch (getEffectiveFilterType(column)) {
+    case 'number': {
+      const parsed = parseOperatorFromInput(value, 'number');
+      if (parsed) return { key, ...parsed };
+      if (value.trim() !== '' && !isNaN(Number(value))) return { key, operator: 'eq', value };
+      return `"${field}" needs a number, e.g. ${field}:>100 or ${field}:10..20`;
+    }
+    case 'date': {
+      const parsed = parseOperatorFromInput(value, 'date');
+      if (parsed) return { key, ...parsed };
+      if (isNaN(new Date(value).getTime())) return `"${field}" needs a date, e.g. ${field}:2024-01-31, ${field}:>2024-01-01 or ${field}:-7d`;
+      return { key, operator: 'is', value };
+    }
+    case 'collection': {
+      // Option labels are accepted in place of stored values
+      const options = column.collectionConfig
+        ? typeof column.collectionConfig.options === 'function' ? column.collectionConfig.options() : column.collectionConfig.options
+        : [];
+      const option = options.find(candidate => candidate.label.toLowerCase() === value.toLowerCase());
+      return { key, operator: 'contains', value: option?.value ?? value };
+    }
+    case 'boolean':
+    case 'select':
+      return { key, operator: 'equals', value };
+    default: {
+      const parsed = parseOperatorFromInput(value, 'text');
+      return parsed ? { key, ...parsed } : { key, operator: 'contains', value };
+    }
+  }
+};
+
+// Parses a query, keeping the offsets of every term alongside it
+const parseSearchQueryWithSpans = <T,>(query: string, columns: Column<T>[]) => {
+  const terms: SearchQueryTerm<T>[] = [];
+  const spans: [number, number][] = [];
+  const errors: SearchQueryError[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    if (/\s/.test(query[position])) {
+      position++;
+      continue;
+    }
+    const start = position;
+    const negated = query[position] === '-';
+    if (negated) position++;
+
+    // A prefix naming no column, as in "10:30" or "https://...", stays part of the text
+    const fieldMatch = FIELD_NAME.exec(query.slice(position));
+    const field = fieldMatch?.[1];
+    const column = field === undefined ? undefined : findColumn(columns, field);
+    if (column) position += fieldMatch![0].length;
+
+    let value: string;
+    let phrase = false;
+    if (query[position] === '"') {
+      phrase = true;
+      const close = query.indexOf('"', position + 1);
+      if (close === -1) {
+        errors.push({ message: 'Missing closing quote', start, end: query.length });
+        break;
+      }
+      value = query.slice(position + 1, close);
+      position = close + 1;
+    } else {
+      value = /^\S*/.exec(query.slice(position))![0];
+      position += value.length;
+    }
+
+    if (!column) {
+      if (value.trim()) {
+        terms.push({ kind: 'text', text: value, phrase, negated });
+        spans.push([start, position]);
+      }
+      continue;
+    }
+
+    if (!value.trim()) continue;
+    const filter = buildFieldFilter(column, field!, value);
+    if (typeof filter === 'string') {
+      errors.push({ message: filter, start, end: position });
+    } else {
+      terms.push({ kind: 'field', column, filter, negated });
+      spans.push([start, position]);
+    }
+  }
+
+  return { terms, spans, errors };
+};
+
+/**
+ * Splits a query into field and text terms. Terms with errors are left out;
+ * a field with no value yet (while typing "status:") is ignored silently.
+ */
+export const parseSearchQuery = <T,>(query: string, columns: Column<T>[]): ParsedSearchQuery<T> => {
+  const { terms, errors } = parseSearchQueryWithSpans(query, columns);
+  return { terms, errors };
+};
+
+/**
+ * Turns a query into filters and a row scorer. Free words must all match,
+ * as in 'tokens' mode (or 'fuzzy' when that's the mode); phrases must
+ * appear as written, ignoring case.
+ */
+export const compileSearchQuery = <T,>(
+  query: string,
+  columns: Column<T>[],
+  options: { searchableColumns?: string[]; mode?: GlobalSearchMode } = {}
+): CompiledSearchQuery<T> => {
+  const { terms, spans, errors } = parseSearchQueryWithSpans(query, columns);
+  const searchColumns = getSearchableColumns(columns, options.searchableColumns);
+  const fieldTerms = terms.filter((term): term is Extract<SearchQueryTerm<T>, { kind: 'field' }> => term.kind === 'field');
+  const textTerms = terms.filter((term): term is Extract<SearchQueryTerm<T>, { kind: 'text' }> => term.kind === 'text');
+  const words = textTerms.filter(term => !term.phrase && !term.negated).map(term => term.text);
+  const phrases = textTerms.filter(term => term.phrase && !term.negated).map(term => term.text);
+  const excluded = textTerms.filter(term => term.negated).map(term => term.text);
+  const wordMode: GlobalSearchMode = options.mode === 'fuzzy' ? 'fuzzy' : 'tokens';
+
+  const score = (item: T) => {
+    if (!fieldTerms.every(term => matchesFilter(item, term.filter, term.column) !== term.negated)) return 0;
+    if (phrases.some(phrase => scoreSearchMatch(item, searchColumns, phrase, 'contains') === 0)) return 0;
+    if (excluded.some(text => scoreSearchMatch(item, searchColumns, text, 'contains') > 0)) return 0;
+    const wordScore = words.length > 0 ? scoreSearchMatch(item, searchColumns, words.join(' '), wordMode) : 1;
+    return wordScore > 0 ? wordScore + phrases.length * 3 : 0;
+  };
+
+  const remainingQuery = terms
+    .map((term, index) => term.kind === 'field' && !term.negated ? '' : query.slice(...spans[index]))
+    .filter(Boolean)
+    .join(' ');
+
+  return {
+    filters: fieldTerms.filter(term => !term.negated).map(term => term.filter),
+    remainingQuery,
+    score,
+    errors,
+    textQuery: [...words, ...phrases].join(' '),
+  };
+};
+
+/**
+ * Field names completing the word being typed at the end of the query, as
+ * `accessor:` with the column header.
+ */
+export const getSearchFieldSuggestions = <T,>(query: string, columns: Column<T>[]): { value: string; description: string }[] => {
+  const match = /(?:^|\s)-?([\p{L}\p{N}_]+)$/u.exec(query);
+  if (!match) return [];
+  const prefix = normalizeFieldName(match[1]);
+  return columns
+    .filter(column => normalizeFieldName(String(column.accessor)).startsWith(prefix) || normalizeFieldName(column.header).startsWith(prefix))
+    .map(column => ({ value: `${String(column.accessor)}:`, description: column.header }));
+};
+
+/** Replaces the word being typed at the end of the query with a suggestion. */
+export const applySearchFieldSuggestion = (query: string, suggestion: string): string =>
+  query.replace(/[\p{L}\p{N}_]+$/u, suggestion);
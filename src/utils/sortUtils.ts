@@ -0,0 +1,101 @@
+import type { Column, SortConfig } from '../types';
+
+/**
+ * Row sorting utilities
+ *
+ * Builds the multi-column comparator used by useTable from the sort config and
+ * each column's sortFn/sortValue/sortMode/sortNulls options.
+ */
+
+const isEmptySortValue = (value: unknown) => value === null || value === undefined || value === '';
+
+const compareBasicStrings = (a: unknown, b: unknown) => {
+  const strA = String(a).toLowerCase();
+  const strB = String(b).toLowerCase();
+  if (strA < strB) return -1;
+  if (strA > strB) return 1;
+  return 0;
+};
+
+const createCollator = <T,>(column: Column<T>): Intl.Collator | null => {
+  if (column.sortMode === 'natural') {
+    return new Intl.Collator(column.sortLocale, { numeric: true, sensitivity: 'base', ...column.collatorOptions });
+  }
+  if (column.sortMode === 'locale') {
+    return new Intl.Collator(column.sortLocale, { sensitivity: 'base', ...column.collatorOptions });
+  }
+  return null;
+};
+
+/**
+ * Compares two non-empty values of a column in ascending order
+ */
+export const compareSortValues = <T,>(aValue: unknown, bValue: unknown, column?: Column<T>, collator?: Intl.Collator | null): number => {
+  if (typeof aValue === 'number' && typeof bValue === 'number') {
+    return aValue - bValue;
+  }
+  if (aValue instanceof Date && bValue instanceof Date) {
+    return aValue.getTime() - bValue.getTime();
+  }
+  if (column?.dataType === 'number' || column?.dataType === 'currency') {
+    return 0;
+  }
+  if ((column?.dataType === 'date' || column?.dataType === 'datetime') && typeof aValue === 'string' && typeof bValue === 'string') {
+    const dateA = new Date(aValue).getTime();
+    const dateB = new Date(bValue).getTime();
+    return !isNaN(dateA) && !isNaN(dateB) ? dateA - dateB : 0;
+  }
+  if (column?.dataType === 'collection') {
+    // Collection sorting: first by count, then alphabetically by first value
+    const aCollection = Array.isArray(aValue) ? aValue : (aValue ? [aValue] : []);
+    const bCollection = Array.isArray(bValue) ? bValue : (bValue ? [bValue] : []);
+    if (aCollection.length !== bCollection.length) {
+      return aCollection.length - bCollection.length;
+    }
+    const aFirst = aCollection[0] || '';
+    const bFirst = bCollection[0] || '';
+    return collator ? collator.compare(String(aFirst), String(bFirst)) : compareBasicStrings(aFirst, bFirst);
+  }
+  return collator ? collator.compare(String(aValue), String(bValue)) : compareBasicStrings(aValue, bValue);
+};
+
+/**
+ * Creates a comparator applying each sort config in order. Empty values
+ * (null, undefined, '') are placed by the column's sortNulls policy and are
+ * not affected by the sort direction. Columns with a sortFn handle everything
+ * themselves, including empty values.
+ */
+export const createRowComparator = <T,>(sortConfig: SortConfig<T>[], allColumns: Column<T>[]) => {
+  const columnMap = new Map(allColumns.map(c => [c.accessor, c]));
+  const collators = new Map(sortConfig.map(({ key }) => {
+    const column = columnMap.get(key);
+    return [key, column ? createCollator(column) : null];
+  }));
+
+  return (a: T, b: T): number => {
+    for (const { key, direction } of sortConfig) {
+      const column = columnMap.get(key);
+      const sign = direction === 'ascending' ? 1 : -1;
+
+      if (column?.sortFn) {
+        const comparison = column.sortFn(a, b);
+        if (comparison !== 0) return comparison * sign;
+        continue;
+      }
+
+      const aValue = column?.sortValue ? column.sortValue(a) : a[key];
+      const bValue = column?.sortValue ? column.sortValue(b) : b[key];
+      const aEmpty = isEmptySortValue(aValue);
+      const bEmpty = isEmptySortValue(bValue);
+      if (aEmpty || bEmpty) {
+        if (aEmpty && bEmpty) continue;
+        const emptyFirst = column?.sortNulls === 'first';
+        return aEmpty === emptyFirst ? -1 : 1;
+      }
+
+      const comparison = compareSortValues(aValue, bValue, column, collators.get(key));
+      if (comparison !== 0) return comparison * sign;
+    }
+    return 0;
+  };
+};
@@ -0,0 +1,116 @@
+import type { RowId, TreeDataConfig, TreeRowInfo } from '../types';
+
+export interface TreeNode<T> {
+  row: T;
+  id: RowId;
+  depth: number;
+  children: TreeNode<T>[];
+}
+
+export interface Tree<T> {
+  roots: TreeNode<T>[];
+  // Every node by row, including rows below collapsed parents
+  nodes: Map<T, TreeNode<T>>;
+}
+
+/**
+ * Builds the tree for tree data mode. Row ids come from getRowId, else from
+ * idAccessor (parentIdAccessor mode) or the row's index path, e.g. "0.2.1"
+ * (getSubRows mode). Rows whose parent id doesn't match any row are top-level.
+ */
+export const buildTree = <T,>(
+  data: T[],
+  config: TreeDataConfig<T>,
+  getRowId?: (row: T, index: number) => RowId
+): Tree<T> => {
+  const nodes = new Map<T, TreeNode<T>>();
+
+  if (config.getSubRows) {
+    const getSubRows = config.getSubRows;
+    const build = (rows: T[], depth: number, parentPath: string): TreeNode<T>[] =>
+      rows.map((row, index) => {
+        const path = parentPath ? `${parentPath}.${index}` : String(index);
+        const node: TreeNode<T> = { row, id: getRowId ? getRowId(row, index) : path, depth, children: [] };
+        nodes.set(row, node);
+        node.children = build(getSubRows(row) ?? [], depth + 1, path);
+        return node;
+      });
+    return { roots: build(data, 0, ''), nodes };
+  }
+
+  const parentKey = config.parentIdAccessor as keyof T;
+  const idKey = config.idAccessor ?? ('id' as keyof T);
+  const byId = new Map<unknown, TreeNode<T>>();
+  data.forEach((row, index) => {
+    const node: TreeNode<T> = { row, id: getRowId ? getRowId(row, index) : (row[idKey] as unknown as RowId), depth: 0, children: [] };
+    nodes.set(row, node);
+    byId.set(row[idKey], node);
+  });
+
+  const roots: TreeNode<T>[] = [];
+  data.forEach(row => {
+    const parent = byId.get(row[parentKey]);
+    if (parent && parent.row !== row) parent.children.push(nodes.get(row)!);
+    else roots.push(nodes.get(row)!);
+  });
+
+  // Depths from the roots; rows never reached sit on a parent cycle
+  const reached = new Set<T>();
+  const setDepth = (node: TreeNode<T>, depth: number) => {
+    reached.add(node.row);
+    node.depth = depth;
+    node.children.forEach(child => setDepth(child, depth + 1));
+  };
+  roots.forEach(root => setDepth(root, 0));
+  const unreached = data.find(row => !reached.has(row));
+  if (unreached !== undefined) {
+    throw new Error(
+      `[ReusableTable] Tree rows form a cycle through "${String(parentKey)}" (row id "${String(unreached[idKey])}"). ` +
+      'Every row needs a chain of parents that ends at a top-level row, whose parent id is empty or unknown.'
+    );
+  }
+  return { roots, nodes };
+};
+
+/**
+ * Keeps the rows that match plus every ancestor of a matching row
+ */
+export const filterTree = <T,>(nodes: TreeNode<T>[], predicate: (row: T) => boolean): TreeNode<T>[] =>
+  nodes.flatMap(node => {
+    const children = filterTree(node.children, predicate);
+    return children.length > 0 || predicate(node.row) ? [{ ...node, children }] : [];
+  });
+
+/**
+ * Sorts every level separately, so children stay under their parent
+ */
+export const sortTree = <T,>(nodes: TreeNode<T>[], compare: (a: T, b: T) => number): TreeNode<T>[] =>
+  [...nodes]
+    .sort((a, b) => compare(a.row, b.row))
+    .map(node => ({ ...node, children: sortTree(node.children, compare) }));
+
+/**
+ * Depth-first list of the rows below expanded parents (every row without
+ * isExpanded), with the tree position of each listed row
+ */
+export const flattenTree = <T,>(
+  nodes: TreeNode<T>[],
+  isExpanded: (id: RowId) => boolean = () => true
+): { rows: T[]; info: Map<T, TreeRowInfo> } => {
+  const rows: T[] = [];
+  const info = new Map<T, TreeRowInfo>();
+  const visit = (node: TreeNode<T>) => {
+    const expanded = node.children.length > 0 && isExpanded(node.id);
+    rows.push(node.row);
+    info.set(node.row, { id: node.id, depth: node.depth, subRowCount: node.children.length, isExpanded: expanded });
+    if (expanded) node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+  return { rows, info };
+};
+
+/**
+ * Every row below a node, depth first
+ */
+export const getDescendantRows = <T,>(node: TreeNode<T> | undefined): T[] =>
+  node ? node.children.flatMap(child => [child.row, ...getDescendantRows(child)]) : [];
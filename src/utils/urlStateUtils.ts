@@ -0,0 +1,171 @@
+import type { Column, FilterConfig, FilterOperator, SortConfig, UrlTableState } from '../types';
+
+/**
+ * URL query-string encoding of table state
+ *
+ * Version 1 format (every parameter is optional, names take an optional prefix):
+ *   v=1
+ *   sort=name,-price                   '-' marks a descending column
+ *   filter=name:contains:ann,price:between:10:20
+ *   page=2&size=25
+ *   cols=name,price,status
+ *   group=status,team
+ *
+ * Inside a part, '~', ',' and ':' are escaped as '~0', '~1' and '~2', and a
+ * sort key starting with '-' as '~3', so any value round-trips.
+ */
+
+export const TABLE_QUERY_VERSION = 1;
+
+export interface TableQueryOptions<T> {
+  // Known columns; keys of other columns are dropped with a warning when parsing
+  columns: Column<T>[];
+  // Prepended to every parameter name, e.g. 'orders.' when a page shows several tables
+  prefix?: string;
+}
+
+const PARAM_NAMES = ['v', 'sort', 'filter', 'page', 'size', 'cols', 'group'] as const;
+
+const escapePart = (value: string) => value.replace(/~/g, '~0').replace(/,/g, '~1').replace(/:/g, '~2');
+
+const unescapePart = (value: string) =>
+  value.replace(/~([0-3])/g, (_, code: string) => ['~', ',', ':', '-'][Number(code)]);
+
+// Like encodeURIComponent, but leaves the ',' and ':' separators readable
+const encodeQueryValue = (value: string) =>
+  encodeURIComponent(value).replace(/%2C/gi, ',').replace(/%3A/gi, ':');
+
+const splitList = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+
+const parsePositiveInt = (value: string | null): number | undefined => {
+  if (value === null || !/^\d+$/.test(value)) return undefined;
+  const number = Number(value);
+  return number > 0 ? number : undefined;
+};
+
+/**
+ * Names of the query parameters a table uses, e.g. to remove them from a URL
+ */
+export const getTableQueryParamNames = (prefix = ''): string[] => PARAM_NAMES.map(name => `${prefix}${name}`);
+
+/**
+ * Encodes table state as a query string without the leading '?'. An empty sort
+ * or filter list is written as an empty parameter, so "none" survives a
+ * reload; other empty lists, page 1 and missing values are left out, and
+ * empty state gives an empty string.
+ */
+export const serializeTableState = <T,>(state: UrlTableState<T>, prefix = ''): string => {
+  const params: [string, string][] = [['v', String(TABLE_QUERY_VERSION)]];
+
+  if (state.sortConfig) {
+    params.push(['sort', state.sortConfig
+      .map(({ key, direction }) => {
+        const escaped = escapePart(String(key)).replace(/^-/, '~3');
+        return direction === 'descending' ? `-${escaped}` : escaped;
+      })
+      .join(',')]);
+  }
+  if (state.filters) {
+    params.push(['filter', state.filters
+      .map(({ key, operator, value, secondValue }) => {
+        const parts = [String(key), String(operator), value ?? ''];
+        if (secondValue !== undefined && secondValue !== '') parts.push(secondValue);
+        return parts.map(escapePart).join(':');
+      })
+      .join(',')]);
+  }
+  if (state.page && state.page > 1) params.push(['page', String(state.page)]);
+  if (state.pageSize) params.push(['size', String(state.pageSize)]);
+  if (state.visibleColumns?.length) params.push(['cols', state.visibleColumns.map(key => escapePart(String(key))).join(',')]);
+  if (state.groupBy?.length) params.push(['group', state.groupBy.map(key => escapePart(String(key))).join(',')]);
+
+  if (params.length === 1) return '';
+  return params.map(([name, value]) => `${encodeURIComponent(prefix + name)}=${encodeQueryValue(value)}`).join('&');
+};
+
+/**
+ * Decodes table state from a query string (with or without '?') or URLSearchParams.
+ * Only parameters present in the query are returned. Keys of unknown columns are
+ * dropped with a console warning; a query from a newer format version is ignored.
+ */
+export const parseTableState = <T,>(
+  query: string | URLSearchParams,
+  { columns, prefix = '' }: TableQueryOptions<T>
+): UrlTableState<T> => {
+  const params = typeof query === 'string' ? new URLSearchParams(query) : query;
+  const get = (name: string) => params.get(prefix + name);
+
+  const version = get('v');
+  if (version !== null && Number(version) !== TABLE_QUERY_VERSION) {
+    console.warn(
+      `[ReusableTable] Ignoring table state in the URL: format version "${version}" is not supported ` +
+      `(expected ${TABLE_QUERY_VERSION}).`
+    );
+    return {};
+  }
+
+  const accessors = new Map(columns.map(column => [String(column.accessor), column.accessor]));
+  const unknownKeys = new Set<string>();
+  const resolveKey = (rawKey: string): keyof T | undefined => {
+    const key = accessors.get(rawKey);
+    if (key === undefined) unknownKeys.add(rawKey);
+    return key;
+  };
+
+  const state: UrlTableState<T> = {};
+
+  if (get('sort') !== null) {
+    state.sortConfig = splitList(get('sort')).flatMap((part): SortConfig<T>[] => {
+      const descending = part.startsWith('-');
+      const key = resolveKey(unescapePart(descending ? part.slice(1) : part));
+      return key === undefined ? [] : [{ key, direction: descending ? 'descending' : 'ascending' }];
+    });
+  }
+
+  if (get('filter') !== null) {
+    state.filters = splitList(get('filter')).flatMap((part): FilterConfig<T>[] => {
+      const [rawKey, operator, value = '', secondValue] = part.split(':').map(unescapePart);
+      if (!operator) return [];
+      const key = resolveKey(rawKey);
+      if (key === undefined) return [];
+      const filter: FilterConfig<T> = { key, operator: operator as FilterOperator, value };
+      if (secondValue !== undefined) filter.secondValue = secondValue;
+      return [filter];
+    });
+  }
+
+  const page = parsePositiveInt(get('page'));
+  if (page !== undefined) state.page = page;
+  const pageSize = parsePositiveInt(get('size'));
+  if (pageSize !== undefined) state.pageSize = pageSize;
+
+  const parseKeys = (name: string) =>
+    splitList(get(name))
+      .map(part => resolveKey(unescapePart(part)))
+      .filter((key): key is keyof T => key !== undefined);
+
+  if (get('cols') !== null) state.visibleColumns = parseKeys('cols');
+  if (get('group') !== null) state.groupBy = parseKeys('group');
+
+  if (unknownKeys.size > 0) {
+    console.warn(
+      '[ReusableTable] Ignoring unknown columns in the URL: ' +
+      Array.from(unknownKeys).map(key => `"${key}"`).join(', ') + '. ' +
+      'Available columns: ' + Array.from(accessors.keys()).map(key => `"${key}"`).join(', ') + '.'
+    );
+  }
+
+  return state;
+};
+
+/**
+ * Replaces the table's parameters in a query string, keeping every other parameter.
+ * Returns the new query string without the leading '?'.
+ */
+export const mergeTableStateIntoQuery = <T,>(search: string, state: UrlTableState<T>, prefix = ''): string => {
+  const params = new URLSearchParams(search);
+  getTableQueryParamNames(prefix).forEach(name => params.delete(name));
+  const others = params.toString();
+  const table = serializeTableState(state, prefix);
+  return [others, table].filter(Boolean).join('&');
+};
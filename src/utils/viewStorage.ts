@@ -0,0 +1,156 @@
+import type { FilterNode, GroupByEntry, StoredViews, ViewConfiguration, ViewMigration, ViewStorageAdapter } from '../types';
+import { isFilterGroup } from './filterUtils';
+
+/**
+ * Saved view persistence
+ *
+ * Storage adapters for useViewManager plus schema migrations, so views saved
+ * by an older version of an app keep working after its columns change.
+ */
+
+/**
+ * Stores views as JSON under one localStorage key
+ */
+export const createLocalStorageAdapter = <T = any>(key = 'reusable-table-views'): ViewStorageAdapter<T> => ({
+  load: () => {
+    const raw = window.localStorage.getItem(key);
+    if (raw === null) return null;
+    try {
+      return JSON.parse(raw) as StoredViews<T>;
+    } catch {
+      throw new Error(`[ReusableTable] Saved views in localStorage key "${key}" are not valid JSON.`);
+    }
+  },
+  save: stored => {
+    window.localStorage.setItem(key, JSON.stringify(stored));
+  },
+});
+
+interface IndexedDBAdapterOptions {
+  databaseName?: string;
+  // Created on first use; give each table its own key rather than its own store
+  storeName?: string;
+  key?: string;
+}
+
+/**
+ * Stores views as one record in an IndexedDB object store
+ */
+export const createIndexedDBAdapter = <T = any>({
+  databaseName = 'reusable-table',
+  storeName = 'views',
+  key = 'views',
+}: IndexedDBAdapterOptions = {}): ViewStorageAdapter<T> => {
+  const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const run = async <R,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+    const database = await openDatabase();
+    try {
+      return await new Promise<R>((resolve, reject) => {
+        const transaction = database.transaction(storeName, mode);
+        const request = action(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    } finally {
+      database.close();
+    }
+  };
+
+  return {
+    load: async () => (await run<StoredViews<T> | undefined>('readonly', store => store.get(key))) ?? null,
+    save: async stored => {
+      await run('readwrite', store => store.put(stored, key));
+    },
+  };
+};
+
+/**
+ * Upgrades stored views to schemaVersion by applying migrations[n] for every
+ * version n in between. Stored views without a version count as version 1.
+ */
+export const migrateStoredViews = <T,>(
+  stored: StoredViews<T>,
+  schemaVersion: number,
+  migrations: Record<number, ViewMigration<T>> = {}
+): StoredViews<T> => {
+  let current: StoredViews<T> = { ...stored, schemaVersion: stored.schemaVersion ?? 1 };
+
+  if (current.schemaVersion > schemaVersion) {
+    throw new Error(
+      `[ReusableTable] Saved views use schema version ${current.schemaVersion}, which is newer than ` +
+      `the supported version ${schemaVersion}.`
+    );
+  }
+
+  while (current.schemaVersion < schemaVersion) {
+    const version = current.schemaVersion;
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(
+        `[ReusableTable] No migration for saved views from schema version ${version} to ${version + 1}. ` +
+        `Add migrations[${version}], e.g. createColumnRenameMigration({ oldKey: "newKey" }).`
+      );
+    }
+    current = { ...migrate(current), schemaVersion: version + 1 };
+  }
+  return current;
+};
+
+/**
+ * Rewrites every column key a view refers to (visible columns, grouping,
+ * sorting, filters, filter expression, pivot, column widths and pins) using a map of old to new keys
+ */
+export const renameViewColumns = <T,>(view: ViewConfiguration<T>, renames: Record<string, string>): ViewConfiguration<T> => {
+  const rename = (key: keyof T): keyof T => (renames[String(key)] ?? key) as keyof T;
+
+  const renameGroupEntry = (entry: GroupByEntry<T>): GroupByEntry<T> => {
+    if (typeof entry !== 'object' || entry === null) return rename(entry as keyof T);
+    const sort = entry.sort?.by === 'aggregate' ? { ...entry.sort, column: rename(entry.sort.column) } : entry.sort;
+    return { ...entry, key: rename(entry.key), sort };
+  };
+
+  const renameFilterNode = (node: FilterNode<T>): FilterNode<T> =>
+    isFilterGroup(node)
+      ? { ...node, children: node.children.map(renameFilterNode) }
+      : { ...node, key: rename(node.key) };
+
+  return {
+    ...view,
+    visibleColumns: view.visibleColumns?.map(rename),
+    groupBy: view.groupBy?.map(renameGroupEntry),
+    groupByKeys: view.groupByKeys?.map(renameGroupEntry),
+    sortConfig: view.sortConfig?.map(sort => ({ ...sort, key: rename(sort.key) })),
+    filterConfig: view.filterConfig?.map(filter => ({ ...filter, key: rename(filter.key) })),
+    filterExpression: view.filterExpression && (renameFilterNode(view.filterExpression) as typeof view.filterExpression),
+    pivot: view.pivot && {
+      ...view.pivot,
+      rows: view.pivot.rows.map(rename),
+      columns: view.pivot.columns.map(rename),
+      value: rename(view.pivot.value),
+    },
+    columnWidths: view.columnWidths && (Object.fromEntries(
+      Object.entries(view.columnWidths).map(([key, width]) => [rename(key as keyof T), width])
+    ) as ViewConfiguration<T>['columnWidths']),
+    pinnedColumns: view.pinnedColumns && {
+      left: view.pinnedColumns.left?.map(rename),
+      right: view.pinnedColumns.right?.map(rename),
+    },
+  };
+};
+
+/**
+ * Migration that renames column keys in every stored view
+ */
+export const createColumnRenameMigration = <T = any>(renames: Record<string, string>): ViewMigration<T> =>
+  stored => ({ ...stored, views: stored.views.map(view => renameViewColumns(view, renames)) });